@@ -31,6 +31,7 @@ JUICEFS_OVERLAY_TARGET="/tmp/juicefs-files"
 JUICEFS_OVERLAY_UPPER="/tmp/juicefs-overlay-upper"
 JUICEFS_OVERLAY_WORK="/tmp/juicefs-overlay-work"
 JUICEFS_CACHE_DIR="/tmp/juicefs-cache"
+RESULTS_DIR="${GITHUB_WORKSPACE:-$PWD}/benchmark-results"
 
 # Use /tmp instead of /mnt to avoid permission issues
 mkdir -p "$JUICEFS_MOUNT" "$JUICEFS_OVERLAY_TARGET" "$JUICEFS_OVERLAY_UPPER" "$JUICEFS_OVERLAY_WORK" "$JUICEFS_CACHE_DIR"
@@ -41,6 +42,11 @@ RUN_ATTEMPT="${GITHUB_RUN_ATTEMPT:-1}"
 JUICEFS_NAME="cache-bench-${SIZE_GB}gb-${RUN_ID}-${RUN_ATTEMPT}"
 JUICEFS_BUCKET_BASE="https://${ACCOUNT}.blob.core.windows.net/${CONTAINER}"
 
+# Install the read-workload runner's dependencies
+if [ ! -d "$GITHUB_WORKSPACE/node_modules" ]; then
+    (cd "$GITHUB_WORKSPACE" && npm ci)
+fi
+
 # Install JuiceFS
 echo "[$(time_ms)ms] Installing JuiceFS..."
 JUICEFS_INSTALL_START=$(time_ms)
@@ -111,7 +117,7 @@ if [ "$JUICEFS_FILE_COUNT" -lt 100 ]; then
     cd $GITHUB_WORKSPACE
     npm ci 2>/dev/null || true
     rm -rf "$JUICEFS_FILES_DIR"
-    npm run generate -- "$SIZE_GB" "$JUICEFS_FILES_DIR"
+    npm run generate -- --size-gb "$SIZE_GB" --output "$JUICEFS_FILES_DIR"
     
     echo "[$(time_ms)ms] Starting copy to JuiceFS mount..."
     JUICEFS_UPLOAD_START=$(time_ms)
@@ -188,78 +194,15 @@ if [ "$JUICEFS_TOTAL_FILES" -eq 0 ]; then
     echo "ERROR: No files visible after remount. Failing to avoid misleading benchmark."
     exit 1
 fi
-JUICEFS_TOTAL_SIZE_MB=$((JUICEFS_TOTAL_FILES * 2))
-echo "Total files: $JUICEFS_TOTAL_FILES ($JUICEFS_TOTAL_SIZE_MB MB)"
+echo "Total files: $JUICEFS_TOTAL_FILES"
 
-# Time to first byte
+# Time to first byte, 10 random files, then full hydration with a cold and a warm cache
 echo ""
 echo "Testing JuiceFS on-demand access..."
-JUICEFS_FIRST_START=$(time_ms)
-JUICEFS_FIRST_FILE=$(find "$JUICEFS_OVERLAY_TARGET" -type f 2>/dev/null | head -1)
-echo "First file: $JUICEFS_FIRST_FILE"
-head -c 1 "$JUICEFS_FIRST_FILE" > /dev/null
-JUICEFS_FIRST_END=$(time_ms)
-JUICEFS_FIRST_TIME=$((JUICEFS_FIRST_END - JUICEFS_FIRST_START))
-echo "[${JUICEFS_FIRST_TIME}ms] Time to first byte: ${JUICEFS_FIRST_TIME}ms"
-
-# 10 random files
-echo ""
-echo "Reading 10 random files..."
-JUICEFS_SAMPLE_START=$(time_ms)
-SAMPLE_FILES=$(find "$JUICEFS_OVERLAY_TARGET" -type f 2>/dev/null | shuf | head -10)
-for f in $SAMPLE_FILES; do
-    cat "$f" > /dev/null
-done
-JUICEFS_SAMPLE_END=$(time_ms)
-JUICEFS_SAMPLE_TIME=$((JUICEFS_SAMPLE_END - JUICEFS_SAMPLE_START))
-echo "[${JUICEFS_SAMPLE_TIME}ms] 10 random files read in ${JUICEFS_SAMPLE_TIME}ms (avg: $((JUICEFS_SAMPLE_TIME / 10))ms per file)"
-
-# Full hydration (cold)
-echo ""
-echo "Full hydration (cold cache)..."
-JUICEFS_HYDRATE_START=$(time_ms)
-FILES_READ=0
-
-FILE_LIST=$(find "$JUICEFS_OVERLAY_TARGET" -type f 2>/dev/null)
-for file in $FILE_LIST; do
-    cat "$file" > /dev/null
-    FILES_READ=$((FILES_READ + 1))
-    
-    if [ $((FILES_READ % 50)) -eq 0 ]; then
-        ELAPSED=$(($(time_ms) - JUICEFS_HYDRATE_START))
-        MB_READ=$((FILES_READ * 2))
-        RATE=$((MB_READ * 1000 / (ELAPSED + 1)))
-        echo "[${ELAPSED}ms] JuiceFS read ${FILES_READ}/${JUICEFS_TOTAL_FILES} files, ${MB_READ}MB (${RATE} MB/s)"
-    fi
-done
-
-JUICEFS_HYDRATE_END=$(time_ms)
-JUICEFS_HYDRATE_TIME=$((JUICEFS_HYDRATE_END - JUICEFS_HYDRATE_START))
-JUICEFS_HYDRATE_RATE=$((JUICEFS_TOTAL_SIZE_MB * 1000 / (JUICEFS_HYDRATE_TIME + 1)))
-echo "[${JUICEFS_HYDRATE_TIME}ms] Full hydration (JuiceFS cold): ${JUICEFS_HYDRATE_TIME}ms (${JUICEFS_HYDRATE_RATE} MB/s)"
-
-# Full read (warm cache)
-echo ""
-echo "Full read (warm cache)..."
-JUICEFS_WARM_START=$(time_ms)
-FILES_READ=0
-
-for file in $FILE_LIST; do
-    cat "$file" > /dev/null
-    FILES_READ=$((FILES_READ + 1))
-    
-    if [ $((FILES_READ % 100)) -eq 0 ]; then
-        ELAPSED=$(($(time_ms) - JUICEFS_WARM_START))
-        MB_READ=$((FILES_READ * 2))
-        RATE=$((MB_READ * 1000 / (ELAPSED + 1)))
-        echo "[${ELAPSED}ms] JuiceFS warm read ${FILES_READ}/${JUICEFS_TOTAL_FILES} files, ${MB_READ}MB (${RATE} MB/s)"
-    fi
-done
-
-JUICEFS_WARM_END=$(time_ms)
-JUICEFS_WARM_TIME=$((JUICEFS_WARM_END - JUICEFS_WARM_START))
-JUICEFS_WARM_RATE=$((JUICEFS_TOTAL_SIZE_MB * 1000 / (JUICEFS_WARM_TIME + 1)))
-echo "[${JUICEFS_WARM_TIME}ms] Full read (JuiceFS warm): ${JUICEFS_WARM_TIME}ms (${JUICEFS_WARM_RATE} MB/s)"
+(cd "$GITHUB_WORKSPACE" && npm run --silent workload -- "$JUICEFS_OVERLAY_TARGET" --prefix juicefs_ --sample 10 \
+    --workloads first-byte,sample,hydrate-seq@hydrate_cold,hydrate-seq@hydrate_warm \
+    --name juicefs --mode juicefs --size-gb "$SIZE_GB" --step "mount=$JUICEFS_TOTAL_MOUNT" \
+    --result-file "$RESULTS_DIR/juicefs.json")
 
 # Cleanup
 echo ""
@@ -279,16 +222,9 @@ echo "=========================================="
 echo ""
 echo "JUICEFS (smart prefetch + block cache):"
 echo "  Total mount time:      ${JUICEFS_TOTAL_MOUNT}ms"
-echo "  Time to first byte:    ${JUICEFS_FIRST_TIME}ms"
-echo "  10 random files:       ${JUICEFS_SAMPLE_TIME}ms (avg: $((JUICEFS_SAMPLE_TIME / 10))ms)"
-echo "  Full hydration (cold): ${JUICEFS_HYDRATE_TIME}ms (${JUICEFS_HYDRATE_RATE} MB/s)"
-echo "  Full read (warm):      ${JUICEFS_WARM_TIME}ms (${JUICEFS_WARM_RATE} MB/s)"
 echo ""
+echo "Read workload results are logged above and exported as step outputs."
 echo "=========================================="
 
-# Output as GitHub Actions step outputs
+# Output as GitHub Actions step outputs (read workloads export their own)
 echo "juicefs_mount_time=${JUICEFS_TOTAL_MOUNT}" >> $GITHUB_OUTPUT
-echo "juicefs_first_byte=${JUICEFS_FIRST_TIME}" >> $GITHUB_OUTPUT
-echo "juicefs_sample_time=${JUICEFS_SAMPLE_TIME}" >> $GITHUB_OUTPUT
-echo "juicefs_hydrate_cold=${JUICEFS_HYDRATE_TIME}" >> $GITHUB_OUTPUT
-echo "juicefs_hydrate_warm=${JUICEFS_WARM_TIME}" >> $GITHUB_OUTPUT
@@ -11,6 +11,7 @@ SQUASHFS_MOUNT="/mnt/squashfs"
 OVERLAY_UPPER="/tmp/overlay-upper"
 OVERLAY_WORK="/tmp/overlay-work"
 LOCAL_SQUASHFS="/tmp/cache.squashfs"
+RESULTS_DIR="${GITHUB_WORKSPACE:-$PWD}/benchmark-results"
 
 # Timing helper
 time_ms() {
@@ -55,25 +56,14 @@ if [ "$HTTP_STATUS" == "200" ]; then
 else
     echo "Blob does not exist (HTTP $HTTP_STATUS), generating and uploading..."
     
-    # Install squashfs-tools
-    sudo apt-get update && sudo apt-get install -y squashfs-tools
-
-    # Generate files using our TypeScript generator
+    # Write the image straight from the dataset seeds; same layout as
+    # mksquashfs -noI -noD -noF -noX -no-duplicates -no-sparse -b 1M
     echo ""
-    echo "=== Generating ${SIZE_GB}GB of test files ==="
+    echo "=== Creating SquashFS image of ${SIZE_GB}GB of test files ==="
     cd $GITHUB_WORKSPACE
     npm ci
-    npm run generate -- "$SIZE_GB" "./files"
-    
-    # Create squashfs
-    echo ""
-    echo "=== Creating SquashFS image ==="
-    mksquashfs "./files" "$LOCAL_SQUASHFS" \
-        -noI -noD -noF -noX \
-        -no-duplicates \
-        -no-sparse \
-        -b 1M \
-        -processors "$(nproc)"
+    npm run --silent cli -- squashfs build "$LOCAL_SQUASHFS" --virtual --size-gb "$SIZE_GB" --block-size 1M
+    npm run --silent cli -- squashfs stats "$LOCAL_SQUASHFS" --range-size 4M
     
     # Upload to Azure using streaming (PUT with -T)
     echo ""
@@ -91,8 +81,8 @@ else
     echo ""
     echo "Upload complete."
     
-    # Clean up local files
-    rm -rf "./files" "$LOCAL_SQUASHFS"
+    # Clean up the local image
+    rm -f "$LOCAL_SQUASHFS"
 fi
 
 # Install blobfuse2 if needed
@@ -109,6 +99,19 @@ if ! command -v blobfuse2 &> /dev/null; then
     echo "[${INSTALL_END}ms] blobfuse2 installed in $((INSTALL_END - INSTALL_START))ms"
 fi
 
+# Install the read-workload runner's dependencies (already done if we generated above)
+if [ ! -d "$GITHUB_WORKSPACE/node_modules" ]; then
+    (cd "$GITHUB_WORKSPACE" && npm ci)
+fi
+
+# Run read workloads against a mounted directory; results become step outputs
+run_workloads() {
+    local target
+    target=$(realpath "$1")
+    shift
+    (cd "$GITHUB_WORKSPACE" && npm run --silent workload -- "$target" "$@")
+}
+
 # Create mount directories
 sudo mkdir -p "$MOUNT_POINT" "$SQUASHFS_MOUNT" "$OVERLAY_UPPER" "$OVERLAY_WORK" "$BLOBFUSE_CACHE_DIR" "$OVERLAY_TARGET"
 
@@ -181,71 +184,11 @@ echo "[${OVERLAY_END}ms] overlayfs mount complete: ${OVERLAY_TIME}ms"
 TOTAL_MOUNT_TIME=$((MOUNT_TIME + SQUASH_TIME + OVERLAY_TIME))
 echo "[${OVERLAY_END}ms] Total mount time (cached): ${TOTAL_MOUNT_TIME}ms"
 
-# Count files and find first file
-TOTAL_FILES=$(find "$OVERLAY_TARGET" -type f 2>/dev/null | wc -l)
-TOTAL_SIZE_MB=$((TOTAL_FILES * 2))
-FIRST_FILE=$(find "$OVERLAY_TARGET" -type f 2>/dev/null | head -1)
-echo "Total files: $TOTAL_FILES ($TOTAL_SIZE_MB MB)"
-echo "First file: $FIRST_FILE"
-
-# Time to first file
-FIRST_FILE_START=$(time_ms)
-head -c 1 "$FIRST_FILE" > /dev/null
-FIRST_FILE_END=$(time_ms)
-FIRST_FILE_TIME=$((FIRST_FILE_END - FIRST_FILE_START))
-echo "[${FIRST_FILE_END}ms] Time to first byte: ${FIRST_FILE_TIME}ms"
-
-# Full read (hydration) - cold cache with logging
-echo "Hydrating (cold cache)..."
-HYDRATE_START=$(time_ms)
-FILES_READ=0
-
-echo "[0ms] Beginning file enumeration (cold)..."
-FILE_LIST=$(find "$OVERLAY_TARGET" -type f 2>/dev/null)
-ENUM_TIME=$(($(time_ms) - HYDRATE_START))
-echo "[${ENUM_TIME}ms] File enumeration complete (cold)"
-
-echo "[${ENUM_TIME}ms] Beginning sequential reads (cold)..."
-for file in $FILE_LIST; do
-    cat "$file" > /dev/null
-    FILES_READ=$((FILES_READ + 1))
-    
-    if [ $((FILES_READ % 10)) -eq 0 ]; then
-        ELAPSED=$(($(time_ms) - HYDRATE_START))
-        MB_READ=$((FILES_READ * 2))
-        RATE=$((MB_READ * 1000 / (ELAPSED + 1)))
-        echo "[${ELAPSED}ms] Cold read ${FILES_READ}/${TOTAL_FILES} files, ${MB_READ}MB (${RATE} MB/s)"
-    fi
-done
-
-HYDRATE_END=$(time_ms)
-HYDRATE_TIME=$((HYDRATE_END - HYDRATE_START))
-HYDRATE_RATE=$((TOTAL_SIZE_MB * 1000 / (HYDRATE_TIME + 1)))
-echo "[${HYDRATE_TIME}ms] Full hydration (cold cache) complete: ${HYDRATE_TIME}ms (${HYDRATE_RATE} MB/s)"
-
-# Full read - warm cache with logging
-echo ""
-echo "Reading (warm cache)..."
-HYDRATE2_START=$(time_ms)
-FILES_READ=0
-
-echo "[0ms] Beginning sequential reads (warm)..."
-for file in $FILE_LIST; do
-    cat "$file" > /dev/null
-    FILES_READ=$((FILES_READ + 1))
-    
-    if [ $((FILES_READ % 10)) -eq 0 ]; then
-        ELAPSED=$(($(time_ms) - HYDRATE2_START))
-        MB_READ=$((FILES_READ * 2))
-        RATE=$((MB_READ * 1000 / (ELAPSED + 1)))
-        echo "[${ELAPSED}ms] Warm read ${FILES_READ}/${TOTAL_FILES} files, ${MB_READ}MB (${RATE} MB/s)"
-    fi
-done
-
-HYDRATE2_END=$(time_ms)
-HYDRATE2_TIME=$((HYDRATE2_END - HYDRATE2_START))
-HYDRATE2_RATE=$((TOTAL_SIZE_MB * 1000 / (HYDRATE2_TIME + 1)))
-echo "[${HYDRATE2_TIME}ms] Full read (warm cache) complete: ${HYDRATE2_TIME}ms (${HYDRATE2_RATE} MB/s)"
+# Time to first byte, then full hydration with a cold and a warm cache
+run_workloads "$OVERLAY_TARGET" --prefix cached_ \
+    --workloads first-byte,hydrate-seq@hydrate_cold,hydrate-seq@hydrate_warm \
+    --name mountable-squashfs --mode squashfs+blobfuse2 --size-gb "$SIZE_GB" --step "mount=$TOTAL_MOUNT_TIME" \
+    --result-file "$RESULTS_DIR/mountable-squashfs.json"
 
 echo ""
 echo "[$(time_ms)ms] Starting cleanup for cached benchmark..."
@@ -260,9 +203,6 @@ sudo blobfuse2 unmount "$MOUNT_POINT" || true
 echo "[$(time_ms)ms] Cleanup complete"
 
 CACHED_MOUNT_TIME=$TOTAL_MOUNT_TIME
-CACHED_FIRST_BYTE=$FIRST_FILE_TIME
-CACHED_HYDRATE_COLD=$HYDRATE_TIME
-CACHED_HYDRATE_WARM=$HYDRATE2_TIME
 
 #############################################
 # Benchmark 3: Individual files (no squashfs)
@@ -291,7 +231,7 @@ else
     cd $GITHUB_WORKSPACE
     npm ci 2>/dev/null || true
     rm -rf "$INDIVIDUAL_FILES_DIR"  # Clean any partial data
-    npm run generate -- "$SIZE_GB" "$INDIVIDUAL_FILES_DIR"
+    npm run generate -- --size-gb "$SIZE_GB" --output "$INDIVIDUAL_FILES_DIR"
     
     # Verify files were generated
     GENERATED_COUNT=$(find "$INDIVIDUAL_FILES_DIR" -type f 2>/dev/null | wc -l)
@@ -385,57 +325,13 @@ echo "[${INDIVIDUAL_OVERLAY_TIME}ms] overlayfs mount complete: ${INDIVIDUAL_OVER
 INDIVIDUAL_TOTAL_MOUNT=$((INDIVIDUAL_MOUNT_TIME + INDIVIDUAL_OVERLAY_TIME))
 echo "[${INDIVIDUAL_TOTAL_MOUNT}ms] Total mount time (individual files): ${INDIVIDUAL_TOTAL_MOUNT}ms"
 
-# Time to first file
+# Time to first byte, 10 random files, then full hydration (all on-demand)
 echo ""
 echo "Testing on-demand file access..."
-INDIVIDUAL_FIRST_START=$(time_ms)
-INDIVIDUAL_FIRST_FILE=$(find "$INDIVIDUAL_OVERLAY_TARGET" -type f 2>/dev/null | head -1)
-echo "First file: $INDIVIDUAL_FIRST_FILE"
-head -c 1 "$INDIVIDUAL_FIRST_FILE" > /dev/null
-INDIVIDUAL_FIRST_END=$(time_ms)
-INDIVIDUAL_FIRST_TIME=$((INDIVIDUAL_FIRST_END - INDIVIDUAL_FIRST_START))
-echo "[${INDIVIDUAL_FIRST_TIME}ms] Time to first byte (on-demand): ${INDIVIDUAL_FIRST_TIME}ms"
-
-# Read a few files on-demand
-echo ""
-echo "Reading 10 random files on-demand..."
-INDIVIDUAL_SAMPLE_START=$(time_ms)
-SAMPLE_FILES=$(find "$INDIVIDUAL_OVERLAY_TARGET" -type f 2>/dev/null | shuf | head -10)
-for f in $SAMPLE_FILES; do
-    cat "$f" > /dev/null
-done
-INDIVIDUAL_SAMPLE_END=$(time_ms)
-INDIVIDUAL_SAMPLE_TIME=$((INDIVIDUAL_SAMPLE_END - INDIVIDUAL_SAMPLE_START))
-echo "[${INDIVIDUAL_SAMPLE_TIME}ms] 10 random files read in ${INDIVIDUAL_SAMPLE_TIME}ms (avg: $((INDIVIDUAL_SAMPLE_TIME / 10))ms per file)"
-
-# Count files for full hydration
-INDIVIDUAL_TOTAL_FILES=$(find "$INDIVIDUAL_OVERLAY_TARGET" -type f 2>/dev/null | wc -l)
-INDIVIDUAL_TOTAL_SIZE_MB=$((INDIVIDUAL_TOTAL_FILES * 2))
-echo "Total files available: $INDIVIDUAL_TOTAL_FILES ($INDIVIDUAL_TOTAL_SIZE_MB MB)"
-
-# Full hydration test
-echo ""
-echo "Full hydration (all files, on-demand)..."
-INDIVIDUAL_HYDRATE_START=$(time_ms)
-FILES_READ=0
-
-FILE_LIST=$(find "$INDIVIDUAL_OVERLAY_TARGET" -type f 2>/dev/null)
-for file in $FILE_LIST; do
-    cat "$file" > /dev/null
-    FILES_READ=$((FILES_READ + 1))
-    
-    if [ $((FILES_READ % 50)) -eq 0 ]; then
-        ELAPSED=$(($(time_ms) - INDIVIDUAL_HYDRATE_START))
-        MB_READ=$((FILES_READ * 2))
-        RATE=$((MB_READ * 1000 / (ELAPSED + 1)))
-        echo "[${ELAPSED}ms] On-demand read ${FILES_READ}/${INDIVIDUAL_TOTAL_FILES} files, ${MB_READ}MB (${RATE} MB/s)"
-    fi
-done
-
-INDIVIDUAL_HYDRATE_END=$(time_ms)
-INDIVIDUAL_HYDRATE_TIME=$((INDIVIDUAL_HYDRATE_END - INDIVIDUAL_HYDRATE_START))
-INDIVIDUAL_HYDRATE_RATE=$((INDIVIDUAL_TOTAL_SIZE_MB * 1000 / (INDIVIDUAL_HYDRATE_TIME + 1)))
-echo "[${INDIVIDUAL_HYDRATE_TIME}ms] Full hydration (individual files): ${INDIVIDUAL_HYDRATE_TIME}ms (${INDIVIDUAL_HYDRATE_RATE} MB/s)"
+run_workloads "$INDIVIDUAL_OVERLAY_TARGET" --prefix individual_ --sample 10 \
+    --workloads first-byte,sample,hydrate-seq@hydrate_time \
+    --name mountable-individual --mode blobfuse2-stream --size-gb "$SIZE_GB" --step "mount=$INDIVIDUAL_TOTAL_MOUNT" \
+    --result-file "$RESULTS_DIR/mountable-individual.json"
 
 # Cleanup
 echo ""
@@ -454,24 +350,13 @@ echo "=========================================="
 echo ""
 echo "SQUASHFS + CACHED MODE (blobfuse2 file cache):"
 echo "  Total mount time:      ${CACHED_MOUNT_TIME}ms"
-echo "  Time to first byte:    ${CACHED_FIRST_BYTE}ms"
-echo "  Full hydration (cold): ${CACHED_HYDRATE_COLD}ms"
-echo "  Full read (warm):      ${CACHED_HYDRATE_WARM}ms"
 echo ""
 echo "INDIVIDUAL FILES (blobfuse2 on-demand):"
 echo "  Total mount time:      ${INDIVIDUAL_TOTAL_MOUNT}ms"
-echo "  Time to first byte:    ${INDIVIDUAL_FIRST_TIME}ms"
-echo "  10 random files:       ${INDIVIDUAL_SAMPLE_TIME}ms (avg: $((INDIVIDUAL_SAMPLE_TIME / 10))ms)"
-echo "  Full hydration:        ${INDIVIDUAL_HYDRATE_TIME}ms (${INDIVIDUAL_HYDRATE_RATE} MB/s)"
 echo ""
+echo "Read workload results are logged above and exported as step outputs."
 echo "=========================================="
 
-# Output as GitHub Actions step outputs
+# Output as GitHub Actions step outputs (read workloads export their own)
 echo "cached_mount_time=${CACHED_MOUNT_TIME}" >> $GITHUB_OUTPUT
-echo "cached_first_byte=${CACHED_FIRST_BYTE}" >> $GITHUB_OUTPUT
-echo "cached_hydrate_cold=${CACHED_HYDRATE_COLD}" >> $GITHUB_OUTPUT
-echo "cached_hydrate_warm=${CACHED_HYDRATE_WARM}" >> $GITHUB_OUTPUT
 echo "individual_mount_time=${INDIVIDUAL_TOTAL_MOUNT}" >> $GITHUB_OUTPUT
-echo "individual_first_byte=${INDIVIDUAL_FIRST_TIME}" >> $GITHUB_OUTPUT
-echo "individual_sample_time=${INDIVIDUAL_SAMPLE_TIME}" >> $GITHUB_OUTPUT
-echo "individual_hydrate_time=${INDIVIDUAL_HYDRATE_TIME}" >> $GITHUB_OUTPUT
@@ -4,15 +4,17 @@ set -e
 SIZE_GB="${1:-2}"
 OUTPUT_DIR="${2:-./files}"
 SQUASHFS_OUTPUT="${3:-cache.squashfs}"
+CONTENT="${4:-random}"
 
 echo "=== Mountable Cache Image Generator ==="
 echo "Size: ${SIZE_GB}GB"
 echo "Output dir: ${OUTPUT_DIR}"
 echo "SquashFS output: ${SQUASHFS_OUTPUT}"
+echo "Content: ${CONTENT}"
 echo ""
 
-# Check for mksquashfs
-if ! command -v mksquashfs &> /dev/null; then
+# Only compressed images need mksquashfs; uncompressed ones are built in TypeScript
+if [ "$CONTENT" != "random" ] && ! command -v mksquashfs &> /dev/null; then
     echo "Error: mksquashfs not found. Install with:"
     echo "  macOS: brew install squashfs"
     echo "  Ubuntu: sudo apt-get install squashfs-tools"
@@ -21,20 +23,23 @@ fi
 
 # Generate the files
 echo "=== Step 1: Generating ${SIZE_GB}GB of files ==="
-npm run generate -- "$SIZE_GB" "$OUTPUT_DIR"
+npm run generate -- --size-gb "$SIZE_GB" --output "$OUTPUT_DIR" --profile uniform --content "$CONTENT"
 
-# Create SquashFS image (no compression since data is random)
+# Random data gains nothing from compression, duplicate detection or sparse
+# handling, so skip them; every other content mode exercises them
 echo ""
 echo "=== Step 2: Creating SquashFS image ==="
-echo "Using no compression (-noI -noD -noF -noX) since data is uncompressible..."
 START_TIME=$(date +%s%3N)
-
-mksquashfs "$OUTPUT_DIR" "$SQUASHFS_OUTPUT" \
-    -noI -noD -noF -noX \
-    -no-duplicates \
-    -no-sparse \
-    -b 1M \
-    -processors "$(nproc 2>/dev/null || sysctl -n hw.ncpu)"
+if [ "$CONTENT" = "random" ]; then
+    echo "Using no compression since data is uncompressible..."
+    npm run --silent cli -- squashfs build "$SQUASHFS_OUTPUT" --output "$OUTPUT_DIR" --block-size 1M
+else
+    echo "Using zstd compression with duplicate and sparse detection for ${CONTENT} content..."
+    mksquashfs "$OUTPUT_DIR" "$SQUASHFS_OUTPUT" \
+        -comp zstd \
+        -b 1M \
+        -processors "$(nproc 2>/dev/null || sysctl -n hw.ncpu)"
+fi
 
 END_TIME=$(date +%s%3N)
 ELAPSED=$((END_TIME - START_TIME))
@@ -0,0 +1,32 @@
+import * as cache from '@actions/cache';
+import { CacheBackend, SaveResult } from './backend';
+
+/**
+ * Backend for the GitHub Actions cache service via @actions/cache
+ */
+export class ActionsCacheBackend implements CacheBackend {
+  readonly name = 'actions-cache';
+
+  async save(paths: string[], key: string): Promise<SaveResult> {
+    const cacheId = await cache.saveCache(paths, key);
+    if (cacheId === -1) {
+      throw new Error('Cache save returned -1 (cache not saved)');
+    }
+    return { id: String(cacheId) };
+  }
+
+  /**
+   * restoreCache reports download and extraction failures as a miss too, so
+   * does this; restoreOrMiss looks the key up when the difference matters
+   */
+  async restore(paths: string[], key: string, restoreKeys: string[] = []): Promise<string | undefined> {
+    return cache.restoreCache(paths, key, restoreKeys);
+  }
+
+  async lookup(paths: string[], key: string, restoreKeys: string[] = []): Promise<boolean> {
+    const restoredKey = await cache.restoreCache(paths, key, restoreKeys, {
+      lookupOnly: true
+    });
+    return restoredKey !== undefined;
+  }
+}
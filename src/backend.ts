@@ -0,0 +1,104 @@
+import { Readable } from 'stream';
+import { ActionsCacheBackend } from './actions-cache-backend';
+import { DirectoryCopyBackend } from './directory-backend';
+import { TarZstdBackend } from './tar-backend';
+
+/**
+ * Result of saving paths under a cache key
+ */
+export interface SaveResult {
+  // Backend-specific identifier of the saved entry (cache ID, archive path, ...)
+  id: string;
+  // Size of the stored entry when the backend knows it
+  sizeBytes?: number;
+}
+
+/**
+ * A storage strategy the benchmark pipeline can save to and restore from
+ */
+export interface CacheBackend {
+  readonly name: string;
+
+  /**
+   * Store the given paths under key. Throws if nothing was stored.
+   */
+  save(paths: string[], key: string): Promise<SaveResult>;
+
+  /**
+   * Restore the given paths from key, or else from the newest entry whose key
+   * starts with one of restoreKeys (tried in order). Resolves to the matched
+   * key, or undefined on a miss. Backends that cannot tell a miss from a failed
+   * download resolve to undefined for both; see restoreOrMiss.
+   */
+  restore(paths: string[], key: string, restoreKeys?: string[]): Promise<string | undefined>;
+
+  /**
+   * Check whether restore would find an entry, without downloading it
+   */
+  lookup(paths: string[], key: string, restoreKeys?: string[]): Promise<boolean>;
+}
+
+/**
+ * A backend that stores tar archives it can take and hand back as streams,
+ * so a virtual dataset can be archived without being written to disk first
+ */
+export interface StreamingBackend extends CacheBackend {
+  /**
+   * Store an uncompressed tar stream under key
+   */
+  saveStream(tar: Readable, key: string): Promise<SaveResult>;
+
+  /**
+   * The uncompressed tar stream stored under key, or undefined on a miss
+   */
+  openStream(key: string): Readable | undefined;
+}
+
+export function isStreamingBackend(backend: CacheBackend): backend is StreamingBackend {
+  return 'saveStream' in backend && 'openStream' in backend;
+}
+
+/**
+ * A stored entry of a local backend
+ */
+export interface StoredEntry {
+  key: string;
+  mtimeMs: number;
+}
+
+/**
+ * Pick the entry to restore the way the Actions cache does: the exact key,
+ * else the newest entry matching the first restore key prefix that matches anything
+ */
+export function matchRestoreKey(entries: StoredEntry[], key: string, restoreKeys: string[] = []): string | undefined {
+  if (entries.some((e) => e.key === key)) {
+    return key;
+  }
+  for (const prefix of restoreKeys) {
+    const newest = entries
+      .filter((e) => e.key.startsWith(prefix))
+      .sort((a, b) => b.mtimeMs - a.mtimeMs)[0];
+    if (newest) {
+      return newest.key;
+    }
+  }
+  return undefined;
+}
+
+export const BACKEND_NAMES = ['actions-cache', 'tar-zstd', 'directory'];
+
+/**
+ * Create a backend by name. Local backends keep their entries under storeDir.
+ */
+export function createBackend(name: string, storeDir: string): CacheBackend {
+  switch (name) {
+    case 'actions-cache':
+      return new ActionsCacheBackend();
+    case 'tar-zstd':
+      return new TarZstdBackend(storeDir);
+    case 'directory':
+      return new DirectoryCopyBackend(storeDir);
+    default:
+      throw new Error(`Unknown backend "${name}". Use one of ${BACKEND_NAMES.join(', ')}`);
+  }
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { loadFaultScript, MockCacheServer } from './mock-cache-server';
+
+// Usage: cache-server-local.ts [-- command args...]
+// With a command, runs it against the server and exits with its code.
+// Without one, serves until interrupted.
+const PORT = parseInt(process.env['MOCK_CACHE_PORT'] || '0', 10);
+const STORE_DIR = process.env['MOCK_CACHE_DIR'] || 'mock-cache-store';
+const FAULTS = loadFaultScript(process.env['MOCK_CACHE_FAULTS']); // Inline JSON or .json path
+
+async function main(): Promise<void> {
+  const storeDir = path.resolve(process.cwd(), STORE_DIR);
+  const server = new MockCacheServer({ storeDir, faults: FAULTS });
+  const url = await server.start(PORT);
+  server.applyEnv();
+
+  console.log(`Mock cache service listening at ${url}`);
+  console.log(`Blobs stored in ${storeDir}`);
+  console.log(`export ACTIONS_CACHE_URL=${url}`);
+  console.log(`export ACTIONS_RUNTIME_TOKEN=${process.env['ACTIONS_RUNTIME_TOKEN']}`);
+
+  const separator = process.argv.indexOf('--');
+  const command = separator === -1 ? process.argv.slice(2) : process.argv.slice(separator + 1);
+  if (command.length === 0) {
+    const shutdown = (): void => {
+      server.stop().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    return;
+  }
+
+  const code = await new Promise<number>((resolve, reject) => {
+    const child = spawn(command[0], command.slice(1), { stdio: 'inherit', env: process.env });
+    child.on('error', reject);
+    child.on('close', (exitCode) => resolve(exitCode ?? 1));
+  });
+  console.log(`Requests served: ${JSON.stringify(server.requestCounts)}`);
+  await server.stop();
+  process.exit(code);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { archiveBytes, checkFreeSpace, datasetDiskBytes, spaceRequirements, SpaceUsage } from './capacity';
+import { DatasetProfile, planDataset } from './profiles';
+import { StorageInfo } from './storage';
+import { quietLogger, TINY_PROFILE, TINY_SIZE_GB } from './test-helpers';
+
+// Every file takes one 4KB block on disk and one 1KB header in a tar
+const ONE_BYTE_FILES: DatasetProfile = { ...TINY_PROFILE, name: 'one-byte', fileSize: { kind: 'fixed', bytes: 1 } };
+const PLAN = planDataset(ONE_BYTE_FILES, 120 / 1024 ** 3);
+const DATASET = PLAN.files.length * 4096 + PLAN.directories.length * 4096;
+const ARCHIVE = PLAN.totalBytes + PLAN.files.length * 1024;
+
+function storage(mountPoint: string | undefined, device: string, freeBytes = 1024 ** 4): StorageInfo {
+  return {
+    path: `${mountPoint ?? '/somewhere'}/x`,
+    fsType: 'ext4',
+    memoryBacked: false,
+    device,
+    mountPoint,
+    freeBytes,
+    totalBytes: freeBytes,
+  };
+}
+
+describe('datasetDiskBytes', () => {
+  test('rounds every file up to whole blocks and counts a block per directory', () => {
+    assert.equal(PLAN.files.length, 120);
+    assert.equal(datasetDiskBytes(PLAN), DATASET);
+  });
+
+  test('is never less than the dataset itself', () => {
+    const plan = planDataset(TINY_PROFILE, TINY_SIZE_GB);
+    const bytes = datasetDiskBytes(plan);
+    assert.ok(bytes >= plan.totalBytes);
+    assert.equal(bytes % 4096, 0);
+  });
+});
+
+describe('archiveBytes', () => {
+  test('counts one archive at a time for the Actions cache', () => {
+    for (const usage of [
+      { backend: 'actions-cache', savedEntries: 1 },
+      { backend: 'actions-cache', savedEntries: 5 },
+      { backend: 'actions-cache', savedEntries: 5, restoreOnly: true },
+    ]) {
+      assert.equal(archiveBytes(PLAN, usage), ARCHIVE, JSON.stringify(usage));
+    }
+  });
+
+  test('counts every saved entry for local backends', () => {
+    assert.equal(archiveBytes(PLAN, { backend: 'tar-zstd', savedEntries: 3 }), 3 * ARCHIVE);
+    assert.equal(archiveBytes(PLAN, { backend: 'directory', savedEntries: 2 }), 2 * ARCHIVE);
+  });
+
+  test('needs no archive space for a local restore-only run', () => {
+    assert.equal(archiveBytes(PLAN, { backend: 'tar-zstd', savedEntries: 3, restoreOnly: true }), 0);
+  });
+});
+
+describe('spaceRequirements', () => {
+  const usage: SpaceUsage = { backend: 'tar-zstd', savedEntries: 2 };
+  const dataset = Math.ceil(DATASET * 1.1);
+  const archives = Math.ceil(2 * ARCHIVE * 1.1);
+
+  test('adds dataset and archives up when both share a filesystem', () => {
+    const files = storage('/mnt/data', '/dev/sda1');
+    const requirements = spaceRequirements(PLAN, usage, files, storage('/mnt/data', '/dev/sda1'));
+    assert.deepEqual(requirements, [{ storage: files, datasetBytes: dataset, archiveBytes: archives }]);
+  });
+
+  test('splits them across separate filesystems', () => {
+    const files = storage('/mnt/data', '/dev/sda1');
+    for (const runnerTemp of [storage('/dev/shm', 'tmpfs'), storage('/mnt/data', '/dev/sdb1')]) {
+      assert.deepEqual(spaceRequirements(PLAN, usage, files, runnerTemp), [
+        { storage: files, datasetBytes: dataset, archiveBytes: 0 },
+        { storage: runnerTemp, datasetBytes: 0, archiveBytes: archives },
+      ]);
+    }
+  });
+
+  test('keeps them apart when the mounts are unknown', () => {
+    const requirements = spaceRequirements(PLAN, usage, storage(undefined, ''), storage(undefined, ''));
+    assert.equal(requirements.length, 2);
+  });
+});
+
+describe('checkFreeSpace', () => {
+  test('passes when every filesystem has room', () => {
+    const requirements = spaceRequirements(
+      PLAN,
+      { backend: 'tar-zstd', savedEntries: 1 },
+      storage('/mnt/data', '/dev/sda1'),
+      storage('/dev/shm', 'tmpfs')
+    );
+    assert.doesNotThrow(() => checkFreeSpace(requirements, quietLogger));
+  });
+
+  test('names every filesystem that is too small', () => {
+    const requirements = spaceRequirements(
+      PLAN,
+      { backend: 'tar-zstd', savedEntries: 1 },
+      storage('/mnt/data', '/dev/sda1', 0),
+      storage('/dev/shm', 'tmpfs', 0)
+    );
+    assert.throws(
+      () => checkFreeSpace(requirements, quietLogger),
+      /Not enough free space: \/mnt\/data .*; \/dev\/shm /
+    );
+  });
+});
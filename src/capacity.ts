@@ -0,0 +1,103 @@
+import { DatasetPlan } from './profiles';
+import { actionsLogger, Logger } from './progress';
+import { StorageInfo } from './storage';
+
+const BLOCK_SIZE = 4096;
+// tar header and padding per entry
+const TAR_ENTRY_OVERHEAD = 1024;
+// Mutations, metadata and filesystem bookkeeping the plan does not account for
+const SAFETY_MARGIN = 0.1;
+
+// Backends that keep their entries in RUNNER_TEMP rather than uploading them
+const LOCAL_BACKENDS = ['tar-zstd', 'directory'];
+
+/**
+ * How the run uses storage, as far as the space it needs is concerned
+ */
+export interface SpaceUsage {
+  backend: string;
+  // Entries saved in one run: iterations, resaves, generations or shards
+  savedEntries: number;
+  // Restore-only runs do not generate and save, they only restore
+  restoreOnly?: boolean;
+}
+
+/**
+ * Bytes one filesystem must have free
+ */
+export interface SpaceRequirement {
+  storage: StorageInfo;
+  datasetBytes: number;
+  archiveBytes: number;
+}
+
+/**
+ * Size of the dataset on disk, with every file rounded up to whole blocks
+ */
+export function datasetDiskBytes(plan: DatasetPlan): number {
+  const fileBytes = plan.files.reduce((sum, file) => sum + Math.ceil(file.size / BLOCK_SIZE) * BLOCK_SIZE, 0);
+  return fileBytes + plan.directories.length * BLOCK_SIZE;
+}
+
+/**
+ * Archive bytes the run writes to RUNNER_TEMP at its peak. Archives are
+ * assumed not to compress, so the estimate is an upper bound.
+ */
+export function archiveBytes(plan: DatasetPlan, usage: SpaceUsage): number {
+  const archive = plan.totalBytes + plan.files.length * TAR_ENTRY_OVERHEAD;
+  if (!LOCAL_BACKENDS.includes(usage.backend)) {
+    // actions/cache builds or downloads one archive at a time in RUNNER_TEMP and deletes it afterwards
+    return archive;
+  }
+  // Local backends keep every saved entry; a restore-only run reads an entry that is already there
+  return usage.restoreOnly ? 0 : archive * usage.savedEntries;
+}
+
+/**
+ * Space needed per filesystem: the dataset on the files filesystem and the
+ * archives on the RUNNER_TEMP one, added up when both are the same
+ */
+export function spaceRequirements(
+  plan: DatasetPlan,
+  usage: SpaceUsage,
+  files: StorageInfo,
+  runnerTemp: StorageInfo
+): SpaceRequirement[] {
+  const margin = 1 + SAFETY_MARGIN;
+  const dataset = Math.ceil(datasetDiskBytes(plan) * margin);
+  const archives = Math.ceil(archiveBytes(plan, usage) * margin);
+  const sameFilesystem =
+    files.mountPoint !== undefined && files.mountPoint === runnerTemp.mountPoint && files.device === runnerTemp.device;
+  if (sameFilesystem) {
+    return [{ storage: files, datasetBytes: dataset, archiveBytes: archives }];
+  }
+  return [
+    { storage: files, datasetBytes: dataset, archiveBytes: 0 },
+    { storage: runnerTemp, datasetBytes: 0, archiveBytes: archives },
+  ];
+}
+
+function formatGb(bytes: number): string {
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
+
+/**
+ * Fail before anything is written when a filesystem is too small for the run
+ */
+export function checkFreeSpace(requirements: SpaceRequirement[], logger: Logger = actionsLogger): void {
+  const short: string[] = [];
+  for (const { storage, datasetBytes, archiveBytes: archives } of requirements) {
+    const needed = datasetBytes + archives;
+    const where = `${storage.mountPoint ?? storage.path} (${storage.fsType})`;
+    logger.info(
+      `Space check ${where}: need ${formatGb(needed)} (dataset ${formatGb(datasetBytes)}, ` +
+        `archives ${formatGb(archives)}), ${formatGb(storage.freeBytes)} free`
+    );
+    if (needed > storage.freeBytes) {
+      short.push(`${where} needs ${formatGb(needed)} but has ${formatGb(storage.freeBytes)} free`);
+    }
+  }
+  if (short.length > 0) {
+    throw new Error(`Not enough free space: ${short.join('; ')}. Use a smaller size-gb or another storage target`);
+  }
+}
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { actionsLogger, Logger } from './progress';
+
+const SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+const SIGNAL_EXIT_CODES: Record<string, number> = { SIGINT: 130, SIGTERM: 143 };
+
+interface CleanupAction {
+  description: string;
+  // Only undone after a failure, e.g. cache entries a successful save-only run hands on
+  onlyOnFailure: boolean;
+  undo: () => void;
+}
+
+/**
+ * Undoes environment overrides and removes created paths when a run ends,
+ * however it ends. Actions run newest first and are synchronous, so they
+ * can also run from a signal handler.
+ */
+export class CleanupRegistry {
+  private actions: CleanupAction[] = [];
+  private readonly originalEnv = new Map<string, string | undefined>();
+  private signalHandler?: (signal: NodeJS.Signals) => void;
+
+  constructor(private readonly logger: Logger = actionsLogger) {}
+
+  /**
+   * Set an environment variable; cleanup puts back the value it had before the first override
+   */
+  setEnv(name: string, value: string): void {
+    if (!this.originalEnv.has(name)) {
+      const original = process.env[name];
+      this.originalEnv.set(name, original);
+      this.add(`restore ${name}`, () => {
+        if (original === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = original;
+        }
+      });
+    }
+    process.env[name] = value;
+  }
+
+  /**
+   * Remove a path, recursively, when the run ends
+   */
+  removePath(target: string, onlyOnFailure = false): void {
+    this.add(`remove ${target}`, () => fs.rmSync(target, { recursive: true, force: true }), onlyOnFailure);
+  }
+
+  /**
+   * Remove the entries of a directory whose names start with prefix, e.g.
+   * one run's entries, including partial archives, in a shared cache store
+   */
+  removeEntries(dir: string, prefix: string, onlyOnFailure = false): void {
+    this.add(
+      `remove entries ${prefix}* from ${dir}`,
+      () => {
+        if (!fs.existsSync(dir)) return;
+        for (const name of fs.readdirSync(dir).filter((entry) => entry.startsWith(prefix))) {
+          fs.rmSync(path.join(dir, name), { recursive: true, force: true });
+        }
+      },
+      onlyOnFailure
+    );
+  }
+
+  /**
+   * Create a directory and remove whatever part of it did not exist before
+   */
+  mkdir(dir: string, onlyOnFailure = false): void {
+    const created = fs.mkdirSync(dir, { recursive: true });
+    if (created) {
+      this.removePath(created, onlyOnFailure);
+    }
+  }
+
+  add(description: string, undo: () => void, onlyOnFailure = false): void {
+    this.actions.push({ description, undo, onlyOnFailure });
+  }
+
+  /**
+   * Run the registered actions, newest first. A failing action is reported
+   * and does not stop the others.
+   */
+  run(failed: boolean): void {
+    const actions = this.actions.reverse();
+    this.actions = [];
+    for (const action of actions) {
+      if (action.onlyOnFailure && !failed) continue;
+      try {
+        action.undo();
+        this.logger.debug(`Cleanup: ${action.description}`);
+      } catch (error) {
+        this.logger.warning(`Cleanup could not ${action.description}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  /**
+   * Clean up and exit when the process is interrupted or terminated
+   */
+  handleSignals(): void {
+    this.signalHandler = (signal) => {
+      this.logger.warning(`Received ${signal}, cleaning up`);
+      this.run(true);
+      process.exit(SIGNAL_EXIT_CODES[signal] ?? 1);
+    };
+    for (const signal of SIGNALS) {
+      process.once(signal, this.signalHandler);
+    }
+  }
+
+  releaseSignals(): void {
+    if (!this.signalHandler) return;
+    for (const signal of SIGNALS) {
+      process.removeListener(signal, this.signalHandler);
+    }
+    this.signalHandler = undefined;
+  }
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { describe, test } from 'node:test';
+import { makeTempDir, TINY_PROFILE, TINY_SIZE_GB } from './test-helpers';
+
+const CLI = path.join(__dirname, 'cli.ts');
+
+/**
+ * Run the CLI in a child process, the way a user would
+ */
+function cli(...args: string[]): { status: number | null; stdout: string; stderr: string } {
+  const { status, stdout, stderr } = spawnSync(
+    process.execPath,
+    ['--require', 'ts-node/register/transpile-only', CLI, ...args],
+    {
+      encoding: 'utf8',
+      env: { ...process.env, TS_NODE_PROJECT: path.join(__dirname, '..', 'tsconfig.json') },
+      timeout: 120_000,
+    }
+  );
+  return { status, stdout, stderr };
+}
+
+describe('cli', () => {
+  const dataset = ['--size-gb', String(TINY_SIZE_GB), '--profile', JSON.stringify(TINY_PROFILE), '--concurrency', '1'];
+
+  test('prints usage and exits 2 without a command, 0 when asked for help', () => {
+    const bare = cli();
+    assert.equal(bare.status, 2);
+    assert.match(bare.stdout, /^Usage: mountable-disks <command>/);
+
+    const help = cli('generate', '--help');
+    assert.equal(help.status, 0);
+    assert.match(help.stdout, /^Usage: mountable-disks <command>/);
+  });
+
+  test('exits 2 for an unknown command, flag or value', () => {
+    for (const [args, message] of [
+      [['frobnicate'], /Unknown command "frobnicate"/],
+      [['generate', '--bogus'], /Unknown option '--bogus'/],
+      [['generate', '--size-gb', 'lots'], /--size-gb must be a number/],
+      [['generate', '--seed', '1.5'], /--seed must be an integer/],
+      [['report'], /report needs at least one result document/],
+    ] as const) {
+      const { status, stderr } = cli(...args);
+      assert.equal(status, 2, args.join(' '));
+      assert.match(stderr, message);
+      assert.match(stderr, /--help/);
+    }
+  });
+
+  test('generates a dataset that verifies, and exits 1 once a file is damaged', () => {
+    const output = path.join(makeTempDir(), 'files');
+    const generated = cli('generate', ...dataset, '--output', output, '--manifest', '--json');
+    assert.equal(generated.status, 0, generated.stderr);
+    // --json leaves stdout to the summary alone
+    const summary = JSON.parse(generated.stdout) as { files: number; output: string };
+    assert.equal(summary.output, output);
+    assert.equal(summary.files, 120);
+
+    const verified = cli('verify', '--output', output, '--concurrency', '1', '--json');
+    assert.equal(verified.status, 0, verified.stderr);
+    assert.equal((JSON.parse(verified.stdout) as { ok: boolean }).ok, true);
+
+    fs.writeFileSync(path.join(output, 'extra.bin'), 'not generated');
+    const failed = cli('verify', '--output', output, '--concurrency', '1', '--json');
+    assert.equal(failed.status, 1);
+    assert.deepEqual((JSON.parse(failed.stdout) as { counts: Record<string, number> }).counts.extra, 1);
+  });
+
+  test('exits 3 when the command fails', () => {
+    const missing = path.join(makeTempDir(), 'missing');
+    const { status, stderr } = cli('verify', '--output', missing);
+    assert.equal(status, 3);
+    assert.match(stderr, /^Error: .* does not exist/m);
+  });
+});
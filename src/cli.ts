@@ -0,0 +1,664 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { isMainThread } from 'worker_threads';
+import { BACKEND_NAMES, createBackend } from './backend';
+import { checkFreeSpace, spaceRequirements } from './capacity';
+import { CleanupRegistry } from './cleanup';
+import { generateFileHierarchy, GenerationStats } from './generate';
+import { logIterationSummary, runIterations } from './iterations';
+import { buildManifest, DatasetManifest, MANIFEST_FILE, parseManifest, readManifest, writeManifest } from './manifest';
+import { metadataPaths, planMetadata } from './metadata';
+import { DEFAULT_CHANGE_RATES, planGeneration } from './mutation';
+import {
+  contentTag,
+  DatasetProfile,
+  planDataset,
+  profileTag,
+  resolveContent,
+  resolveMetadata,
+  resolveProfile,
+} from './profiles';
+import { consoleLogger, FileTaskOptions, ttyProgressListener } from './progress';
+import { renderCsv, renderMarkdown } from './report';
+import { buildCacheResult, findResultFiles, readResultDocument, writeResultDocument } from './results';
+import {
+  buildSquashfsFromDirectory,
+  buildSquashfsFromPlan,
+  DEFAULT_SQUASHFS_BLOCK_SIZE,
+  formatBlockSize,
+  SquashfsBuildOptions,
+  validateBlockSize,
+} from './squashfs';
+import { SquashfsImage, SquashfsLayoutStats, verifySquashfsImage } from './squashfs-reader';
+import { detectStorage, storageLabel } from './storage';
+import {
+  logVerificationReport,
+  summarizeVerificationReport,
+  VerificationReport,
+  verifyFileHierarchy,
+} from './verify';
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_VERIFY_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_ERROR = 3;
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage: mountable-disks <command> [options]
+
+Commands:
+  generate   Generate a dataset
+  verify     Check a directory against the dataset it should contain
+  bench      Generate, save, delete, restore and verify with a cache backend
+  clean      Remove a dataset and its local cache entries
+  report     Render result documents as a Markdown table or CSV
+  squashfs   Build, list, extract, verify or inspect an uncompressed SquashFS image
+
+Dataset options (generate, verify, bench, squashfs):
+  --size-gb <n>          Dataset size in GB (default: 2)
+  --output <dir>         Dataset directory (default: ./files)
+  --profile <profile>    uniform, node_modules-like, few-large-blobs, mixed, inline JSON or a .json file
+  --content <content>    random, compressible, text, sparse, duplicates or inline JSON
+  --metadata <kinds>     all, or any of executable,symlinks,hardlinks,mtimes,xattrs,emptyDirs
+  --seed <n>             Dataset seed; 0 is the dataset the action generates (default: 0)
+  --concurrency <n>      Worker threads; 0 = one per CPU (default: 0)
+
+generate:
+  --manifest             Write a dataset manifest, so verify needs no dataset options
+
+verify, squashfs verify:
+  --generation <n>       Expect the dataset after this many rounds of changes (default: 0)
+
+bench:
+  --backend <name>       ${BACKEND_NAMES.join(', ')} (default: tar-zstd)
+  --store <dir>          Local backend entries (default: cache-store next to the dataset)
+  --iterations <n>       Measured cycles (default: 1)
+  --warmup <n>           Cycles left out of the statistics (default: 0)
+  --result-file <file>   Write a JSON result document
+  --name <name>          Name the run is reported under (default: <label>-<backend>)
+  --keep                 Keep the dataset and cache entries afterwards (default: remove them)
+
+clean:
+  --output <dir>, --store <dir>   What to remove (defaults as above)
+
+report <result.json | directory>...:
+  --markdown <file>      Write the Markdown report to a file
+  --csv <file>           Write one CSV row per run and step to a file
+  --title <text>         Report heading
+
+squashfs build <image>:
+  --virtual              Write the dataset straight from its seeds instead of reading --output
+  --block-size <size>    Data block size, a power of two from 4K to 1M (default: 1M)
+  --no-fragments         Give small files blocks of their own instead of packing them together
+  --always-fragments     Also pack the tails of files larger than a block
+  --dedup                Store files with identical content once
+  --sparse               Leave out data blocks that are all zeros
+
+squashfs list <image>      List the entries of an image
+squashfs extract <image>   Extract an image into --output
+squashfs verify <image>    Check an image against the dataset options, or the manifest inside it
+squashfs stats <image>:
+  --range-size <size>    Also count the aligned ranges of this size a lazy mount would fetch
+
+Every command:
+  --json                 Print a JSON summary on stdout; logs go to stderr
+  -h, --help             Show this help
+
+Exit codes: 0 success, 1 verification failed, 2 invalid usage, 3 other error, 130 interrupted`;
+
+type Options = NonNullable<ParseArgsConfig['options']>;
+
+const COMMON_OPTIONS: Options = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+const DATASET_OPTIONS: Options = {
+  'size-gb': { type: 'string' },
+  output: { type: 'string', default: 'files' },
+  profile: { type: 'string' },
+  content: { type: 'string' },
+  metadata: { type: 'string' },
+  seed: { type: 'string' },
+  concurrency: { type: 'string' },
+};
+
+type Values = Record<string, string | boolean | undefined>;
+
+/**
+ * Wrong flags or values; reported with a hint at --help
+ */
+class UsageError extends Error {}
+
+interface CommandResult {
+  exitCode: number;
+  summary: unknown;
+}
+
+function readNumber(values: Values, name: string, fallback: number, min = 0): number {
+  const raw = values[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (typeof raw !== 'string' || !Number.isFinite(value) || value < min) {
+    throw new UsageError(`--${name} must be a number of at least ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+function readInteger(values: Values, name: string, fallback: number, min = 0): number {
+  const value = readNumber(values, name, fallback, min);
+  if (!Number.isInteger(value)) {
+    throw new UsageError(`--${name} must be an integer, got "${values[name]}"`);
+  }
+  return value;
+}
+
+function readSizeGb(values: Values): number {
+  const sizeGb = readNumber(values, 'size-gb', 2);
+  if (!(sizeGb > 0)) {
+    throw new UsageError(`--size-gb must be positive, got "${values['size-gb']}"`);
+  }
+  return sizeGb;
+}
+
+/**
+ * The profile from --profile, --content, --metadata and --seed
+ */
+function readProfile(values: Values): DatasetProfile {
+  const seed = readInteger(values, 'seed', 0);
+  if (seed > 0xffffffff) {
+    throw new UsageError('--seed must be at most 4294967295');
+  }
+  try {
+    const profile = resolveProfile(values.profile as string | undefined);
+    const metadata = resolveMetadata((values.metadata as string | undefined) ?? '');
+    return {
+      ...profile,
+      ...(values.content ? { content: resolveContent(values.content as string) } : {}),
+      ...(metadata ? { metadata } : {}),
+      ...(seed ? { seed } : {}),
+    };
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * A byte count with an optional K, M or G suffix, e.g. 128K
+ */
+function readByteSize(values: Values, name: string, fallback: number): number {
+  const raw = values[name];
+  if (raw === undefined) return fallback;
+  const match = /^(\d+)([KMG]?)$/i.exec(String(raw));
+  if (!match) {
+    throw new UsageError(`--${name} must be a byte count like 4096, 128K or 1M, got "${raw}"`);
+  }
+  const unit = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 }[match[2].toUpperCase() as '' | 'K' | 'M' | 'G'];
+  return Number(match[1]) * unit;
+}
+
+function datasetDir(values: Values): string {
+  return path.resolve(values.output as string);
+}
+
+function storeDir(values: Values): string {
+  const store = values.store as string | undefined;
+  return store ? path.resolve(store) : path.join(path.dirname(datasetDir(values)), 'cache-store');
+}
+
+/**
+ * Abort the running command on SIGINT or SIGTERM, so workers stop and partial output is removed
+ */
+function abortOnSignals(): { signal: AbortSignal; release: () => void } {
+  const controller = new AbortController();
+  const abort = (): void => controller.abort();
+  process.once('SIGINT', abort);
+  process.once('SIGTERM', abort);
+  return {
+    signal: controller.signal,
+    release: () => {
+      process.removeListener('SIGINT', abort);
+      process.removeListener('SIGTERM', abort);
+    },
+  };
+}
+
+/**
+ * Console logging, and a progress bar when stderr is a terminal
+ */
+function fileTaskOptions(values: Values, signal: AbortSignal): FileTaskOptions {
+  return {
+    concurrency: readInteger(values, 'concurrency', 0),
+    logger: consoleLogger,
+    signal,
+    listener: process.stderr.isTTY ? ttyProgressListener(process.stderr) : undefined,
+  };
+}
+
+async function generateCommand(values: Values): Promise<CommandResult> {
+  const sizeGb = readSizeGb(values);
+  const profile = readProfile(values);
+  const filesPath = datasetDir(values);
+
+  const content = contentTag(profile.content);
+  console.log(`Generating ${sizeGb}GB of ${content} data in ${filesPath} (profile: ${profile.name})`);
+  const interrupt = abortOnSignals();
+  const cleanup = new CleanupRegistry(consoleLogger);
+  // An interrupted or failed generation leaves nothing behind that was not there before
+  cleanup.mkdir(filesPath, true);
+  let stats: GenerationStats | undefined;
+  try {
+    stats = await generateFileHierarchy(filesPath, sizeGb, profile, fileTaskOptions(values, interrupt.signal));
+  } finally {
+    cleanup.run(stats === undefined);
+    interrupt.release();
+  }
+  let fingerprint: string | undefined;
+  if (values.manifest) {
+    const manifest = buildManifest(planDataset(profile, sizeGb), sizeGb, '');
+    writeManifest(filesPath, manifest);
+    fingerprint = manifest.fingerprint;
+  }
+  console.log(`Done in ${stats.elapsedMs}ms`);
+  return {
+    exitCode: EXIT_OK,
+    summary: {
+      output: filesPath,
+      sizeGb,
+      profile: profile.name,
+      content,
+      seed: profile.seed ?? 0,
+      files: stats.files,
+      bytes: stats.bytes,
+      elapsedMs: stats.elapsedMs,
+      fingerprint,
+    },
+  };
+}
+
+async function verifyCommand(values: Values): Promise<CommandResult> {
+  const filesPath = datasetDir(values);
+  if (!fs.existsSync(filesPath)) {
+    throw new Error(`${filesPath} does not exist`);
+  }
+  // A manifest describes the dataset unless dataset options say otherwise
+  const manifest = readManifest(filesPath);
+  const datasetOptions = ['size-gb', 'profile', 'content', 'metadata', 'seed'];
+  const useManifest = manifest !== undefined && datasetOptions.every((option) => values[option] === undefined);
+  const sizeGb = useManifest ? manifest.sizeGb : readSizeGb(values);
+  const profile = useManifest ? manifest.profile : readProfile(values);
+  const generation = useManifest ? manifest.generation : readInteger(values, 'generation', 0);
+  if (useManifest) {
+    console.log(`Using the dataset manifest (profile ${profile.name}, ${sizeGb}GB, generation ${generation})`);
+  }
+
+  const interrupt = abortOnSignals();
+  let report: VerificationReport;
+  try {
+    report = await verifyFileHierarchy(filesPath, sizeGb, profile, {
+      ...fileTaskOptions(values, interrupt.signal),
+      generation,
+      changeRates: useManifest ? manifest.changeRates : undefined,
+    });
+  } finally {
+    interrupt.release();
+  }
+  return { exitCode: report.ok ? EXIT_OK : EXIT_VERIFY_FAILED, summary: report };
+}
+
+async function benchCommand(values: Values): Promise<CommandResult> {
+  const sizeGb = readSizeGb(values);
+  const profile = readProfile(values);
+  const backendName = values.backend as string;
+  if (!BACKEND_NAMES.includes(backendName)) {
+    throw new UsageError(`--backend must be one of ${BACKEND_NAMES.join(', ')}, got "${backendName}"`);
+  }
+  const iterations = readInteger(values, 'iterations', 1, 1);
+  const warmupIterations = readInteger(values, 'warmup', 0);
+  const filesPath = datasetDir(values);
+  const store = storeDir(values);
+  const keep = values.keep === true;
+
+  const storage = { files: detectStorage(filesPath), runnerTemp: detectStorage(store) };
+  const label = storageLabel(storage.files, storage.runnerTemp);
+  checkFreeSpace(
+    spaceRequirements(
+      planDataset(profile, sizeGb),
+      { backend: backendName, savedEntries: iterations + warmupIterations },
+      storage.files,
+      storage.runnerTemp
+    ),
+    consoleLogger
+  );
+
+  const cacheKey = `local-${profileTag(profile)}-${contentTag(profile.content)}-${sizeGb}gb-${Date.now()}`;
+  const cleanup = new CleanupRegistry(consoleLogger);
+  cleanup.handleSignals();
+  let failed = true;
+  try {
+    // Directories given on the command line may hold other things: remove only what this run created
+    cleanup.mkdir(filesPath, keep);
+    if (fs.existsSync(store)) {
+      cleanup.removeEntries(store, cacheKey, keep);
+    } else {
+      cleanup.mkdir(store, keep);
+    }
+    const config = {
+      backend: createBackend(backendName, store),
+      filesPath,
+      cacheKey,
+      sizeGb,
+      profile,
+      generateConcurrency: readInteger(values, 'concurrency', 0),
+      verifyConcurrency: readInteger(values, 'concurrency', 0),
+      label,
+      logger: consoleLogger,
+    };
+    const summary = await runIterations({ ...config, iterations, warmupIterations });
+    logIterationSummary(summary, label, consoleLogger);
+
+    const name = (values.name as string | undefined) ?? `${label.toLowerCase()}-${backendName}`;
+    const doc = buildCacheResult(
+      name,
+      {
+        mode: label,
+        sizeGb,
+        profile: profile.name,
+        content: contentTag(profile.content),
+        backend: backendName,
+        iterations,
+        warmupIterations,
+        paths: { files: filesPath, store },
+        storage,
+      },
+      summary
+    );
+    if (values['result-file']) {
+      writeResultDocument(values['result-file'] as string, doc);
+      console.log(`Result document written to ${values['result-file']}`);
+    }
+    failed = summary.failed !== undefined;
+    if (summary.failed) {
+      console.error(`Verification failed - ${summarizeVerificationReport(summary.failed.verification)}`);
+    }
+    return { exitCode: failed ? EXIT_VERIFY_FAILED : EXIT_OK, summary: doc };
+  } finally {
+    cleanup.run(failed);
+    cleanup.releaseSignals();
+  }
+}
+
+async function cleanCommand(values: Values): Promise<CommandResult> {
+  const removed = [datasetDir(values), storeDir(values)].filter((dir) => fs.existsSync(dir));
+  for (const dir of removed) {
+    console.log(`Removing ${dir}`);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  return { exitCode: EXIT_OK, summary: { removed } };
+}
+
+async function reportCommand(values: Values, positionals: string[]): Promise<CommandResult> {
+  if (positionals.length === 0) {
+    throw new UsageError('report needs at least one result document or directory');
+  }
+  const files = findResultFiles(positionals);
+  const docs = files.map(readResultDocument);
+  const markdown = renderMarkdown(docs, values.title as string | undefined);
+  if (values.markdown) {
+    fs.writeFileSync(values.markdown as string, markdown);
+  }
+  if (values.csv) {
+    fs.writeFileSync(values.csv as string, renderCsv(docs));
+  }
+  if (!values.json) {
+    console.log(markdown);
+  }
+  return { exitCode: EXIT_OK, summary: { files, markdown } };
+}
+
+async function squashfsBuild(values: Values, imagePath: string): Promise<CommandResult> {
+  const blockSize = readByteSize(values, 'block-size', DEFAULT_SQUASHFS_BLOCK_SIZE);
+  try {
+    validateBlockSize(blockSize);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const options: SquashfsBuildOptions = {
+    blockSize,
+    fragments: values['no-fragments'] !== true,
+    alwaysFragments: values['always-fragments'] === true,
+    dedup: values.dedup === true,
+    sparse: values.sparse === true,
+    logger: consoleLogger,
+  };
+  const cleanup = new CleanupRegistry(consoleLogger);
+  cleanup.handleSignals();
+  // A failed or interrupted build leaves no partial image behind
+  cleanup.removePath(imagePath, true);
+  let failed = true;
+  try {
+    let stats;
+    if (values.virtual) {
+      const sizeGb = readSizeGb(values);
+      stats = await buildSquashfsFromPlan(planDataset(readProfile(values), sizeGb), imagePath, options);
+    } else {
+      const filesPath = datasetDir(values);
+      if (!fs.existsSync(filesPath)) {
+        throw new UsageError(`${filesPath} does not exist; generate it first or pass --virtual`);
+      }
+      stats = await buildSquashfsFromDirectory(filesPath, imagePath, options);
+    }
+    failed = false;
+    return { exitCode: EXIT_OK, summary: { image: imagePath, ...stats } };
+  } finally {
+    cleanup.run(failed);
+    cleanup.releaseSignals();
+  }
+}
+
+/**
+ * The manifest saved at the root of an image, if it has one
+ */
+function imageManifest(image: SquashfsImage): DatasetManifest | undefined {
+  const entry = image.entries().find((e) => e.path === MANIFEST_FILE && e.type === 'file');
+  if (!entry) return undefined;
+  const text = Buffer.concat([...image.readFile(entry)]).toString('utf8');
+  return parseManifest(text, `${image.imagePath}:${MANIFEST_FILE}`);
+}
+
+function squashfsVerify(values: Values, image: SquashfsImage): CommandResult {
+  // Like verify: the manifest describes the dataset unless dataset options say otherwise
+  const datasetOptions = ['size-gb', 'profile', 'content', 'metadata', 'seed'];
+  const manifest = datasetOptions.every((option) => values[option] === undefined) ? imageManifest(image) : undefined;
+  const sizeGb = manifest ? manifest.sizeGb : readSizeGb(values);
+  const profile = manifest ? manifest.profile : readProfile(values);
+  const generation = manifest ? manifest.generation : readInteger(values, 'generation', 0);
+  if (manifest) {
+    console.log(`Using the dataset manifest (profile ${profile.name}, ${sizeGb}GB, generation ${generation})`);
+  }
+  const plan = planGeneration(profile, sizeGb, generation, manifest?.changeRates ?? DEFAULT_CHANGE_RATES);
+  const allowedPaths = profile.metadata
+    ? metadataPaths(planMetadata(planDataset(profile, sizeGb), profile.metadata))
+    : undefined;
+  const report = verifySquashfsImage(image, plan, { allowedPaths });
+  logVerificationReport(report, consoleLogger);
+  return { exitCode: report.ok ? EXIT_OK : EXIT_VERIFY_FAILED, summary: report };
+}
+
+function formatLayoutStats(stats: SquashfsLayoutStats): string[] {
+  const mb = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  const { metadataBlocks: meta, reads } = stats;
+  const lines = [
+    `Image: ${mb(stats.bytesUsed)}, block size ${formatBlockSize(stats.blockSize)}`,
+    `Entries: ${stats.files} files, ${stats.directories} directories, ${stats.symlinks} symlinks, ` +
+      `${stats.hardlinks} hard links`,
+    `Data: ${mb(stats.dataBytes)} in ${stats.dataBlocks} blocks (${stats.sharedBlockReferences} shared references, ` +
+      `${stats.sparseBlocks} sparse) and ${stats.fragmentBlocks} fragment blocks ` +
+      `holding ${stats.filesInFragments} files`,
+    `Metadata: ${meta.inodes} inode, ${meta.directories} directory, ${meta.fragments} fragment and ${meta.ids} id ` +
+      `blocks (${(stats.metadataBytes / 1024).toFixed(1)} KB)`,
+    `Range reads: ${reads.full} to read everything once; per file ${reads.perFile.min} to ${reads.perFile.max} ` +
+      `(mean ${reads.perFile.mean.toFixed(1)})`,
+  ];
+  if (reads.alignedRanges !== undefined) {
+    lines.push(`Aligned ${formatBlockSize(reads.rangeSize!)} ranges: ${reads.alignedRanges}`);
+  }
+  return lines;
+}
+
+async function squashfsCommand(values: Values, positionals: string[]): Promise<CommandResult> {
+  const [action, image] = positionals;
+  const actions = ['build', 'list', 'extract', 'verify', 'stats'];
+  if (!actions.includes(action) || !image || positionals.length > 2) {
+    throw new UsageError(`squashfs needs one of ${actions.join(', ')} and an image path`);
+  }
+  const imagePath = path.resolve(image);
+  if (action === 'build') {
+    return squashfsBuild(values, imagePath);
+  }
+
+  const squashfs = new SquashfsImage(imagePath);
+  try {
+    switch (action) {
+      case 'list': {
+        const entries = squashfs.entries().map(({ layout: _layout, ...entry }) => entry);
+        if (!values.json) {
+          for (const entry of entries) {
+            const target = entry.target !== undefined ? ` -> ${entry.target}` : '';
+            console.log(`${entry.type.padEnd(9)} ${String(entry.size).padStart(12)}  ${entry.path}${target}`);
+          }
+        }
+        return { exitCode: EXIT_OK, summary: entries };
+      }
+      case 'extract': {
+        const filesPath = datasetDir(values);
+        console.log(`Extracting ${imagePath} into ${filesPath}`);
+        const stats = squashfs.extract(filesPath);
+        console.log(`Extracted ${stats.files} files, ${stats.directories} directories and ${stats.symlinks} symlinks`);
+        return { exitCode: EXIT_OK, summary: { output: filesPath, ...stats } };
+      }
+      case 'verify':
+        return squashfsVerify(values, squashfs);
+      default: {
+        const rangeSize = values['range-size'] !== undefined ? readByteSize(values, 'range-size', 0) : undefined;
+        const stats = squashfs.layoutStats(rangeSize || undefined);
+        if (!values.json) {
+          for (const line of formatLayoutStats(stats)) console.log(line);
+        }
+        return { exitCode: EXIT_OK, summary: stats };
+      }
+    }
+  } finally {
+    squashfs.close();
+  }
+}
+
+interface Command {
+  options: Options;
+  positionals?: boolean;
+  run: (values: Values, positionals: string[]) => Promise<CommandResult>;
+}
+
+const COMMANDS: Record<string, Command> = {
+  generate: { options: { ...DATASET_OPTIONS, manifest: { type: 'boolean' } }, run: generateCommand },
+  verify: { options: { ...DATASET_OPTIONS, generation: { type: 'string' } }, run: verifyCommand },
+  bench: {
+    options: {
+      ...DATASET_OPTIONS,
+      backend: { type: 'string', default: 'tar-zstd' },
+      store: { type: 'string' },
+      iterations: { type: 'string' },
+      warmup: { type: 'string' },
+      'result-file': { type: 'string' },
+      name: { type: 'string' },
+      keep: { type: 'boolean' },
+    },
+    run: benchCommand,
+  },
+  clean: { options: { output: DATASET_OPTIONS.output, store: { type: 'string' } }, run: cleanCommand },
+  report: {
+    options: { markdown: { type: 'string' }, csv: { type: 'string' }, title: { type: 'string' } },
+    positionals: true,
+    run: reportCommand,
+  },
+  squashfs: {
+    options: {
+      ...DATASET_OPTIONS,
+      generation: { type: 'string' },
+      virtual: { type: 'boolean' },
+      'block-size': { type: 'string' },
+      'no-fragments': { type: 'boolean' },
+      'always-fragments': { type: 'boolean' },
+      dedup: { type: 'boolean' },
+      sparse: { type: 'boolean' },
+      'range-size': { type: 'string' },
+    },
+    positionals: true,
+    run: squashfsCommand,
+  },
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === '--help' || name === '-h') {
+    console.log(USAGE);
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command "${name}". Run mountable-disks --help for usage`);
+    return EXIT_USAGE;
+  }
+
+  let values: Values;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: { ...COMMON_OPTIONS, ...command.options },
+      allowPositionals: command.positionals ?? false,
+      strict: true,
+    }) as { values: Values; positionals: string[] });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}. Run mountable-disks --help for usage`);
+    return EXIT_USAGE;
+  }
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  // Keep stdout for the JSON summary; progress and logs go to stderr
+  const writeStdout = process.stdout.write.bind(process.stdout);
+  if (values.json) {
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  }
+  try {
+    const result = await command.run(values, positionals);
+    if (values.json) {
+      writeStdout(JSON.stringify(result.summary, null, 2) + '\n');
+    }
+    return result.exitCode;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.error('Interrupted');
+      return EXIT_INTERRUPTED;
+    }
+    if (error instanceof UsageError) {
+      console.error(`${error.message}. Run mountable-disks --help for usage`);
+      return EXIT_USAGE;
+    }
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return EXIT_ERROR;
+  }
+}
+
+// The bundled CLI doubles as the file worker script, so only the main thread runs commands
+if (isMainThread) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { checkFile, writeRandomFile } from './content';
+import { getFileSeed } from './profiles';
+import { makeTempDir, sha256 } from './test-helpers';
+
+const MB = 1024 * 1024;
+
+describe('writeRandomFile', () => {
+  const dir = makeTempDir();
+
+  // Hashes of the 2MB files the original generator wrote for these paths
+  const golden: [number[], number, string][] = [
+    [[0, 0, 0], 0, 'f05bf61d97a410e15ebd6667a4542c774f95e9f89003db9e8d468b627b0ed91a'],
+    [[1, 2, 3], 4, '74940b7736353bb3125ffe0c0bb10d52dac807f5aa031f73ba86272b26a31346'],
+  ];
+  for (const [indices, fileNum, hash] of golden) {
+    test(`writes the golden random content for ${indices.join('/')}/${fileNum}`, async () => {
+      const filePath = path.join(dir, `golden_${indices.join('_')}_${fileNum}.bin`);
+      const spec = { relativePath: path.basename(filePath), seed: getFileSeed(indices, fileNum), size: 2 * MB };
+      writeRandomFile(filePath, spec);
+      assert.equal(sha256(fs.readFileSync(filePath)), hash);
+      assert.equal(await checkFile(filePath, spec), undefined);
+    });
+  }
+
+  test('a size that is not a multiple of the chunk or word size round-trips', async () => {
+    const filePath = path.join(dir, 'odd.bin');
+    const spec = { relativePath: 'odd.bin', seed: 12345, size: 70001 };
+    writeRandomFile(filePath, spec);
+    assert.equal(fs.statSync(filePath).size, spec.size);
+    assert.equal(await checkFile(filePath, spec), undefined);
+  });
+});
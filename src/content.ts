@@ -0,0 +1,425 @@
+import * as fs from 'fs';
+import { SeededRandom } from './seeded-random';
+import {
+  ContentSegment,
+  ContentSpec,
+  DEFAULT_COMPRESSION_RATIO,
+  DEFAULT_HOLE_FRACTION,
+  FileSpec,
+} from './profiles';
+
+// Write buffer size for streaming writes (64KB chunks)
+export const WRITE_CHUNK_SIZE = 64 * 1024;
+
+const ZERO_CHUNK = Buffer.alloc(WRITE_CHUNK_SIZE);
+
+// Compressible data repeats a random prefix within blocks of this size
+const COMPRESSIBLE_BLOCK_SIZE = 4096;
+// Sparse data decides between data and hole per extent of this size
+const SPARSE_EXTENT_SIZE = WRITE_CHUNK_SIZE;
+const SPARSE_LAYOUT_SALT = 0x53505253;
+
+/**
+ * An endless byte stream that can be read in pieces of any length
+ */
+export interface ContentStream {
+  read(target: Buffer): void;
+  skip(bytes: number): void;
+}
+
+/**
+ * The seeded byte stream for a seed, readable in pieces of any length.
+ * Reading it in one go or in arbitrary slices yields the same bytes, and a
+ * file generated from a seed is a prefix of its stream.
+ */
+export class SeededStream implements ContentStream {
+  private readonly rng: SeededRandom;
+  // Bytes of a partially consumed word, lowest byte first
+  private spareWord = 0;
+  private spareBytes = 0;
+
+  constructor(seed: number) {
+    this.rng = new SeededRandom(seed);
+  }
+
+  read(target: Buffer): void {
+    let pos = 0;
+    while (this.spareBytes > 0 && pos < target.length) {
+      target[pos++] = (this.spareWord >>> ((4 - this.spareBytes) * 8)) & 0xff;
+      this.spareBytes--;
+    }
+    const whole = (target.length - pos) & ~3;
+    if (whole > 0) {
+      this.rng.fillBuffer(target.subarray(pos, pos + whole));
+      pos += whole;
+    }
+    if (pos < target.length) {
+      this.spareWord = this.rng.nextUint32();
+      this.spareBytes = 4;
+      while (pos < target.length) {
+        target[pos++] = (this.spareWord >>> ((4 - this.spareBytes) * 8)) & 0xff;
+        this.spareBytes--;
+      }
+    }
+  }
+
+  skip(bytes: number): void {
+    const scratch = Buffer.allocUnsafe(Math.min(WRITE_CHUNK_SIZE, bytes));
+    while (bytes > 0) {
+      const n = Math.min(scratch.length, bytes);
+      this.read(scratch.subarray(0, n));
+      bytes -= n;
+    }
+  }
+}
+
+/**
+ * A stream produced in pieces by a generator. Pieces may reuse one buffer;
+ * each is fully consumed before the next is requested.
+ */
+abstract class PieceStream implements ContentStream {
+  private piece: Buffer = Buffer.alloc(0);
+  private pos = 0;
+
+  protected abstract nextPiece(): Buffer;
+
+  read(target: Buffer): void {
+    let offset = 0;
+    while (offset < target.length) {
+      if (this.pos === this.piece.length) {
+        this.piece = this.nextPiece();
+        this.pos = 0;
+      }
+      const end = Math.min(this.piece.length, this.pos + target.length - offset);
+      const n = this.piece.copy(target, offset, this.pos, end);
+      offset += n;
+      this.pos += n;
+    }
+  }
+
+  skip(bytes: number): void {
+    while (bytes > 0) {
+      if (this.pos === this.piece.length) {
+        this.piece = this.nextPiece();
+        this.pos = 0;
+      }
+      const n = Math.min(bytes, this.piece.length - this.pos);
+      bytes -= n;
+      this.pos += n;
+    }
+  }
+}
+
+/**
+ * Blocks that start with random bytes and repeat them to the end of the
+ * block, so a compressor shrinks them by roughly the requested ratio
+ */
+class CompressibleStream extends PieceStream {
+  private readonly random: SeededStream;
+  private readonly block = Buffer.allocUnsafe(COMPRESSIBLE_BLOCK_SIZE);
+  private readonly randomBytes: number;
+
+  constructor(seed: number, ratio: number) {
+    super();
+    this.random = new SeededStream(seed);
+    this.randomBytes = Math.max(1, Math.round(COMPRESSIBLE_BLOCK_SIZE / ratio));
+  }
+
+  protected nextPiece(): Buffer {
+    this.random.read(this.block.subarray(0, this.randomBytes));
+    for (let filled = this.randomBytes; filled < this.block.length; filled *= 2) {
+      this.block.copy(this.block, filled, 0, Math.min(filled, this.block.length - filled));
+    }
+    return this.block;
+  }
+}
+
+/**
+ * Extents of zeros (written as holes) between extents of random data
+ */
+class SparseStream extends PieceStream {
+  private readonly random: SeededStream;
+  private readonly layout: SeededRandom;
+  private readonly extent = Buffer.allocUnsafe(SPARSE_EXTENT_SIZE);
+
+  constructor(
+    seed: number,
+    private readonly holeFraction: number
+  ) {
+    super();
+    this.random = new SeededStream(seed);
+    this.layout = new SeededRandom(seed ^ SPARSE_LAYOUT_SALT);
+  }
+
+  protected nextPiece(): Buffer {
+    if (this.layout.nextUint32() / 0x100000000 < this.holeFraction) {
+      return ZERO_CHUNK;
+    }
+    this.random.read(this.extent);
+    return this.extent;
+  }
+}
+
+const WORDS = [
+  'value', 'index', 'result', 'buffer', 'count', 'node', 'item', 'config', 'path', 'state', 'error', 'options',
+  'handler', 'cache', 'entry', 'key', 'size', 'offset', 'data', 'stream', 'file', 'list', 'map', 'request',
+  'response', 'context', 'parent', 'child', 'token', 'message', 'target', 'source', 'length', 'total', 'next',
+];
+const TYPES = ['string', 'number', 'boolean', 'Buffer', 'Promise<void>', 'string[]', 'Record<string, number>'];
+const OPERATORS = ['===', '!==', '<', '>', '<=', '>='];
+
+/**
+ * Source-code-like lines: identifiers, keywords, indentation and comments
+ */
+class TextStream extends PieceStream {
+  private readonly rng: SeededRandom;
+  private depth = 0;
+
+  constructor(seed: number) {
+    super();
+    this.rng = new SeededRandom(seed);
+  }
+
+  private pick<T>(values: readonly T[]): T {
+    return values[this.rng.nextUint32() % values.length];
+  }
+
+  private identifier(): string {
+    const first = this.pick(WORDS);
+    if (this.rng.nextUint32() % 2 === 0) return first;
+    const second = this.pick(WORDS);
+    return first + second[0].toUpperCase() + second.slice(1);
+  }
+
+  private line(): string {
+    const indent = '  '.repeat(this.depth);
+    const roll = this.rng.nextUint32() % 12;
+    if (roll === 0) return '';
+    if (roll === 1 && this.depth > 0) {
+      this.depth--;
+      return indent.slice(2) + '}';
+    }
+    if (roll === 2 && this.depth < 4) {
+      this.depth++;
+      return `${indent}if (${this.identifier()} ${this.pick(OPERATORS)} ${this.rng.nextUint32() % 1000}) {`;
+    }
+    if (roll === 3 && this.depth < 4) {
+      this.depth++;
+      return `${indent}function ${this.identifier()}(${this.identifier()}: ${this.pick(TYPES)}): ${this.pick(TYPES)} {`;
+    }
+    if (roll === 4) return `${indent}// ${this.pick(WORDS)} ${this.pick(WORDS)} ${this.pick(WORDS)} ${this.pick(WORDS)}`;
+    if (roll === 5) return `${indent}return ${this.identifier()}.${this.identifier()};`;
+    if (roll === 6) return `${indent}import { ${this.identifier()} } from './${this.pick(WORDS)}';`;
+    return `${indent}const ${this.identifier()} = ${this.identifier()}(${this.identifier()}, ${this.rng.nextUint32() % 100});`;
+  }
+
+  protected nextPiece(): Buffer {
+    // Lines are batched into one piece to keep per-line overhead low
+    const lines: string[] = [];
+    for (let i = 0; i < 256; i++) {
+      lines.push(this.line());
+    }
+    return Buffer.from(lines.join('\n') + '\n');
+  }
+}
+
+/**
+ * The stream for a seed in the given content mode (random when unset)
+ */
+export function createContentStream(content: ContentSpec | undefined, seed: number): ContentStream {
+  switch (content?.mode ?? 'random') {
+    case 'compressible':
+      return new CompressibleStream(seed, content?.compressionRatio ?? DEFAULT_COMPRESSION_RATIO);
+    case 'sparse':
+      return new SparseStream(seed, content?.holeFraction ?? DEFAULT_HOLE_FRACTION);
+    case 'text':
+      return new TextStream(seed);
+    default:
+      return new SeededStream(seed);
+  }
+}
+
+/**
+ * Content segments of a file, including the implicit single segment of an unchanged file
+ */
+export function fileSegments(spec: FileSpec): ContentSegment[] {
+  return spec.segments ?? [{ seed: spec.seed, offset: 0, size: spec.size }];
+}
+
+/**
+ * Produces the expected content of a file front to back
+ */
+export class FileContentStream {
+  private readonly segments: ContentSegment[];
+  // Streams already opened by seed, so later segments of the same stream continue it
+  private readonly streams = new Map<number, { stream: ContentStream; position: number }>();
+  private index = 0;
+  private current?: { stream: ContentStream; position: number };
+  private remaining = 0;
+
+  constructor(
+    spec: FileSpec,
+    private readonly content?: ContentSpec
+  ) {
+    this.segments = fileSegments(spec);
+  }
+
+  private open(segment: ContentSegment): { stream: ContentStream; position: number } {
+    let open = this.streams.get(segment.seed);
+    if (!open || open.position > segment.offset) {
+      open = { stream: createContentStream(this.content, segment.seed), position: 0 };
+      this.streams.set(segment.seed, open);
+    }
+    open.stream.skip(segment.offset - open.position);
+    open.position = segment.offset;
+    return open;
+  }
+
+  read(target: Buffer): void {
+    let pos = 0;
+    while (pos < target.length) {
+      if (this.remaining === 0) {
+        const segment = this.segments[this.index++];
+        if (!segment) {
+          throw new Error('Read past the end of the file content');
+        }
+        this.current = this.open(segment);
+        this.remaining = segment.size;
+        continue;
+      }
+      const n = Math.min(this.remaining, target.length - pos);
+      this.current!.stream.read(target.subarray(pos, pos + n));
+      this.current!.position += n;
+      pos += n;
+      this.remaining -= n;
+    }
+  }
+}
+
+/**
+ * Write `size` bytes from a content stream to an open file, starting at
+ * position. With skipZeros, whole chunks of zeros are left as holes.
+ */
+function writeContent(
+  fd: number,
+  content: { read(target: Buffer): void },
+  size: number,
+  position: number,
+  skipZeros = false
+): void {
+  const chunk = Buffer.allocUnsafe(Math.min(WRITE_CHUNK_SIZE, size));
+  let bytesWritten = 0;
+  while (bytesWritten < size) {
+    const bytesToWrite = Math.min(WRITE_CHUNK_SIZE, size - bytesWritten);
+    const writeBuffer = bytesToWrite === chunk.length ? chunk : chunk.subarray(0, bytesToWrite);
+    content.read(writeBuffer);
+    const isHole =
+      skipZeros && bytesToWrite === WRITE_CHUNK_SIZE && writeBuffer[0] === 0 && writeBuffer.equals(ZERO_CHUNK);
+    if (!isHole) {
+      fs.writeSync(fd, writeBuffer, 0, bytesToWrite, position + bytesWritten);
+    }
+    bytesWritten += bytesToWrite;
+  }
+}
+
+/**
+ * Write a single file with its seeded content (incompressible random data
+ * unless a content mode says otherwise). Zero extents become holes. Blocks the
+ * calling thread; concurrency comes from running it on several workers.
+ */
+export function writeRandomFile(filePath: string, spec: FileSpec, content?: ContentSpec): void {
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    writeContent(fd, new FileContentStream(spec, content), spec.size, 0, true);
+    // Extends the file over a trailing hole
+    fs.ftruncateSync(fd, spec.size);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Overwrite part of an existing file with a segment, or append the segment
+ * when position is the current end of the file
+ */
+export function writeSegment(filePath: string, segment: ContentSegment, position: number, content?: ContentSpec): void {
+  const stream = createContentStream(content, segment.seed);
+  stream.skip(segment.offset);
+  const fd = fs.openSync(filePath, 'r+');
+  try {
+    writeContent(fd, stream, segment.size, position);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export type FileProblemCategory = 'corrupted' | 'truncated' | 'missing';
+
+/**
+ * Why a file on disk does not match its spec
+ */
+export interface FileProblem {
+  category: FileProblemCategory;
+  detail: string;
+}
+
+/**
+ * Compare a file on disk against the content regenerated from its seed.
+ * Returns undefined when the file matches.
+ */
+export async function checkFile(
+  filePath: string,
+  spec: FileSpec,
+  content?: ContentSpec
+): Promise<FileProblem | undefined> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { category: 'missing', detail: 'file does not exist' };
+    }
+    throw error;
+  }
+
+  try {
+    const stats = await handle.stat();
+    if (!stats.isFile()) {
+      return { category: 'corrupted', detail: 'not a regular file' };
+    }
+
+    const stream = new FileContentStream(spec, content);
+    const expected = Buffer.allocUnsafe(WRITE_CHUNK_SIZE);
+    const actual = Buffer.allocUnsafe(WRITE_CHUNK_SIZE);
+    const comparable = Math.min(stats.size, spec.size);
+
+    let offset = 0;
+    while (offset < comparable) {
+      const chunkSize = Math.min(WRITE_CHUNK_SIZE, spec.size - offset);
+      const expectedChunk = chunkSize === WRITE_CHUNK_SIZE ? expected : expected.subarray(0, chunkSize);
+      stream.read(expectedChunk);
+
+      const readSize = Math.min(chunkSize, comparable - offset);
+      const { bytesRead } = await handle.read(actual, 0, readSize, offset);
+      if (!actual.subarray(0, bytesRead).equals(expectedChunk.subarray(0, bytesRead))) {
+        let i = 0;
+        while (actual[i] === expectedChunk[i]) i++;
+        return { category: 'corrupted', detail: `content differs at byte ${offset + i}` };
+      }
+      if (bytesRead < readSize) {
+        return { category: 'truncated', detail: `read ended at byte ${offset + bytesRead}` };
+      }
+      offset += readSize;
+    }
+
+    if (stats.size < spec.size) {
+      return { category: 'truncated', detail: `expected ${spec.size} bytes, got ${stats.size}` };
+    }
+    if (stats.size > spec.size) {
+      return { category: 'corrupted', detail: `expected ${spec.size} bytes, got ${stats.size}` };
+    }
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
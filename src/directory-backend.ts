@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheBackend, matchRestoreKey, SaveResult, StoredEntry } from './backend';
+
+/**
+ * Local backend that copies paths into a plain directory per key.
+ * No archiving or compression, so it is the fastest way to exercise the pipeline.
+ */
+export class DirectoryCopyBackend implements CacheBackend {
+  readonly name = 'directory';
+
+  constructor(private readonly storeDir: string) {}
+
+  entryDir(key: string): string {
+    return path.join(this.storeDir, key);
+  }
+
+  private entries(): StoredEntry[] {
+    if (!fs.existsSync(this.storeDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.storeDir, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory())
+      .map((dirent) => ({ key: dirent.name, mtimeMs: fs.statSync(this.entryDir(dirent.name)).mtimeMs }));
+  }
+
+  private storedPath(key: string, p: string): string {
+    return path.join(this.entryDir(key), path.relative('/', path.resolve(p)));
+  }
+
+  async save(paths: string[], key: string): Promise<SaveResult> {
+    const entryDir = this.entryDir(key);
+    await fs.promises.rm(entryDir, { recursive: true, force: true });
+    for (const p of paths) {
+      await fs.promises.cp(p, this.storedPath(key, p), { recursive: true });
+    }
+    return { id: entryDir };
+  }
+
+  async restore(paths: string[], key: string, restoreKeys?: string[]): Promise<string | undefined> {
+    const matched = matchRestoreKey(this.entries(), key, restoreKeys);
+    if (matched === undefined) {
+      return undefined;
+    }
+    for (const p of paths) {
+      await fs.promises.cp(this.storedPath(matched, p), p, { recursive: true });
+    }
+    return matched;
+  }
+
+  async lookup(_paths: string[], key: string, restoreKeys?: string[]): Promise<boolean> {
+    return matchRestoreKey(this.entries(), key, restoreKeys) !== undefined;
+  }
+}
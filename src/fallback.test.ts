@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { DirectoryCopyBackend } from './directory-backend';
+import { runFallbackScenario, staleFileCount } from './fallback';
+import { planGeneration } from './mutation';
+import { tinyPipelineConfig, TINY_PROFILE, TINY_SIZE_GB } from './test-helpers';
+
+const FALLBACK = { generations: 2, rates: { modify: 0.1, append: 0.1, delete: 0.05, add: 0.1 } };
+
+/**
+ * Truncates one file of every tree it restores
+ */
+class TruncatingBackend extends DirectoryCopyBackend {
+  constructor(
+    storeDir: string,
+    private readonly relativePath: string
+  ) {
+    super(storeDir);
+  }
+
+  async restore(paths: string[], key: string, restoreKeys?: string[]): Promise<string | undefined> {
+    const matched = await super.restore(paths, key, restoreKeys);
+    if (matched) fs.truncateSync(path.join(paths[0], this.relativePath), 0);
+    return matched;
+  }
+}
+
+describe('runFallbackScenario', () => {
+  test('verifies the restored tree against the generation it matched', async () => {
+    const result = await runFallbackScenario(tinyPipelineConfig('fallback'), FALLBACK);
+    assert.equal(result.matchedGeneration, 1);
+    assert.equal(result.generationsBehind, 1);
+    assert.equal(result.verification.ok, true);
+    assert.ok(staleFileCount(result) > 0);
+  });
+
+  test('files left by an earlier run are not saved with the generations', async () => {
+    const config = tinyPipelineConfig('fallback');
+    fs.mkdirSync(config.filesPath);
+    fs.writeFileSync(path.join(config.filesPath, 'stale.bin'), 'left over');
+    const result = await runFallbackScenario(config, FALLBACK);
+    assert.equal(result.verification.ok, true);
+    assert.equal(result.verification.counts.extra, 0);
+  });
+
+  test('a damaged restore fails verification', async () => {
+    // Truncating an empty file would change nothing
+    const victim = planGeneration(TINY_PROFILE, TINY_SIZE_GB, 1, FALLBACK.rates).files.find((f) => f.size > 0)!;
+    const backend = (store: string): TruncatingBackend => new TruncatingBackend(store, victim.relativePath);
+    const config = tinyPipelineConfig('fallback', TINY_PROFILE, backend);
+    const result = await runFallbackScenario(config, FALLBACK);
+    assert.equal(result.verification.ok, false);
+  });
+});
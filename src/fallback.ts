@@ -0,0 +1,240 @@
+import { deleteFileHierarchy, GenerationStats, generateFileHierarchy } from './generate';
+import { ChangeRates, mutateFileHierarchy } from './mutation';
+import { deleteAndRestore, PipelineConfig, resolvePolicies, saveAndAwait } from './pipeline';
+import { planDataset } from './profiles';
+import { actionsLogger } from './progress';
+import { RetryStats } from './retry';
+import { logResourceUsage, ResourceUsage, StepTelemetry } from './telemetry';
+import {
+  emptyVerificationReport,
+  summarizeVerificationReport,
+  verifyFileHierarchy,
+  VerificationReport,
+} from './verify';
+
+export interface FallbackConfig {
+  // Generations saved under the shared prefix, 0 through generations - 1
+  generations: number;
+  rates: ChangeRates;
+}
+
+/**
+ * How a restore that fell back to an older generation and two misses went
+ */
+export interface FallbackResult {
+  prefix: string;
+  savedKeys: string[];
+  // Never saved, so the restore has to fall back to the prefix
+  requestedKey: string;
+  requestedGeneration: number;
+  matchedKey: string;
+  // Undefined when the matched key is not one of the saved generations
+  matchedGeneration?: number;
+  generationsBehind?: number;
+  generation: GenerationStats;
+  timings: {
+    generateMs: number;
+    // Per saved generation, oldest first; mutateMs[0] is 0
+    mutateMs: number[];
+    saveMs: number[];
+    fallbackRestoreMs: number;
+    // Checking the restored tree against the matched generation, then against the requested one
+    verifyMs: number;
+    stalenessMs: number;
+    lookupMissMs: number;
+    restoreMissMs: number;
+  };
+  // Restored tree checked against the matched generation; fails when that is not a saved generation
+  verification: VerificationReport;
+  // Restored tree checked against the requested generation, so every offender is a stale file
+  staleness: VerificationReport;
+  retries: { save: RetryStats[]; restore: RetryStats };
+  // Per step, named like the timings; mutate and resave are the last generation's
+  resources?: Record<string, ResourceUsage>;
+}
+
+/**
+ * Save several generations under a shared prefix, then restore a newer
+ * generation that was never saved so the backend falls back to the newest
+ * prefix match. Finishes with a lookup-only miss and a full restore miss.
+ */
+export async function runFallbackScenario(config: PipelineConfig, fallback: FallbackConfig): Promise<FallbackResult> {
+  const { backend, filesPath, sizeGb, profile } = config;
+  const logger = config.logger ?? actionsLogger;
+  const policies = resolvePolicies(config);
+  const telemetry = new StepTelemetry(config.sampleIntervalMs);
+  const prefix = `${config.cacheKey}-gen`;
+  const requestedGeneration = fallback.generations;
+  const requestedKey = `${prefix}${requestedGeneration}`;
+
+  // Files left by an earlier run would be saved into every generation
+  await deleteFileHierarchy(filesPath, logger);
+
+  logger.startGroup(`Step 1: Generate ${sizeGb}GB file hierarchy (${profile.name})`);
+  const genStart = Date.now();
+  const endGenerateSample = telemetry.begin('generate');
+  const generation = await generateFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.generateConcurrency,
+    logger,
+  });
+  const generateMs = Date.now() - genStart;
+  endGenerateSample();
+  logger.info(`[${generateMs}ms] Generation complete`);
+  logger.endGroup();
+
+  const savedKeys: string[] = [];
+  const mutateMs: number[] = [];
+  const saveMs: number[] = [];
+  const saveRetries: RetryStats[] = [];
+  let plan = planDataset(profile, sizeGb);
+  for (let g = 0; g < fallback.generations; g++) {
+    let mutationMs = 0;
+    if (g > 0) {
+      logger.startGroup(`Step 2.${g}: Mutate to generation ${g}`);
+      const mutateStart = Date.now();
+      const endMutateSample = telemetry.begin('mutate');
+      ({ plan } = await mutateFileHierarchy(filesPath, plan, g, fallback.rates, g - 1, logger));
+      mutationMs = Date.now() - mutateStart;
+      endMutateSample();
+      logger.endGroup();
+    }
+    const key = `${prefix}${g}`;
+    const outcome = await saveAndAwait(
+      backend,
+      [filesPath],
+      key,
+      policies,
+      `2.${g}`,
+      telemetry,
+      g === 0 ? 'save' : 'resave',
+      logger
+    );
+    savedKeys.push(key);
+    mutateMs.push(mutationMs);
+    saveMs.push(outcome.saveMs);
+    saveRetries.push(outcome.saveStats);
+  }
+
+  const {
+    restoreMs: fallbackRestoreMs,
+    restoredKey: matchedKey,
+    restoreStats,
+  } = await deleteAndRestore(
+    backend,
+    filesPath,
+    requestedKey,
+    policies,
+    ['3', '4'],
+    [prefix],
+    telemetry,
+    ['delete', 'fallback_restore'],
+    logger
+  );
+  const savedIndex = savedKeys.indexOf(matchedKey);
+  const matchedGeneration = savedIndex >= 0 ? savedIndex : undefined;
+  const generationsBehind = matchedGeneration !== undefined ? requestedGeneration - matchedGeneration : undefined;
+
+  logger.startGroup(`Step 5: Verify against matched generation ${matchedGeneration ?? '(unknown)'}`);
+  const verifyStart = Date.now();
+  const endVerifySample = telemetry.begin('verify');
+  let verification: VerificationReport;
+  if (matchedGeneration !== undefined) {
+    verification = await verifyFileHierarchy(filesPath, sizeGb, profile, {
+      concurrency: config.verifyConcurrency,
+      generation: matchedGeneration,
+      changeRates: fallback.rates,
+      logger,
+    });
+  } else {
+    logger.error(`Restored ${matchedKey}, which is not one of the saved generations; nothing to verify it against`);
+    verification = { ...emptyVerificationReport(), ok: false };
+  }
+  const verifyMs = Date.now() - verifyStart;
+  endVerifySample();
+  logger.info(`[${verifyMs}ms] Verification complete`);
+  logger.endGroup();
+
+  logger.startGroup(`Step 5b: Compare against requested generation ${requestedGeneration}`);
+  const stalenessStart = Date.now();
+  const endStalenessSample = telemetry.begin('staleness');
+  const staleness = await verifyFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.verifyConcurrency,
+    generation: requestedGeneration,
+    changeRates: fallback.rates,
+    logReport: false,
+    logger,
+  });
+  const stalenessMs = Date.now() - stalenessStart;
+  endStalenessSample();
+  logger.info(`Against generation ${requestedGeneration}: ${summarizeVerificationReport(staleness)}`);
+  logger.info(`[${stalenessMs}ms] Comparison complete`);
+  logger.endGroup();
+
+  // Neither key nor prefix exists, so both calls measure the cost of finding nothing
+  const missKey = `${config.cacheKey}-miss`;
+  logger.startGroup('Step 6: Lookup-only miss');
+  const lookupStart = Date.now();
+  const endLookupSample = telemetry.begin('lookup_miss');
+  const lookupHit = await backend.lookup([filesPath], missKey);
+  const lookupMissMs = Date.now() - lookupStart;
+  endLookupSample();
+  logger.info(`[${lookupMissMs}ms] Lookup of ${missKey}: ${lookupHit ? 'unexpected hit' : 'miss'}`);
+  logger.endGroup();
+
+  logger.startGroup('Step 7: Full restore miss');
+  const restoreMissStart = Date.now();
+  const endRestoreMissSample = telemetry.begin('restore_miss');
+  const missRestored = await backend.restore([filesPath], missKey, [`${missKey}-`]);
+  const restoreMissMs = Date.now() - restoreMissStart;
+  endRestoreMissSample();
+  logger.info(`[${restoreMissMs}ms] Restore of ${missKey}: ${missRestored ? `unexpected hit on ${missRestored}` : 'miss'}`);
+  logger.endGroup();
+  if (lookupHit || missRestored) {
+    logger.warning(`Expected ${missKey} to miss; the miss timings measure a hit instead`);
+  }
+
+  logger.info('');
+  logger.info('=== Fallback Summary ===');
+  logger.info(`Mode:               ${config.label}`);
+  logger.info(`Backend:            ${backend.name}`);
+  logger.info(`Saved generations:  ${savedKeys.length} (save times ${saveMs.join(', ')}ms)`);
+  logger.info(`Requested key:      ${requestedKey}`);
+  logger.info(`Matched key:        ${matchedKey}`);
+  logger.info(
+    `Staleness:          ${
+      generationsBehind !== undefined
+        ? `${generationsBehind} generation${generationsBehind === 1 ? '' : 's'} behind`
+        : 'unknown generation'
+    }, ${summarizeVerificationReport(staleness)}`
+  );
+  logger.info(`Verification:       ${summarizeVerificationReport(verification)}`);
+  logger.info(`Fallback restore:   ${fallbackRestoreMs}ms`);
+  logger.info(`Lookup-only miss:   ${lookupMissMs}ms`);
+  logger.info(`Full restore miss:  ${restoreMissMs}ms`);
+  logResourceUsage(telemetry.result(), logger);
+  logger.info('========================');
+
+  return {
+    prefix,
+    savedKeys,
+    requestedKey,
+    requestedGeneration,
+    matchedKey,
+    matchedGeneration,
+    generationsBehind,
+    generation,
+    timings: { generateMs, mutateMs, saveMs, fallbackRestoreMs, verifyMs, stalenessMs, lookupMissMs, restoreMissMs },
+    verification,
+    staleness,
+    retries: { save: saveRetries, restore: restoreStats },
+    resources: telemetry.result(),
+  };
+}
+
+/**
+ * Files that differ from the requested generation
+ */
+export function staleFileCount(result: FallbackResult): number {
+  const { corrupted, truncated, missing, extra } = result.staleness.counts;
+  return corrupted + truncated + missing + extra;
+}
@@ -0,0 +1,238 @@
+import * as os from 'os';
+import * as path from 'path';
+import { isMainThread, parentPort, Worker, workerData } from 'worker_threads';
+import { checkFile, FileProblem, writeRandomFile } from './content';
+import { ContentSpec, FileSpec } from './profiles';
+
+const WORKER_ROLE = 'file-worker';
+
+// Files are handed out in batches so fast workers keep picking up work
+const MAX_BATCH_FILES = 64;
+const MAX_BATCH_BYTES = 64 * 1024 * 1024;
+
+export type FileTaskKind = 'generate' | 'verify';
+
+interface TaskMessage {
+  kind: FileTaskKind;
+  baseDir: string;
+  content?: ContentSpec;
+  files: FileSpec[];
+  // Send a message as each file starts and finishes
+  reportFiles?: boolean;
+}
+
+export type FilePhase = 'started' | 'finished';
+
+interface FileMessage {
+  type: 'file';
+  phase: FilePhase;
+  // Position of the file in its batch
+  index: number;
+}
+
+interface DoneMessage {
+  type: 'done';
+  // One entry per file for verify batches, empty for generate batches
+  problems: (FileProblem | undefined)[];
+  busyMs: number;
+}
+
+interface ErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+/**
+ * Throughput of a single worker
+ */
+export interface WorkerStats {
+  worker: number;
+  files: number;
+  bytes: number;
+  busyMs: number;
+}
+
+/**
+ * Number of workers to use when the caller asks for 0 (automatic)
+ */
+export function defaultConcurrency(): number {
+  return Math.max(1, os.cpus().length);
+}
+
+async function processBatch(
+  task: TaskMessage,
+  onFile?: (phase: FilePhase, index: number) => void,
+  signal?: AbortSignal
+): Promise<DoneMessage> {
+  const start = Date.now();
+  const problems: (FileProblem | undefined)[] = [];
+  for (const [index, file] of task.files.entries()) {
+    signal?.throwIfAborted();
+    const filePath = path.join(task.baseDir, file.relativePath);
+    onFile?.('started', index);
+    if (task.kind === 'generate') {
+      writeRandomFile(filePath, file, task.content);
+    } else {
+      problems.push(await checkFile(filePath, file, task.content));
+    }
+    onFile?.('finished', index);
+  }
+  return { type: 'done', problems, busyMs: Date.now() - start };
+}
+
+function spawnWorker(): Worker {
+  // Under ts-node the worker has to register it before loading this module;
+  // compiled output (and the ncc bundle) can load the file directly. The
+  // eval'd script runs relative to the cwd, so ts-node and the tsconfig are
+  // located from here instead.
+  if (__filename.endsWith('.ts')) {
+    const tsNode = JSON.stringify(require.resolve('ts-node'));
+    const options = JSON.stringify({ transpileOnly: true, projectSearchDir: __dirname });
+    const script = `require(${tsNode}).register(${options}); require(${JSON.stringify(__filename)});`;
+    return new Worker(script, { eval: true, workerData: { role: WORKER_ROLE } });
+  }
+  return new Worker(__filename, { workerData: { role: WORKER_ROLE } });
+}
+
+function makeBatches(files: FileSpec[]): FileSpec[][] {
+  const batches: FileSpec[][] = [];
+  let current: FileSpec[] = [];
+  let currentBytes = 0;
+  for (const file of files) {
+    current.push(file);
+    currentBytes += file.size;
+    if (current.length >= MAX_BATCH_FILES || currentBytes >= MAX_BATCH_BYTES) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+export interface RunFileTasksOptions {
+  // Stop handing out batches, stop the workers and reject with the signal's reason
+  signal?: AbortSignal;
+  // Called as each file starts and finishes
+  onFile?: (phase: FilePhase, file: FileSpec) => void;
+}
+
+/**
+ * Generate or verify files across worker threads. With a concurrency of 1 the
+ * work runs on the calling thread instead. onBatch is called as each batch completes.
+ */
+export async function runFileTasks(
+  kind: FileTaskKind,
+  baseDir: string,
+  files: FileSpec[],
+  content: ContentSpec | undefined,
+  concurrency: number,
+  onBatch: (batch: FileSpec[], problems: (FileProblem | undefined)[]) => void,
+  options: RunFileTasksOptions = {}
+): Promise<WorkerStats[]> {
+  const { signal, onFile } = options;
+  signal?.throwIfAborted();
+  const batches = makeBatches(files);
+  const workerCount = Math.max(1, Math.min(concurrency || defaultConcurrency(), batches.length));
+  const stats: WorkerStats[] = Array.from({ length: workerCount }, (_, worker) => ({
+    worker,
+    files: 0,
+    bytes: 0,
+    busyMs: 0,
+  }));
+  const record = (worker: number, batch: FileSpec[], done: DoneMessage): void => {
+    stats[worker].files += batch.length;
+    stats[worker].bytes += batch.reduce((sum, f) => sum + f.size, 0);
+    stats[worker].busyMs += done.busyMs;
+    onBatch(batch, done.problems);
+  };
+
+  if (workerCount === 1) {
+    for (const batch of batches) {
+      const onBatchFile = onFile && ((phase: FilePhase, index: number): void => onFile(phase, batch[index]));
+      record(0, batch, await processBatch({ kind, baseDir, content, files: batch }, onBatchFile, signal));
+      // File I/O here is synchronous; let signal handlers run so an abort can land between batches
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return stats;
+  }
+
+  let next = 0;
+  const workers = stats.map(() => spawnWorker());
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    const finished = Promise.all(
+      workers.map(
+        (worker, index) =>
+          new Promise<void>((resolve, reject) => {
+            let batch: FileSpec[] | undefined;
+            const dispatch = (): void => {
+              batch = batches[next++];
+              if (batch) {
+                const task: TaskMessage = { kind, baseDir, content, files: batch, reportFiles: onFile !== undefined };
+                worker.postMessage(task);
+              } else {
+                resolve();
+              }
+            };
+            worker.on('message', (message: DoneMessage | ErrorMessage | FileMessage) => {
+              if (message.type === 'file') {
+                onFile?.(message.phase, (batch ?? [])[message.index]);
+                return;
+              }
+              if (message.type === 'error') {
+                reject(new Error(`Worker ${index} failed: ${message.message}`));
+                return;
+              }
+              record(index, batch ?? [], message);
+              dispatch();
+            });
+            worker.on('error', reject);
+            worker.on('exit', (code) => {
+              if (code !== 0) reject(new Error(`Worker ${index} exited with code ${code}`));
+            });
+            dispatch();
+          })
+      )
+    );
+    // Terminated workers reject too once an abort has won the race
+    finished.catch(() => undefined);
+    await Promise.race([finished, aborted]);
+  } finally {
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+  return stats;
+}
+
+/**
+ * Describe per-worker and total throughput, one log line each
+ */
+export function formatWorkerStats(stats: WorkerStats[], elapsedMs: number): string[] {
+  const mbps = (bytes: number, ms: number): string => (bytes / (1024 * 1024) / Math.max(ms / 1000, 0.001)).toFixed(1);
+  const lines = stats.map(
+    (s) => `  worker ${s.worker}: ${s.files} files, ${(s.bytes / (1024 * 1024)).toFixed(1)} MB in ${s.busyMs}ms (${mbps(s.bytes, s.busyMs)} MB/s)`
+  );
+  const totalBytes = stats.reduce((sum, s) => sum + s.bytes, 0);
+  lines.push(`  total: ${stats.length} workers, ${mbps(totalBytes, elapsedMs)} MB/s`);
+  return lines;
+}
+
+if (!isMainThread && workerData?.role === WORKER_ROLE) {
+  parentPort?.on('message', (task: TaskMessage) => {
+    const onFile = (phase: FilePhase, index: number): void => {
+      parentPort?.postMessage({ type: 'file', phase, index } satisfies FileMessage);
+    };
+    processBatch(task, task.reportFiles ? onFile : undefined).then(
+      (done) => parentPort?.postMessage(done),
+      (error) => parentPort?.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) } satisfies ErrorMessage)
+    );
+  });
+}
@@ -0,0 +1,42 @@
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { generateFileHierarchy } from './generate';
+import { DatasetProfile } from './profiles';
+import { hashTree, makeTempDir, quietLogger } from './test-helpers';
+import { verifyFileHierarchy } from './verify';
+
+// The original three-level layout, shrunk to 2 × 4 × 5 × 5 files of 70001 bytes:
+// more than one batch per worker, and files that end in a partial chunk and word
+const PROFILE: DatasetProfile = {
+  name: 'golden',
+  levels: [
+    { prefix: 'dir_', fanOut: 0 },
+    { prefix: 'sub_', fanOut: 4 },
+    { prefix: 'leaf_', fanOut: 5 },
+  ],
+  filesPerLeaf: 5,
+  fileSize: { kind: 'fixed', bytes: 70001 },
+};
+const SIZE_GB = (2 * 100 * 70001) / 1024 ** 3;
+
+// hashTree of the same layout written by the original generator
+const GOLDEN_TREE = 'c3d6cfb9ae511946c5edbe01b28baed12009f1196f1e0e49ad8b23393163f916';
+
+describe('generateFileHierarchy', () => {
+  const root = makeTempDir();
+
+  for (const concurrency of [1, 3]) {
+    test(`writes the golden tree with concurrency ${concurrency}`, async () => {
+      const dir = path.join(root, `concurrency-${concurrency}`);
+      const stats = await generateFileHierarchy(dir, SIZE_GB, PROFILE, { concurrency, logger: quietLogger });
+      assert.equal(stats.files, 200);
+      assert.equal(stats.workers.length, concurrency);
+      assert.equal(hashTree(dir), GOLDEN_TREE);
+
+      const report = await verifyFileHierarchy(dir, SIZE_GB, PROFILE, { concurrency, logger: quietLogger });
+      assert.equal(report.ok, true);
+      assert.equal(report.filesVerified, 200);
+    });
+  }
+});
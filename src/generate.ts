@@ -1,158 +1,100 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as core from '@actions/core';
-import { SeededRandom } from './seeded-random';
+import { defaultConcurrency, formatWorkerStats, runFileTasks, WorkerStats } from './file-workers';
+import { applyMetadata, MetadataCounts, planMetadata } from './metadata';
+import { contentTag, DatasetProfile, DEFAULT_PROFILE, describePlan, planDataset } from './profiles';
+import {
+  actionsLogger,
+  fileEventForwarder,
+  FileTaskOptions,
+  Logger,
+  progressLogListener,
+  ProgressTracker,
+} from './progress';
 
-// Configuration for N GB total:
-// N level-1 dirs × 10 level-2 dirs × 10 level-3 dirs × 5 files × 2MB = N GB
-const LEVEL_2_DIRS = 10;
-const LEVEL_3_DIRS = 10;
-const FILES_PER_LEAF = 5;
-const FILE_SIZE_BYTES = 2 * 1024 * 1024; // 2MB per file
-const MASTER_SEED = 0xdeadbeef;
-
-// Write buffer size for streaming writes (64KB chunks)
-const WRITE_CHUNK_SIZE = 64 * 1024;
-
-/**
- * Generate a deterministic seed for a specific file based on its path indices
- */
-function getFileSeed(l1: number, l2: number, l3: number, fileNum: number): number {
-  // Combine indices into a unique seed for each file
-  return MASTER_SEED ^ (l1 << 24) ^ (l2 << 16) ^ (l3 << 8) ^ fileNum;
-}
+export type GenerateOptions = FileTaskOptions;
 
 /**
- * Write a single file with seeded random (uncompressible) data
+ * Throughput of a completed generation
  */
-async function writeRandomFile(
-  filePath: string,
-  seed: number,
-  size: number
-): Promise<void> {
-  const rng = new SeededRandom(seed);
-  const chunk = Buffer.allocUnsafe(WRITE_CHUNK_SIZE);
-  
-  const fd = fs.openSync(filePath, 'w');
-  try {
-    let bytesWritten = 0;
-    while (bytesWritten < size) {
-      const bytesToWrite = Math.min(WRITE_CHUNK_SIZE, size - bytesWritten);
-      const writeBuffer = bytesToWrite === WRITE_CHUNK_SIZE ? chunk : chunk.subarray(0, bytesToWrite);
-      rng.fillBuffer(writeBuffer);
-      fs.writeSync(fd, writeBuffer);
-      bytesWritten += bytesToWrite;
-    }
-  } finally {
-    fs.closeSync(fd);
-  }
+export interface GenerationStats {
+  files: number;
+  bytes: number;
+  elapsedMs: number;
+  workers: WorkerStats[];
+  // Entries added when the profile asks for metadata
+  metadata?: MetadataCounts;
 }
 
 /**
- * Generate the complete file hierarchy with uncompressible data
+ * Generate the complete file hierarchy with the profile's content
  */
-export async function generateFileHierarchy(baseDir: string, sizeGb: number): Promise<void> {
-  const level1Dirs = sizeGb; // 1 dir per GB
-  const totalFiles = level1Dirs * LEVEL_2_DIRS * LEVEL_3_DIRS * FILES_PER_LEAF;
-  const totalSizeGB = (totalFiles * FILE_SIZE_BYTES) / (1024 * 1024 * 1024);
+export async function generateFileHierarchy(
+  baseDir: string,
+  sizeGb: number,
+  profile: DatasetProfile = DEFAULT_PROFILE,
+  options: GenerateOptions = {}
+): Promise<GenerationStats> {
+  const concurrency = options.concurrency || defaultConcurrency();
+  const logger = options.logger ?? actionsLogger;
+  const listener = options.listener ?? progressLogListener(logger);
+  const plan = planDataset(profile, sizeGb);
+  const totalFiles = plan.files.length;
+  const totalSizeGB = plan.totalBytes / (1024 * 1024 * 1024);
   
-  core.info(`Generating file hierarchy in ${baseDir}`);
-  core.info(`Structure: ${level1Dirs} × ${LEVEL_2_DIRS} × ${LEVEL_3_DIRS} × ${FILES_PER_LEAF} files`);
-  core.info(`Total: ${totalFiles} files, ${totalSizeGB.toFixed(2)} GB`);
+  logger.info(`Generating file hierarchy in ${baseDir}`);
+  logger.info(`Structure: ${describePlan(plan)}`);
+  logger.info(`Content: ${contentTag(profile.content)}`);
+  logger.info(`Total: ${totalFiles} files, ${totalSizeGB.toFixed(2)} GB (concurrency: ${concurrency})`);
 
-  // Create base directory
+  // Create base directory and all leaf directories
   fs.mkdirSync(baseDir, { recursive: true });
+  for (const dir of plan.directories) {
+    fs.mkdirSync(path.join(baseDir, dir), { recursive: true });
+  }
 
-  let filesCreated = 0;
   const startTime = Date.now();
-
-  for (let l1 = 0; l1 < level1Dirs; l1++) {
-    const l1Dir = path.join(baseDir, `dir_${l1}`);
-    
-    for (let l2 = 0; l2 < LEVEL_2_DIRS; l2++) {
-      const l2Dir = path.join(l1Dir, `sub_${l2}`);
-      
-      for (let l3 = 0; l3 < LEVEL_3_DIRS; l3++) {
-        const l3Dir = path.join(l2Dir, `leaf_${l3}`);
-        fs.mkdirSync(l3Dir, { recursive: true });
-
-        for (let f = 0; f < FILES_PER_LEAF; f++) {
-          const filePath = path.join(l3Dir, `data_${f}.bin`);
-          const seed = getFileSeed(l1, l2, l3, f);
-          await writeRandomFile(filePath, seed, FILE_SIZE_BYTES);
-          filesCreated++;
-
-          // Progress logging every 100 files
-          if (filesCreated % 100 === 0) {
-            const elapsedMs = Date.now() - startTime;
-            const rate = filesCreated / elapsedMs;
-            const remainingMs = (totalFiles - filesCreated) / rate;
-            core.info(`[${elapsedMs}ms] Progress: ${filesCreated}/${totalFiles} files (${((filesCreated / totalFiles) * 100).toFixed(1)}%) - ETA: ${remainingMs.toFixed(0)}ms`);
-          }
-        }
-      }
-    }
-  }
+  const progress = new ProgressTracker('generate', totalFiles, plan.totalBytes);
+  const workers = await runFileTasks(
+    'generate',
+    baseDir,
+    plan.files,
+    profile.content,
+    concurrency,
+    (batch) => {
+      const bytes = batch.reduce((sum, f) => sum + f.size, 0);
+      const done = progress.add(batch.length, bytes);
+      listener.onEvent({ type: 'bytes-written', bytes, totalBytes: done.bytesDone });
+      listener.onEvent({ type: 'progress', ...done });
+    },
+    { signal: options.signal, onFile: fileEventForwarder(listener, 'generate') }
+  );
 
   const totalElapsedMs = Date.now() - startTime;
   const throughputMBs = (totalSizeGB * 1024) / (totalElapsedMs / 1000);
-  core.info(`[${totalElapsedMs}ms] Generation complete: ${totalFiles} files (${throughputMBs.toFixed(1)} MB/s)`);
+  logger.info(`[${totalElapsedMs}ms] Generation complete: ${totalFiles} files (${throughputMBs.toFixed(1)} MB/s)`);
+  for (const line of formatWorkerStats(workers, totalElapsedMs)) {
+    logger.info(line);
+  }
+
+  // Metadata is part of the dataset, so its time counts towards generation
+  options.signal?.throwIfAborted();
+  const metadata = profile.metadata
+    ? await applyMetadata(baseDir, planMetadata(plan, profile.metadata), logger)
+    : undefined;
+  const elapsedMs = Date.now() - startTime;
+  return { files: totalFiles, bytes: plan.totalBytes, elapsedMs, workers, metadata };
 }
 
 /**
  * Delete the file hierarchy
  */
-export async function deleteFileHierarchy(baseDir: string): Promise<void> {
-  core.info(`Deleting file hierarchy at ${baseDir}`);
+export async function deleteFileHierarchy(baseDir: string, logger: Logger = actionsLogger): Promise<void> {
+  logger.info(`Deleting file hierarchy at ${baseDir}`);
   const startTime = Date.now();
   
   fs.rmSync(baseDir, { recursive: true, force: true });
   
   const elapsedMs = Date.now() - startTime;
-  core.info(`[${elapsedMs}ms] Deletion complete`);
-}
-
-/**
- * Verify the file hierarchy exists and has correct structure
- */
-export async function verifyFileHierarchy(baseDir: string, sizeGb: number): Promise<boolean> {
-  core.info(`Verifying file hierarchy at ${baseDir}`);
-  
-  const level1Dirs = sizeGb; // 1 dir per GB
-  let filesVerified = 0;
-  let totalSize = 0;
-
-  for (let l1 = 0; l1 < level1Dirs; l1++) {
-    for (let l2 = 0; l2 < LEVEL_2_DIRS; l2++) {
-      for (let l3 = 0; l3 < LEVEL_3_DIRS; l3++) {
-        for (let f = 0; f < FILES_PER_LEAF; f++) {
-          const filePath = path.join(
-            baseDir,
-            `dir_${l1}`,
-            `sub_${l2}`,
-            `leaf_${l3}`,
-            `data_${f}.bin`
-          );
-          
-          if (!fs.existsSync(filePath)) {
-            core.error(`Missing file: ${filePath}`);
-            return false;
-          }
-          
-          const stats = fs.statSync(filePath);
-          if (stats.size !== FILE_SIZE_BYTES) {
-            core.error(`Wrong size for ${filePath}: expected ${FILE_SIZE_BYTES}, got ${stats.size}`);
-            return false;
-          }
-          
-          filesVerified++;
-          totalSize += stats.size;
-        }
-      }
-    }
-  }
-
-  const totalSizeGB = totalSize / (1024 * 1024 * 1024);
-  core.info(`Verification passed: ${filesVerified} files, ${totalSizeGB.toFixed(2)} GB`);
-  return true;
+  logger.info(`[${elapsedMs}ms] Deletion complete`);
 }
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import * as core from '@actions/core';
+import {
+  appendHistory,
+  DEFAULT_TREND_OPTIONS,
+  detectTrends,
+  historyEntryFromResult,
+  readHistory,
+  renderTrends,
+  TrendOptions,
+} from './history';
+import { findResultFiles, readResultDocument } from './results';
+
+const USAGE = `Usage: history-local.ts <command> [options]
+
+Commands:
+  append <result.json | directory>...   Add result documents to the history file
+  check                                 Compare the latest run of each series with its baseline
+
+Options:
+  --history <file>      JSONL history file (default: benchmark-history.jsonl)
+  --window <n>          Previous runs in the rolling baseline (default: ${DEFAULT_TREND_OPTIONS.window})
+  --min-baseline <n>    Runs needed before a metric is compared (default: ${DEFAULT_TREND_OPTIONS.minBaseline})
+  --threshold <pct>     Change in percent that counts as a regression (default: ${DEFAULT_TREND_OPTIONS.threshold * 100})
+  --min-z <n>           Baseline standard deviations a change must exceed (default: ${DEFAULT_TREND_OPTIONS.minZScore})
+  --metric <name>       Only check this step, e.g. restore or hydrate_cold (repeatable)
+  --markdown <file>     Write the trend tables to a file
+
+check prints trend tables, appends them to the job summary when
+GITHUB_STEP_SUMMARY is set and exits with 2 when any metric regressed.`;
+
+function readNumber(name: string, raw: string | undefined, fallback: number): number {
+  const value = raw === undefined ? fallback : Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      history: { type: 'string', default: 'benchmark-history.jsonl' },
+      window: { type: 'string' },
+      'min-baseline': { type: 'string' },
+      threshold: { type: 'string' },
+      'min-z': { type: 'string' },
+      metric: { type: 'string', multiple: true },
+      markdown: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [command, ...inputs] = positionals;
+  if (values.help || (command !== 'append' && command !== 'check')) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  const historyFile = values.history ?? 'benchmark-history.jsonl';
+
+  if (command === 'append') {
+    if (inputs.length === 0) {
+      throw new Error('append needs at least one result document or directory');
+    }
+    const entries = findResultFiles(inputs).map((file) => historyEntryFromResult(readResultDocument(file)));
+    const added = appendHistory(historyFile, entries);
+    console.log(`Appended ${added.length} of ${entries.length} runs to ${historyFile}`);
+    return;
+  }
+
+  const options: TrendOptions = {
+    window: readNumber('window', values.window, DEFAULT_TREND_OPTIONS.window),
+    minBaseline: readNumber('min-baseline', values['min-baseline'], DEFAULT_TREND_OPTIONS.minBaseline),
+    threshold: readNumber('threshold', values.threshold, DEFAULT_TREND_OPTIONS.threshold * 100) / 100,
+    minZScore: readNumber('min-z', values['min-z'], DEFAULT_TREND_OPTIONS.minZScore),
+    metrics: values.metric,
+  };
+  const trends = detectTrends(readHistory(historyFile), options);
+  const markdown = renderTrends(trends);
+  console.log(markdown);
+
+  if (values.markdown) {
+    fs.writeFileSync(values.markdown, markdown);
+  }
+  if (process.env['GITHUB_STEP_SUMMARY']) {
+    await core.summary.addRaw(markdown, true).write();
+  }
+
+  const regressions = trends.filter((t) => t.status === 'regression');
+  if (regressions.length > 0) {
+    for (const t of regressions) {
+      console.error(`Regression: ${t.series} ${t.metric} +${(t.change * 100).toFixed(1)}% (z ${t.zScore.toFixed(1)})`);
+    }
+    process.exit(2);
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResultDocument } from './results';
+import { summarize } from './stats';
+
+/**
+ * Bumped whenever a history field changes meaning. Lines with another
+ * version are skipped when reading.
+ */
+export const HISTORY_SCHEMA_VERSION = 1;
+
+/**
+ * One run of one benchmark, flattened to the fields trends are tracked by
+ */
+export interface HistoryEntry {
+  schemaVersion: typeof HISTORY_SCHEMA_VERSION;
+  recordedAt: string;
+  name: string;
+  kind: ResultDocument['kind'];
+  commit?: string;
+  ref?: string;
+  runId?: string;
+  runAttempt?: string;
+  mode: string;
+  // save-only or restore-only for split runs
+  phase?: string;
+  sizeGb?: number;
+  profile?: string;
+  content?: string;
+  backend?: string;
+  // OS and architecture, e.g. Linux-x64
+  runner: string;
+  // Kept apart from `runner` so an image update shows up as a change within one series
+  image?: string;
+  archiveBytes?: number;
+  // Step name to median milliseconds
+  metrics: Record<string, number>;
+}
+
+export type TrendStatus = 'regression' | 'improvement' | 'stable' | 'insufficient';
+
+/**
+ * Latest value of one metric compared with the runs before it
+ */
+export interface MetricTrend {
+  series: string;
+  metric: string;
+  latest: number;
+  latestCommit?: string;
+  // Previous values oldest first, at most `window` of them
+  baseline: number[];
+  baselineMedian: number;
+  // Relative change of the latest value against the baseline median
+  change: number;
+  // Distance from the baseline mean in baseline standard deviations
+  zScore: number;
+  status: TrendStatus;
+}
+
+export interface TrendOptions {
+  // Number of previous runs that make up the baseline
+  window: number;
+  // Smallest baseline that is compared at all
+  minBaseline: number;
+  // Relative change, e.g. 0.1 for 10%, that counts as a regression or improvement
+  threshold: number;
+  // Standard deviations the latest value must be from the baseline mean
+  minZScore: number;
+  // Only look at these metrics (all when empty)
+  metrics?: string[];
+}
+
+export const DEFAULT_TREND_OPTIONS: TrendOptions = {
+  window: 10,
+  minBaseline: 3,
+  threshold: 0.1,
+  minZScore: 2,
+};
+
+export function historyEntryFromResult(doc: ResultDocument): HistoryEntry {
+  const runner = doc.config.runner;
+  const metrics: Record<string, number> = {};
+  for (const step of doc.steps) {
+    metrics[step.name] = step.ms;
+  }
+  return {
+    schemaVersion: HISTORY_SCHEMA_VERSION,
+    recordedAt: doc.createdAt,
+    name: doc.name,
+    kind: doc.kind,
+    commit: doc.run.commit,
+    ref: doc.run.ref,
+    runId: doc.run.runId,
+    runAttempt: doc.run.runAttempt,
+    mode: doc.config.mode,
+    phase: doc.config.phase,
+    sizeGb: doc.config.sizeGb,
+    profile: doc.config.profile,
+    content: doc.config.content,
+    backend: doc.config.backend,
+    runner: `${runner.runnerOs ?? runner.os}-${runner.arch}`,
+    image: runner.imageOs && runner.imageVersion ? `${runner.imageOs}/${runner.imageVersion}` : undefined,
+    archiveBytes: doc.dataset?.archiveBytes,
+    metrics,
+  };
+}
+
+/**
+ * Entries are only comparable within a series: the same benchmark, mode,
+ * size, profile, content, backend and runner type
+ */
+export function seriesKey(entry: HistoryEntry): string {
+  return [
+    entry.name,
+    entry.mode,
+    entry.phase,
+    entry.sizeGb !== undefined ? `${entry.sizeGb}gb` : undefined,
+    entry.profile,
+    entry.content,
+    entry.backend,
+    entry.runner,
+  ]
+    .filter((part) => part !== undefined)
+    .join('/');
+}
+
+function entryId(entry: HistoryEntry): string | undefined {
+  return entry.runId ? `${entry.name}@${entry.runId}.${entry.runAttempt ?? '1'}` : undefined;
+}
+
+/**
+ * Read a JSONL history file. A missing file is an empty history.
+ */
+export function readHistory(filePath: string): HistoryEntry[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const entries: HistoryEntry[] = [];
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+    let entry: HistoryEntry;
+    try {
+      entry = JSON.parse(line) as HistoryEntry;
+    } catch (err) {
+      throw new Error(`${filePath}:${index + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (entry.schemaVersion === HISTORY_SCHEMA_VERSION) {
+      entries.push(entry);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Append entries to a history file, skipping runs that are already recorded.
+ * Returns the entries that were written.
+ */
+export function appendHistory(filePath: string, entries: HistoryEntry[]): HistoryEntry[] {
+  const known = new Set(readHistory(filePath).map(entryId).filter((id) => id !== undefined));
+  const added = entries.filter((entry) => {
+    const id = entryId(entry);
+    if (id === undefined) return true;
+    if (known.has(id)) return false;
+    known.add(id);
+    return true;
+  });
+  if (added.length > 0) {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    fs.appendFileSync(filePath, added.map((entry) => JSON.stringify(entry) + '\n').join(''));
+  }
+  return added;
+}
+
+function standardScore(value: number, mean: number, stddev: number): number {
+  if (stddev > 0) return (value - mean) / stddev;
+  // A baseline without spread puts any change outside it
+  return value === mean ? 0 : Math.sign(value - mean) * Infinity;
+}
+
+function classify(change: number, zScore: number, options: TrendOptions): TrendStatus {
+  if (Math.abs(change) < options.threshold || Math.abs(zScore) < options.minZScore) {
+    return 'stable';
+  }
+  // Metrics are durations, so slower is worse
+  return change > 0 ? 'regression' : 'improvement';
+}
+
+/**
+ * Compare the latest run of every series and metric with a rolling baseline
+ * of the runs before it. A change is only flagged when it is both larger than
+ * the threshold and well outside the baseline's run-to-run noise.
+ */
+export function detectTrends(entries: HistoryEntry[], options: TrendOptions = DEFAULT_TREND_OPTIONS): MetricTrend[] {
+  const bySeries = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const key = seriesKey(entry);
+    bySeries.set(key, [...(bySeries.get(key) ?? []), entry]);
+  }
+
+  const trends: MetricTrend[] = [];
+  for (const [series, runs] of bySeries) {
+    const latest = runs[runs.length - 1];
+    for (const [metric, value] of Object.entries(latest.metrics)) {
+      if (options.metrics && options.metrics.length > 0 && !options.metrics.includes(metric)) continue;
+      const baseline = runs
+        .slice(0, -1)
+        .flatMap((run) => (run.metrics[metric] !== undefined ? [run.metrics[metric]] : []))
+        .slice(-options.window);
+      const stats = summarize(baseline);
+      const change = stats.p50 > 0 ? (value - stats.p50) / stats.p50 : 0;
+      const zScore = standardScore(value, stats.mean, stats.stddev);
+      trends.push({
+        series,
+        metric,
+        latest: value,
+        latestCommit: latest.commit,
+        baseline,
+        baselineMedian: stats.p50,
+        change,
+        zScore,
+        status: baseline.length < options.minBaseline ? 'insufficient' : classify(change, zScore, options),
+      });
+    }
+  }
+  return trends;
+}
+
+function formatMs(ms: number): string {
+  return ms >= 10000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+const STATUS_LABELS: Record<TrendStatus, string> = {
+  regression: '🔴 regression',
+  improvement: '🟢 improvement',
+  stable: 'stable',
+  insufficient: 'not enough history',
+};
+
+/**
+ * Markdown table per series with the baseline, the latest value and the
+ * recent values each was computed from
+ */
+export function renderTrends(trends: MetricTrend[], title = 'Benchmark trends'): string {
+  const lines: string[] = [`## ${title}`, ''];
+  if (trends.length === 0) {
+    return [...lines, '_No history._', ''].join('\n');
+  }
+  const seriesNames = [...new Set(trends.map((t) => t.series))];
+  for (const series of seriesNames) {
+    const rows = trends.filter((t) => t.series === series);
+    const commit = rows[0].latestCommit ? ` @ ${rows[0].latestCommit.slice(0, 7)}` : '';
+    lines.push(`### ${series}${commit}`, '');
+    lines.push(
+      '| Metric | Baseline (n) | Latest | Change | z | Status | Recent |',
+      '| --- | --- | --- | --- | --- | --- | --- |'
+    );
+    for (const t of rows) {
+      const compared = t.status !== 'insufficient';
+      const recent = [...t.baseline.slice(-5), t.latest].map(formatMs).join(' → ');
+      lines.push(
+        `| ${t.metric} | ${t.baseline.length > 0 ? `${formatMs(t.baselineMedian)} (${t.baseline.length})` : '–'} | ` +
+          `${formatMs(t.latest)} | ${compared ? `${t.change >= 0 ? '+' : ''}${(t.change * 100).toFixed(1)}%` : '–'} | ` +
+          `${compared && Number.isFinite(t.zScore) ? t.zScore.toFixed(1) : '–'} | ${STATUS_LABELS[t.status]} | ${recent} |`
+      );
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
@@ -1,249 +1,529 @@
 import * as core from '@actions/core';
-import * as cache from '@actions/cache';
 import * as path from 'path';
 import * as fs from 'fs';
-import { generateFileHierarchy, deleteFileHierarchy, verifyFileHierarchy } from './generate';
+import { isMainThread } from 'worker_threads';
+import { createBackend } from './backend';
+import { checkFreeSpace, spaceRequirements } from './capacity';
+import { CleanupRegistry } from './cleanup';
+import { logIterationSummary, runIterations, setIterationOutputs } from './iterations';
+import { ChangeRates, DEFAULT_CHANGE_RATES } from './mutation';
+import { runFallbackScenario, staleFileCount } from './fallback';
+import { failedVerification, PipelineConfig, RetryPolicies, runRestoreOnly, runSaveOnly } from './pipeline';
+import {
+  buildCacheResult,
+  buildFallbackResult,
+  buildRestoreOnlyResult,
+  buildSaveOnlyResult,
+  buildShardedResult,
+  ResultConfig,
+  writeResultDocument,
+} from './results';
+import {
+  contentTag,
+  DatasetProfile,
+  planDataset,
+  profileTag,
+  resolveContent,
+  resolveMetadata,
+  resolveProfile,
+} from './profiles';
+import {
+  DEFAULT_AVAILABILITY_POLICY,
+  DEFAULT_RESTORE_POLICY,
+  DEFAULT_SAVE_POLICY,
+  RetryPolicy,
+} from './retry';
+import { DEFAULT_SHARD_CONCURRENCY, parseShardStrategy, runShardedScenario, ShardStrategy } from './shards';
+import { summarize } from './stats';
+import {
+  detectStorage,
+  formatStorageInfo,
+  parseTargetList,
+  resolveStorageTargets,
+  StorageInfo,
+  StorageTarget,
+  storageLabel,
+  warnIfNotMemoryBacked,
+} from './storage';
+import { DEFAULT_SAMPLE_INTERVAL_MS } from './telemetry';
+import { summarizeVerificationReport, VerificationReport } from './verify';
 
-// Possible tmpfs locations on different systems
-const TMPFS_CANDIDATES = ['/mnt/tmpfs', '/tmpfs', '/dev/shm'];
+const RUN_MODES = ['full', 'save-only', 'restore-only', 'fallback', 'sharded'] as const;
+type RunMode = (typeof RUN_MODES)[number];
 
-const SAVE_RETRY_ATTEMPTS = 3;
-const RESTORE_RETRY_ATTEMPTS = 6;
-const RETRY_BASE_DELAY_MS = 5000;
-const AVAILABILITY_RETRY_ATTEMPTS = 12;
+function readNumberInput(name: string, fallback: number, min: number, max = Infinity): number {
+  const raw = core.getInput(name);
+  const value = raw === '' ? fallback : Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Build a retry policy from the shared retry-* inputs and an attempts input
+ */
+function readRetryPolicy(attemptsInput: string, defaults: RetryPolicy): RetryPolicy {
+  return {
+    maxAttempts: readNumberInput(attemptsInput, defaults.maxAttempts, 1),
+    baseDelayMs: readNumberInput('retry-base-delay-ms', defaults.baseDelayMs, 0),
+    maxDelayMs: readNumberInput('retry-max-delay-ms', defaults.maxDelayMs, 0),
+    multiplier: readNumberInput('retry-multiplier', defaults.multiplier, 1),
+    jitter: readNumberInput('retry-jitter', defaults.jitter, 0, 1),
+    deadlineMs: readNumberInput('retry-deadline-ms', defaults.deadlineMs, 0),
+    retryOnMiss: defaults.retryOnMiss,
+  };
 }
 
-async function saveCacheWithRetry(paths: string[], key: string): Promise<number> {
-  let lastError: Error | undefined;
+/**
+ * Inputs shared by every storage target of one invocation
+ */
+interface BenchmarkInputs {
+  runMode: RunMode;
+  sizeGb: number;
+  profile: DatasetProfile;
+  content: string;
+  generateConcurrency: number;
+  verifyConcurrency: number;
+  backendName: string;
+  iterations: number;
+  warmupIterations: number;
+  resultFile: string;
+  changeRates: ChangeRates;
+  incremental?: { generation: number; rates: ChangeRates };
+  fallbackGenerations: number;
+  shardStrategy: ShardStrategy;
+  shardConcurrency: number;
+  sampleIntervalMs: number;
+  retry: RetryPolicies;
+  keepFiles: boolean;
+}
 
-  for (let attempt = 1; attempt <= SAVE_RETRY_ATTEMPTS; attempt++) {
-    try {
-      core.info(`Cache save attempt ${attempt}/${SAVE_RETRY_ATTEMPTS}...`);
-      const cacheId = await cache.saveCache(paths, key);
-      if (cacheId === -1) {
-        throw new Error('Cache save returned -1 (cache not saved)');
-      }
-      return cacheId;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      if (attempt < SAVE_RETRY_ATTEMPTS) {
-        const delay = RETRY_BASE_DELAY_MS * attempt;
-        core.warning(`Cache save attempt ${attempt} failed: ${lastError.message}. Retrying in ${delay}ms.`);
-        await sleep(delay);
-      }
-    }
+/**
+ * A storage target with the filesystems its directories are on
+ */
+interface DetectedTarget extends StorageTarget {
+  storage: { files: StorageInfo; runnerTemp: StorageInfo };
+}
+
+/**
+ * What one storage target's run reports back to the invocation
+ */
+interface TargetOutcome {
+  label: string;
+  resultFile: string;
+  failure?: VerificationReport;
+}
+
+function readInputs(): BenchmarkInputs {
+  const sizeGb = parseInt(core.getInput('size-gb') || '8', 10);
+  if (sizeGb < 1 || sizeGb > 10) {
+    throw new Error('size-gb must be between 1 and 10');
   }
 
-  throw lastError ?? new Error('Cache save failed after retries');
+  const runMode = (core.getInput('mode') || 'full') as RunMode;
+  if (!RUN_MODES.includes(runMode)) {
+    throw new Error(`mode must be one of: ${RUN_MODES.join(', ')}`);
+  }
+  const contentInput = core.getInput('content');
+  const baseProfile = resolveProfile(core.getInput('profile'));
+  const metadata = resolveMetadata(core.getInput('metadata'));
+  const profile = {
+    ...baseProfile,
+    ...(contentInput ? { content: resolveContent(contentInput) } : {}),
+    ...(metadata ? { metadata } : {}),
+  };
+  const mutationGeneration = readNumberInput('mutation-generation', 0, 0);
+  const changeRates = {
+    modify: readNumberInput('change-modify-rate', DEFAULT_CHANGE_RATES.modify, 0, 1),
+    append: readNumberInput('change-append-rate', DEFAULT_CHANGE_RATES.append, 0, 1),
+    delete: readNumberInput('change-delete-rate', DEFAULT_CHANGE_RATES.delete, 0, 1),
+    add: readNumberInput('change-add-rate', DEFAULT_CHANGE_RATES.add, 0, 1),
+  };
+  return {
+    runMode,
+    sizeGb,
+    profile,
+    content: contentTag(profile.content),
+    generateConcurrency: readNumberInput('generate-concurrency', 0, 0),
+    verifyConcurrency: readNumberInput('verify-concurrency', 0, 0),
+    backendName: core.getInput('backend') || 'actions-cache',
+    iterations: readNumberInput('iterations', 1, 1),
+    warmupIterations: readNumberInput('warmup-iterations', 0, 0),
+    resultFile: path.resolve(core.getInput('result-file') || 'benchmark-result.json'),
+    changeRates,
+    incremental: mutationGeneration > 0 ? { generation: mutationGeneration, rates: changeRates } : undefined,
+    fallbackGenerations: readNumberInput('fallback-generations', 3, 1),
+    shardStrategy: parseShardStrategy(core.getInput('shards') || 'top-level'),
+    shardConcurrency: readNumberInput('shard-concurrency', DEFAULT_SHARD_CONCURRENCY, 1),
+    sampleIntervalMs: readNumberInput('sample-interval-ms', DEFAULT_SAMPLE_INTERVAL_MS, 0),
+    retry: {
+      save: readRetryPolicy('save-retry-attempts', DEFAULT_SAVE_POLICY),
+      restore: {
+        ...readRetryPolicy('restore-retry-attempts', DEFAULT_RESTORE_POLICY),
+        retryOnMiss: core.getInput('retry-on-miss') === 'true',
+      },
+      availability: readRetryPolicy('availability-retry-attempts', DEFAULT_AVAILABILITY_POLICY),
+    },
+    keepFiles: core.getInput('keep-files') === 'true',
+  };
 }
 
-async function restoreCacheWithRetry(paths: string[], key: string): Promise<string> {
-  let lastError: Error | undefined;
+/**
+ * Cache entries one run saves, for estimating the space local backends need
+ */
+function savedEntries(inputs: BenchmarkInputs): number {
+  switch (inputs.runMode) {
+    case 'full':
+      return (inputs.iterations + inputs.warmupIterations) * (inputs.incremental ? 2 : 1);
+    case 'fallback':
+      return inputs.fallbackGenerations;
+    case 'sharded':
+      // The single-entry baseline and the shards
+      return 2;
+    case 'save-only':
+      return 1;
+    case 'restore-only':
+      return 0;
+  }
+}
 
-  for (let attempt = 1; attempt <= RESTORE_RETRY_ATTEMPTS; attempt++) {
-    try {
-      core.info(`Cache restore attempt ${attempt}/${RESTORE_RETRY_ATTEMPTS}...`);
-      const restoredKey = await cache.restoreCache(paths, key);
-      if (!restoredKey) {
-        throw new Error('Cache restore returned undefined');
-      }
-      return restoredKey;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      if (attempt < RESTORE_RETRY_ATTEMPTS) {
-        const delay = RETRY_BASE_DELAY_MS * attempt;
-        core.warning(`Cache restore attempt ${attempt} failed: ${lastError.message}. Retrying in ${delay}ms.`);
-        await sleep(delay);
-      }
+/**
+ * Detect where each target's directories live and fail before anything is
+ * written when one of them is too small for the run
+ */
+function preflight(inputs: BenchmarkInputs, targets: StorageTarget[]): DetectedTarget[] {
+  const plan = planDataset(inputs.profile, inputs.sizeGb);
+  const usage = {
+    backend: inputs.backendName,
+    savedEntries: savedEntries(inputs),
+    restoreOnly: inputs.runMode === 'restore-only',
+  };
+  return targets.map((target) => {
+    const storage = { files: detectStorage(target.filesRoot), runnerTemp: detectStorage(target.runnerTemp) };
+    if (target.claimedTmpfs.files) {
+      warnIfNotMemoryBacked(storage.files, 'Files dir');
     }
+    if (target.claimedTmpfs.runnerTemp) {
+      warnIfNotMemoryBacked(storage.runnerTemp, 'RUNNER_TEMP');
+    }
+    // Each target is cleaned up before the next starts, so targets need the space one at a time
+    checkFreeSpace(spaceRequirements(plan, usage, storage.files, storage.runnerTemp));
+    return { ...target, storage };
+  });
+}
+
+/**
+ * The target's number and label, e.g. 2-disk-ext4-tmpfs-tmpfs
+ */
+function targetTag(index: number, label: string): string {
+  return `${index + 1}-${label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+/**
+ * Result file of one target: the result-file input itself for a single
+ * target, otherwise suffixed with the target's number and label
+ */
+function targetResultFile(resultFile: string, index: number, count: number, label: string): string {
+  if (count === 1) {
+    return resultFile;
   }
+  const ext = path.extname(resultFile);
+  return `${resultFile.slice(0, resultFile.length - ext.length)}-${targetTag(index, label)}${ext}`;
+}
 
-  throw lastError ?? new Error('Cache restore failed after retries');
+/**
+ * Result name of one target. A result-name input is suffixed like the result
+ * file when there are several targets, so each target gets its own history
+ * series; without the input the name is derived from the label.
+ */
+function targetResultName(derived: string, index: number, count: number, label: string): string {
+  const name = core.getInput('result-name');
+  if (!name) {
+    return derived;
+  }
+  return count > 1 ? `${name}-${targetTag(index, label)}` : name;
 }
 
-async function waitForCacheAvailability(paths: string[], key: string): Promise<void> {
-  for (let attempt = 1; attempt <= AVAILABILITY_RETRY_ATTEMPTS; attempt++) {
-    const restoredKey = await cache.restoreCache(paths, key, [], {
-      lookupOnly: true
-    });
-    if (restoredKey) {
-      core.info(`Cache is now available (attempt ${attempt}/${AVAILABILITY_RETRY_ATTEMPTS}).`);
-      return;
+/**
+ * Run the selected mode once with the files and archive temp dir of one target
+ */
+async function runTarget(
+  inputs: BenchmarkInputs,
+  target: DetectedTarget,
+  index: number,
+  count: number,
+  cleanup: CleanupRegistry
+): Promise<TargetOutcome> {
+  const { runMode, sizeGb, profile, content, backendName, iterations, warmupIterations } = inputs;
+
+  const { storage } = target;
+  // Successful runs keep what they created only when asked to
+  const keepOnSuccess = inputs.keepFiles;
+  cleanup.mkdir(target.filesRoot, keepOnSuccess);
+  cleanup.mkdir(target.runnerTemp, keepOnSuccess);
+  const filesPath = path.join(target.filesRoot, 'files');
+  cleanup.removePath(filesPath, keepOnSuccess);
+  cleanup.setEnv('RUNNER_TEMP', target.runnerTemp);
+  const label = storageLabel(storage.files, storage.runnerTemp);
+
+  // Use unique key per workflow run to ensure fresh save/restore
+  // GITHUB_RUN_ID + GITHUB_RUN_ATTEMPT ensures uniqueness even for re-runs
+  const runId = process.env['GITHUB_RUN_ID'];
+  const runAttempt = process.env['GITHUB_RUN_ATTEMPT'] || '1';
+  const uniqueKey = runId ? `${runId}-${runAttempt}` : `local-${Date.now()}`;
+  // Targets of one invocation must not save under the same key
+  const targetSuffix = count > 1 ? `-t${index + 1}` : '';
+
+  // Split runs share a key or a prefix between the saving and the restoring job
+  const keyPrefix = core.getInput('key-prefix') || `${storage.files.memoryBacked ? 'tmpfs' : 'disk'}-`;
+  const cacheKey =
+    core.getInput('cache-key') ||
+    `${keyPrefix}${profileTag(profile)}-${content}-${sizeGb}gb-${uniqueKey}${targetSuffix}`;
+  const resultFile = targetResultFile(inputs.resultFile, index, count, label);
+
+  core.info(`=== Configuration${count > 1 ? ` (target ${index + 1} of ${count})` : ''} ===`);
+  core.info(`Run mode: ${runMode}`);
+  core.info(`Size: ${sizeGb}GB`);
+  core.info(`Mode: ${label}`);
+  core.info(`Profile: ${profile.name}`);
+  core.info(`Content: ${content}`);
+  core.info(`Metadata: ${profile.metadata ? JSON.stringify(profile.metadata) : 'none'}`);
+  core.info(`Backend: ${backendName}`);
+  core.info(`Iterations: ${iterations} (+${warmupIterations} warm-up)`);
+  if (inputs.incremental) {
+    const { modify, append, delete: deleted, add } = inputs.incremental.rates;
+    core.info(
+      `Incremental: generation ${inputs.incremental.generation} ` +
+        `(modify ${modify}, append ${append}, delete ${deleted}, add ${add})`
+    );
+  }
+  core.info(`Cache key: ${cacheKey}`);
+  core.info(`Files path: ${filesPath}`);
+  core.info(`Files storage: ${formatStorageInfo(storage.files)}`);
+  core.info(`RUNNER_TEMP: ${process.env['RUNNER_TEMP']}`);
+  core.info(`RUNNER_TEMP storage: ${formatStorageInfo(storage.runnerTemp)}`);
+  core.info(`GITHUB_RUN_ID: ${process.env['GITHUB_RUN_ID']}`);
+  core.info(`GITHUB_RUN_ATTEMPT: ${process.env['GITHUB_RUN_ATTEMPT']}`);
+  core.info(`GITHUB_WORKSPACE: ${process.env['GITHUB_WORKSPACE']}`);
+  core.info(`cwd: ${process.cwd()}`);
+  core.info('====================');
+
+  // Local backends keep their entries next to the archive temp dir
+  const storeDir = path.join(target.runnerTemp, 'cache-store');
+  if (runMode !== 'restore-only') {
+    // A successful save-only run hands its entry on to a restore-only run
+    const keepEntries = keepOnSuccess || runMode === 'save-only';
+    if (!fs.existsSync(storeDir)) {
+      cleanup.removePath(storeDir, keepEntries);
+    } else {
+      // Shared store: only this run's entries go
+      cleanup.removeEntries(storeDir, cacheKey, keepEntries);
     }
-    const delay = RETRY_BASE_DELAY_MS * attempt;
-    core.info(`Cache not available yet (attempt ${attempt}/${AVAILABILITY_RETRY_ATTEMPTS}). Waiting ${delay}ms...`);
-    await sleep(delay);
   }
-  throw new Error('Cache did not become available after upload');
-}
+  const pipelineConfig: PipelineConfig = {
+    backend: createBackend(backendName, storeDir),
+    filesPath,
+    cacheKey,
+    sizeGb,
+    profile,
+    generateConcurrency: inputs.generateConcurrency,
+    verifyConcurrency: inputs.verifyConcurrency,
+    retry: inputs.retry,
+    incremental: inputs.incremental,
+    label,
+    sampleIntervalMs: inputs.sampleIntervalMs,
+  };
+  const resultConfig: Omit<ResultConfig, 'runner'> = {
+    mode: label,
+    sizeGb,
+    profile: profile.name,
+    content,
+    backend: backendName,
+    iterations,
+    warmupIterations,
+    paths: { files: filesPath, runnerTemp: target.runnerTemp, store: storeDir },
+    storage,
+  };
+  if (runMode !== 'restore-only') {
+    core.setOutput('cache_key', cacheKey);
+  }
 
-function findTmpfsLocation(): string {
-  for (const candidate of TMPFS_CANDIDATES) {
-    if (fs.existsSync(candidate)) {
-      // Verify it's actually a tmpfs by checking if it's writable
-      try {
-        const testFile = path.join(candidate, '.tmpfs-test');
-        fs.writeFileSync(testFile, 'test');
-        fs.unlinkSync(testFile);
-        return candidate;
-      } catch {
-        core.debug(`${candidate} exists but is not writable`);
+  if (runMode !== 'full') {
+    if (iterations > 1 || warmupIterations > 0) {
+      core.warning(`${runMode} runs a single pass; iterations and warm-up iterations are ignored`);
+    }
+    const resultName = targetResultName(`${label.toLowerCase()}-${backendName}-${runMode}`, index, count, label);
+    const singlePassConfig = { ...resultConfig, phase: runMode, iterations: 1, warmupIterations: 0 };
+    let verification: VerificationReport | undefined;
+    if (runMode === 'sharded') {
+      const sharded = await runShardedScenario(pipelineConfig, {
+        strategy: inputs.shardStrategy,
+        concurrency: inputs.shardConcurrency,
+      });
+      core.setOutput('generate_time', sharded.timings.generateMs);
+      core.setOutput('save_time', sharded.baseline.saveMs);
+      core.setOutput('restore_time', sharded.baseline.restoreMs);
+      core.setOutput('verify_time', sharded.timings.verifyMs);
+      core.setOutput('shard_count', sharded.shards.length);
+      core.setOutput('shard_save_time', sharded.timings.saveWallMs);
+      core.setOutput('shard_restore_time', sharded.timings.restoreWallMs);
+      core.setOutput('shard_save_speedup', sharded.speedup.save.toFixed(3));
+      core.setOutput('shard_restore_speedup', sharded.speedup.restore.toFixed(3));
+      core.setOutput('verify_report', JSON.stringify(sharded.verification));
+      writeResultDocument(resultFile, buildShardedResult(resultName, singlePassConfig, sharded));
+      verification = sharded.verification;
+    } else if (runMode === 'fallback') {
+      const fallback = await runFallbackScenario(pipelineConfig, {
+        generations: inputs.fallbackGenerations,
+        rates: inputs.changeRates,
+      });
+      core.setOutput('cache_key', fallback.matchedKey);
+      core.setOutput('generate_time', fallback.timings.generateMs);
+      core.setOutput('save_time', fallback.timings.saveMs[0]);
+      core.setOutput('fallback_restore_time', fallback.timings.fallbackRestoreMs);
+      core.setOutput('lookup_miss_time', fallback.timings.lookupMissMs);
+      core.setOutput('restore_miss_time', fallback.timings.restoreMissMs);
+      core.setOutput('generations_behind', fallback.generationsBehind ?? '');
+      core.setOutput('stale_files', staleFileCount(fallback));
+      core.setOutput('verify_time', fallback.timings.verifyMs);
+      core.setOutput('verify_report', JSON.stringify(fallback.verification));
+      writeResultDocument(resultFile, buildFallbackResult(resultName, singlePassConfig, fallback));
+      verification = fallback.verification;
+    } else if (runMode === 'save-only') {
+      const saved = await runSaveOnly(pipelineConfig);
+      core.setOutput('generate_time', saved.timings.generateMs);
+      core.setOutput('save_time', saved.timings.saveMs);
+      core.setOutput('dataset_fingerprint', saved.manifest.fingerprint);
+      if (saved.resources) {
+        core.setOutput('resource_usage', JSON.stringify(saved.resources));
+      }
+      if (saved.saved.sizeBytes !== undefined) {
+        core.setOutput('archive_size', saved.saved.sizeBytes);
       }
+      writeResultDocument(resultFile, buildSaveOnlyResult(resultName, singlePassConfig, saved));
+    } else {
+      const keyInput = core.getInput('key-prefix');
+      const restored = await runRestoreOnly(pipelineConfig, keyInput ? [keyInput] : []);
+      core.setOutput('cache_key', restored.restoredKey);
+      core.setOutput('restore_time', restored.timings.restoreMs);
+      core.setOutput('verify_time', restored.timings.verifyMs);
+      core.setOutput('verify_report', JSON.stringify(restored.verification));
+      if (restored.resources) {
+        core.setOutput('resource_usage', JSON.stringify(restored.resources));
+      }
+      if (restored.manifest) {
+        core.setOutput('dataset_fingerprint', restored.manifest.fingerprint);
+        core.setOutput('fingerprint_match', String(restored.fingerprintMatches));
+      }
+      writeResultDocument(resultFile, buildRestoreOnlyResult(resultName, singlePassConfig, restored));
+      verification = restored.verification;
     }
+    core.info(`Result document written to ${resultFile}`);
+    core.setOutput('result_file', resultFile);
+    return { label, resultFile, failure: verification && !verification.ok ? verification : undefined };
   }
-  throw new Error(`No tmpfs location found. Tried: ${TMPFS_CANDIDATES.join(', ')}`);
+
+  const summary = await runIterations({ ...pipelineConfig, iterations, warmupIterations });
+  logIterationSummary(summary, label);
+
+  // Set outputs for workflow: step times are medians across measured iterations
+  setIterationOutputs(summary);
+  const throughputs = summary.results.map(
+    (r) => r.generation.bytes / (1024 * 1024) / Math.max(r.generation.elapsedMs / 1000, 0.001)
+  );
+  core.setOutput('generate_throughput', summarize(throughputs).p50.toFixed(1));
+  // Retry counters are totals across measured iterations
+  const sumRetries = (step: 'save' | 'restore' | 'availability', field: 'attempts' | 'waitMs'): number =>
+    summary.results.reduce((acc, r) => acc + r.retries[step][field], 0);
+  core.setOutput('save_attempts', sumRetries('save', 'attempts'));
+  core.setOutput('save_wait_time', sumRetries('save', 'waitMs'));
+  core.setOutput('restore_attempts', sumRetries('restore', 'attempts'));
+  core.setOutput('restore_wait_time', sumRetries('restore', 'waitMs'));
+  core.setOutput('availability_attempts', sumRetries('availability', 'attempts'));
+  core.setOutput('availability_wait_time', sumRetries('availability', 'waitMs'));
+
+  const archiveSizes = summary.results.flatMap((r) => (r.saved.sizeBytes !== undefined ? [r.saved.sizeBytes] : []));
+  if (archiveSizes.length > 0) {
+    const archiveSize = summarize(archiveSizes).p50;
+    core.setOutput('archive_size', archiveSize);
+    core.setOutput('compression_ratio', (summary.results[0].generation.bytes / Math.max(archiveSize, 1)).toFixed(3));
+  }
+
+  const ratios = summary.results.flatMap((r) => (r.incremental ? [r.incremental.saveRatio] : []));
+  if (ratios.length > 0) {
+    core.setOutput('resave_ratio', summarize(ratios).p50.toFixed(3));
+  }
+
+  const resultDoc = buildCacheResult(
+    targetResultName(`${label.toLowerCase()}-${backendName}`, index, count, label),
+    resultConfig,
+    summary
+  );
+  writeResultDocument(resultFile, resultDoc);
+  core.info(`Result document written to ${resultFile}`);
+  core.setOutput('result_file', resultFile);
+
+  const result = summary.failed ?? summary.results[summary.results.length - 1];
+  if (result.metadata) {
+    core.setOutput('metadata_report', JSON.stringify(result.metadata));
+  }
+  if (result.resources) {
+    core.setOutput('resource_usage', JSON.stringify(result.resources));
+  }
+  const failure = failedVerification(result);
+  core.setOutput('verify_report', JSON.stringify(failure ?? result.incremental?.verification ?? result.verification));
+  return { label, resultFile, failure };
 }
 
 async function run(): Promise<void> {
   try {
-    // Read inputs
-    const sizeGb = parseInt(core.getInput('size-gb') || '8', 10);
-    if (sizeGb < 1 || sizeGb > 10) {
-      throw new Error('size-gb must be between 1 and 10');
+    const inputs = readInputs();
+    if (inputs.runMode === 'restore-only' && !core.getInput('cache-key') && !core.getInput('key-prefix')) {
+      throw new Error('restore-only mode needs a cache-key or key-prefix input');
     }
 
+    // use-tmpfs is shorthand for keeping both the files and the archive temp dir in tmpfs
     const useTmpfs = core.getInput('use-tmpfs') === 'true';
-    
-    // Determine paths based on tmpfs setting
-    let filesPath: string;
-    let originalRunnerTemp: string | undefined;
-
-    if (useTmpfs) {
-      const tmpfsDir = findTmpfsLocation();
-      const tmpfsRunnerTemp = path.join(tmpfsDir, 'runner-temp');
-      const tmpfsFilesRoot = path.join(tmpfsDir, 'cache-benchmark');
-      
-      core.info('=== TMPFS MODE ENABLED ===');
-      core.info(`Detected tmpfs at: ${tmpfsDir}`);
-      core.info(`Archive temp dir (RUNNER_TEMP): ${tmpfsRunnerTemp}`);
-      core.info(`Files dir (tmpfs): ${tmpfsFilesRoot}`);
-      core.info('Files and archive I/O in tmpfs - testing upload/download from memory');
-      
-      // Create RUNNER_TEMP in tmpfs for archive operations
-      if (!fs.existsSync(tmpfsRunnerTemp)) {
-        fs.mkdirSync(tmpfsRunnerTemp, { recursive: true });
-      }
-      if (!fs.existsSync(tmpfsFilesRoot)) {
-        fs.mkdirSync(tmpfsFilesRoot, { recursive: true });
-      }
-      originalRunnerTemp = process.env['RUNNER_TEMP'];
-      process.env['RUNNER_TEMP'] = tmpfsRunnerTemp;
-      core.info(`RUNNER_TEMP overridden: ${originalRunnerTemp} -> ${tmpfsRunnerTemp}`);
-      
-      filesPath = path.join(tmpfsFilesRoot, 'files');
-    } else {
-      const workDir = process.cwd();
-      filesPath = path.join(workDir, 'files');
+    const filesDirs = parseTargetList(core.getInput('files-dirs'));
+    const runnerTempDirs = parseTargetList(core.getInput('runner-temp-dirs'));
+    const targets = resolveStorageTargets(
+      filesDirs.length > 0 || !useTmpfs ? filesDirs : ['tmpfs'],
+      runnerTempDirs.length > 0 || !useTmpfs ? runnerTempDirs : ['tmpfs']
+    );
+    if (targets.length > 1 && core.getInput('cache-key')) {
+      throw new Error('cache-key names a single entry; leave it empty to benchmark several storage targets');
     }
 
-    // Use unique key per workflow run to ensure fresh save/restore
-    // GITHUB_RUN_ID + GITHUB_RUN_ATTEMPT ensures uniqueness even for re-runs
-    const runId = process.env['GITHUB_RUN_ID'];
-    const runAttempt = process.env['GITHUB_RUN_ATTEMPT'] || '1';
-    const uniqueKey = runId ? `${runId}-${runAttempt}` : `local-${Date.now()}`;
-    
-    const cacheKey = useTmpfs 
-      ? `tmpfs-${sizeGb}gb-${uniqueKey}`
-      : `disk-${sizeGb}gb-${uniqueKey}`;
-    
-    core.info('=== Configuration ===');
-    core.info(`Size: ${sizeGb}GB`);
-    core.info(`Mode: ${useTmpfs ? 'TMPFS' : 'DISK'}`);
-    core.info(`Cache key: ${cacheKey}`);
-    core.info(`Files path: ${filesPath}`);
-    core.info(`RUNNER_TEMP: ${process.env['RUNNER_TEMP']}`);
-    core.info(`GITHUB_RUN_ID: ${process.env['GITHUB_RUN_ID']}`);
-    core.info(`GITHUB_RUN_ATTEMPT: ${process.env['GITHUB_RUN_ATTEMPT']}`);
-    core.info(`GITHUB_WORKSPACE: ${process.env['GITHUB_WORKSPACE']}`);
-    core.info(`cwd: ${process.cwd()}`);
-    core.info('====================');
-
-    // Step 1: Generate the file hierarchy
-    core.startGroup(`Step 1: Generate ${sizeGb}GB file hierarchy`);
-    const genStart = Date.now();
-    await generateFileHierarchy(filesPath, sizeGb);
-    const genTimeMs = Date.now() - genStart;
-    core.info(`[${genTimeMs}ms] Generation complete`);
-    core.endGroup();
-
-    // Step 2: Save to cache
-    core.startGroup('Step 2: Save to cache');
-    const saveStart = Date.now();
-    const cacheId = await saveCacheWithRetry([filesPath], cacheKey);
-    const saveTimeMs = Date.now() - saveStart;
-    if (cacheId === -1) {
-      core.warning('Cache save returned -1 (cache may already exist)');
-    } else {
-      core.info(`Cache saved with ID: ${cacheId}`);
-    }
-    core.info(`[${saveTimeMs}ms] Cache save complete`);
-    core.endGroup();
-
-    // Ensure cache is available before deleting local files
-    core.startGroup('Step 2b: Wait for cache availability');
-    await waitForCacheAvailability([filesPath], cacheKey);
-    core.endGroup();
-
-    // Step 3: Delete the directory
-    core.startGroup('Step 3: Delete file hierarchy');
-    const deleteStart = Date.now();
-    await deleteFileHierarchy(filesPath);
-    const deleteTimeMs = Date.now() - deleteStart;
-    core.info(`[${deleteTimeMs}ms] Deletion complete`);
-    core.endGroup();
-
-    // Step 4: Restore from cache
-    core.startGroup('Step 4: Restore from cache');
-    const restoreStart = Date.now();
-    const restoredKey = await restoreCacheWithRetry([filesPath], cacheKey);
-    const restoreTimeMs = Date.now() - restoreStart;
-    if (!restoredKey) {
-      throw new Error('Cache restore failed - no matching cache found');
-    }
-    core.info(`Cache restored with key: ${restoredKey}`);
-    core.info(`[${restoreTimeMs}ms] Cache restore complete`);
-    core.endGroup();
-
-    // Step 5: Verify restoration
-    core.startGroup('Step 5: Verify restored data');
-    const verifyStart = Date.now();
-    const verified = await verifyFileHierarchy(filesPath, sizeGb);
-    const verifyTimeMs = Date.now() - verifyStart;
-    if (!verified) {
-      throw new Error('Verification failed - restored data does not match expected structure');
-    }
-    core.info(`[${verifyTimeMs}ms] Verification complete`);
-    core.endGroup();
-
-    // Summary
-    core.info('');
-    core.info('=== Benchmark Summary ===');
-    core.info(`Mode:               ${useTmpfs ? 'TMPFS' : 'DISK'}`);
-    core.info(`Generation time:    ${genTimeMs}ms`);
-    core.info(`Cache save time:    ${saveTimeMs}ms`);
-    core.info(`Deletion time:      ${deleteTimeMs}ms`);
-    core.info(`Cache restore time: ${restoreTimeMs}ms`);
-    core.info(`Verification time:  ${verifyTimeMs}ms`);
-    core.info(`Total time:         ${genTimeMs + saveTimeMs + deleteTimeMs + restoreTimeMs + verifyTimeMs}ms`);
-    core.info('=========================');
-
-    // Set outputs for workflow
-    core.setOutput('generate_time', genTimeMs);
-    core.setOutput('save_time', saveTimeMs);
-    core.setOutput('delete_time', deleteTimeMs);
-    core.setOutput('restore_time', restoreTimeMs);
-    core.setOutput('verify_time', verifyTimeMs);
-    core.setOutput('total_time', genTimeMs + saveTimeMs + deleteTimeMs + restoreTimeMs + verifyTimeMs);
-
-    // Cleanup: restore RUNNER_TEMP if we modified it
-    if (useTmpfs && originalRunnerTemp !== undefined) {
-      process.env['RUNNER_TEMP'] = originalRunnerTemp;
-      core.info(`RUNNER_TEMP restored to: ${originalRunnerTemp}`);
+    const detected = preflight(inputs, targets);
+
+    const outcomes: TargetOutcome[] = [];
+    for (const [index, target] of detected.entries()) {
+      // Everything a target created is gone before the next one starts, even when it fails or is interrupted
+      const cleanup = new CleanupRegistry();
+      cleanup.handleSignals();
+      let outcome: TargetOutcome | undefined;
+      try {
+        outcome = await runTarget(inputs, target, index, detected.length, cleanup);
+        outcomes.push(outcome);
+      } finally {
+        cleanup.run(!outcome || outcome.failure !== undefined);
+        cleanup.releaseSignals();
+      }
     }
+    core.setOutput(
+      'storage_targets',
+      JSON.stringify(outcomes.map(({ label, resultFile, failure }) => ({ label, resultFile, ok: !failure })))
+    );
 
+    const failed = outcomes.filter((outcome) => outcome.failure);
+    if (failed.length > 0) {
+      throw new Error(
+        `Verification failed - ${failed
+          .map((outcome) => `${outcome.label}: ${summarizeVerificationReport(outcome.failure!)}`)
+          .join('; ')}`
+      );
+    }
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(error.message);
@@ -253,4 +533,7 @@ async function run(): Promise<void> {
   }
 }
 
-run();
+// The bundled action doubles as the file worker script, so only the main thread runs the benchmark
+if (isMainThread) {
+  run();
+}
@@ -0,0 +1,36 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { IterationConfig, runIterations } from './iterations';
+import { DatasetProfile, FULL_METADATA } from './profiles';
+import { tinyPipelineConfig, TINY_PROFILE } from './test-helpers';
+
+function iterationConfig(name: string, profile: DatasetProfile): IterationConfig {
+  return { ...tinyPipelineConfig(name, profile), iterations: 2, warmupIterations: 1 };
+}
+
+describe('runIterations', () => {
+  test('every iteration starts from an empty tree when the profile adds metadata', async () => {
+    const summary = await runIterations(iterationConfig('metadata', { ...TINY_PROFILE, metadata: FULL_METADATA }));
+    assert.equal(summary.failed, undefined);
+    assert.equal(summary.results.length, 2);
+    for (const result of summary.results) {
+      assert.equal(result.verification.ok, true);
+      assert.equal(result.verification.counts.extra, 0);
+      assert.ok(result.generation.metadata!.symlink > 0);
+    }
+  });
+
+  test('files added by the incremental run do not leak into the next iteration', async () => {
+    const config = iterationConfig('incremental', TINY_PROFILE);
+    config.incremental = { generation: 2, rates: { modify: 0.1, append: 0.1, delete: 0.05, add: 0.1 } };
+    const summary = await runIterations(config);
+    assert.equal(summary.failed, undefined);
+    assert.equal(summary.results.length, 2);
+    for (const result of summary.results) {
+      assert.equal(result.verification.ok, true);
+      assert.equal(result.incremental!.verification.ok, true);
+      assert.ok(result.incremental!.mutation.counts.add > 0);
+    }
+    assert.equal(summary.values.resave.length, 2);
+  });
+});
@@ -0,0 +1,142 @@
+import * as core from '@actions/core';
+import { failedVerification, PipelineConfig, PipelineResult, PipelineTimings, runPipeline } from './pipeline';
+import { actionsLogger, Logger } from './progress';
+import { SampleStats, summarize } from './stats';
+
+/**
+ * Timings aggregated across iterations. The *_net entries exclude time spent
+ * waiting between retries; mutate and resave* only exist for incremental runs.
+ */
+export const ITERATION_METRICS = [
+  'generate',
+  'save',
+  'save_net',
+  'delete',
+  'restore',
+  'restore_net',
+  'verify',
+  'total',
+  'mutate',
+  'resave',
+  'resave_restore',
+] as const;
+export type IterationMetric = (typeof ITERATION_METRICS)[number];
+
+export interface IterationConfig extends PipelineConfig {
+  // Measured iterations
+  iterations: number;
+  // Iterations run first and left out of the statistics
+  warmupIterations: number;
+}
+
+export interface IterationSummary {
+  // Measured iterations only, in order. Stops at the first failed verification.
+  results: PipelineResult[];
+  warmupCount: number;
+  // Raw per-iteration values in milliseconds
+  values: Record<IterationMetric, number[]>;
+  stats: Record<IterationMetric, SampleStats>;
+  // The first failed iteration, if any
+  failed?: PipelineResult;
+}
+
+function metricValues(result: PipelineResult): Partial<Record<IterationMetric, number>> {
+  const t: PipelineTimings = result.timings;
+  const incremental = result.incremental && {
+    mutate: result.incremental.timings.mutateMs,
+    resave: result.incremental.timings.saveMs,
+    resave_restore: result.incremental.timings.restoreMs,
+  };
+  return {
+    ...incremental,
+    generate: t.generateMs,
+    save: t.saveMs,
+    save_net: t.saveMs - result.retries.save.waitMs,
+    delete: t.deleteMs,
+    restore: t.restoreMs,
+    restore_net: t.restoreMs - result.retries.restore.waitMs,
+    verify: t.verifyMs,
+    total: t.totalMs,
+  };
+}
+
+/**
+ * Run warm-up and measured pipeline iterations, each under its own cache key
+ * (`<cacheKey>-warmup-N` and `<cacheKey>-N`), and aggregate the timings
+ */
+export async function runIterations(config: IterationConfig): Promise<IterationSummary> {
+  const values = Object.fromEntries(ITERATION_METRICS.map((m) => [m, [] as number[]])) as Record<
+    IterationMetric,
+    number[]
+  >;
+  const results: PipelineResult[] = [];
+  const total = config.warmupIterations + config.iterations;
+  let failed: PipelineResult | undefined;
+  const logger = config.logger ?? actionsLogger;
+
+  for (let i = 0; i < total; i++) {
+    const warmup = i < config.warmupIterations;
+    const n = warmup ? i + 1 : i - config.warmupIterations + 1;
+    const cacheKey = warmup ? `${config.cacheKey}-warmup-${n}` : `${config.cacheKey}-${n}`;
+    logger.info('');
+    logger.info(`##### ${warmup ? 'Warm-up' : 'Iteration'} ${n}/${warmup ? config.warmupIterations : config.iterations} (key ${cacheKey}) #####`);
+
+    const result = await runPipeline({ ...config, cacheKey });
+    if (failedVerification(result)) {
+      failed = result;
+      break;
+    }
+    if (warmup) continue;
+
+    results.push(result);
+    const iterationValues = metricValues(result);
+    for (const metric of ITERATION_METRICS) {
+      const value = iterationValues[metric];
+      if (value !== undefined) values[metric].push(value);
+    }
+  }
+
+  const stats = Object.fromEntries(ITERATION_METRICS.map((m) => [m, summarize(values[m])])) as Record<
+    IterationMetric,
+    SampleStats
+  >;
+  return { results, warmupCount: config.warmupIterations, values, stats, failed };
+}
+
+/**
+ * Print min/mean/median/p95/stddev per step, followed by the raw values
+ */
+export function logIterationSummary(summary: IterationSummary, label: string, logger: Logger = actionsLogger): void {
+  const fmt = (v: number): string => v.toFixed(0).padStart(9);
+  logger.info('');
+  logger.info(`=== Iteration Summary (${label}: ${summary.results.length} measured, ${summary.warmupCount} warm-up) ===`);
+  logger.info(`${'Step'.padEnd(16)}${['min', 'mean', 'median', 'p95', 'stddev'].map((h) => h.padStart(9)).join('')}  values (ms)`);
+  for (const metric of ITERATION_METRICS) {
+    const s = summary.stats[metric];
+    if (s.count === 0) continue;
+    logger.info(
+      `${metric.padEnd(16)}${[s.min, s.mean, s.p50, s.p95, s.stddev].map(fmt).join('')}  ${summary.values[metric].join(', ')}`
+    );
+  }
+  logger.info('='.repeat(60));
+}
+
+/**
+ * Set `<metric>_time` to the median and add _min, _mean, _median, _p95,
+ * _stddev and _values (JSON array) alongside it. Metrics without samples are skipped.
+ */
+export function setIterationOutputs(summary: IterationSummary): void {
+  for (const metric of ITERATION_METRICS) {
+    const s = summary.stats[metric];
+    if (s.count === 0) continue;
+    const name = `${metric}_time`;
+    core.setOutput(name, Math.round(s.p50));
+    core.setOutput(`${name}_min`, Math.round(s.min));
+    core.setOutput(`${name}_mean`, Math.round(s.mean));
+    core.setOutput(`${name}_median`, Math.round(s.p50));
+    core.setOutput(`${name}_p95`, Math.round(s.p95));
+    core.setOutput(`${name}_stddev`, s.stddev.toFixed(1));
+    core.setOutput(`${name}_values`, JSON.stringify(summary.values[metric]));
+  }
+  core.setOutput('iterations', summary.results.length);
+}
@@ -1,94 +1,158 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
-import { generateFileHierarchy, deleteFileHierarchy, verifyFileHierarchy } from './generate';
+import { createBackend, isStreamingBackend } from './backend';
+import { runPipeline } from './pipeline';
+import {
+  BUILTIN_CONTENT,
+  ContentSpec,
+  contentTag,
+  DatasetProfile,
+  planDataset,
+  profileTag,
+  resolveContent,
+  resolveMetadata,
+  resolveProfile,
+} from './profiles';
+import { consoleLogger } from './progress';
+import { datasetTarStream, verifyTarStream } from './tar-stream';
+import { logResourceUsage, StepTelemetry } from './telemetry';
+import { logVerificationReport, summarizeVerificationReport, verifyFileHierarchy } from './verify';
 
 const FILES_DIR = 'files';
-const CACHE_FILE = 'cache-benchmark.tar.zst';
+const STORE_DIR = 'cache-store';
 const SIZE_GB = 8; // Default size, can be changed for testing
+const PROFILE = resolveProfile(process.argv[2]); // Builtin name, inline JSON or .json path
+const BACKEND = process.argv[3] || 'tar-zstd'; // tar-zstd (same format as GitHub) or directory
+const CONTENT = process.argv[4] || 'random'; // Builtin content, inline JSON or "all" to compare every builtin
+const METADATA = resolveMetadata(process.argv[5] || ''); // "all", a list of metadata kinds or inline JSON
+const VIRTUAL = process.argv[6] === 'virtual'; // Stream the dataset from its seeds into the archive instead of writing files
 
 function log(msg: string): void {
   console.log(`[${new Date().toISOString()}] ${msg}`);
 }
 
-async function run(): Promise<void> {
+/**
+ * Run the pipeline once with the given content. Returns the archive size when the backend reports it.
+ */
+async function runContent(content: ContentSpec): Promise<number | undefined> {
   const workDir = process.cwd();
   const filesPath = path.join(workDir, FILES_DIR);
-  const cachePath = path.join(workDir, CACHE_FILE);
+  const storePath = path.join(workDir, STORE_DIR);
+  const profile = { ...PROFILE, content, ...(METADATA ? { metadata: METADATA } : {}) };
 
   // Clean up any previous runs
   if (fs.existsSync(filesPath)) {
     log('Cleaning up previous files directory...');
     fs.rmSync(filesPath, { recursive: true, force: true });
   }
-  if (fs.existsSync(cachePath)) {
-    log('Cleaning up previous cache file...');
-    fs.unlinkSync(cachePath);
+  if (fs.existsSync(storePath)) {
+    log('Cleaning up previous cache store...');
+    fs.rmSync(storePath, { recursive: true, force: true });
   }
 
-  // Step 1: Generate the file hierarchy
-  log(`=== Step 1: Generate ${SIZE_GB}GB file hierarchy ===`);
-  const genStart = Date.now();
-  await generateFileHierarchy(filesPath, SIZE_GB);
-  const genTime = (Date.now() - genStart) / 1000;
-  log(`Generation took ${genTime.toFixed(1)}s`);
+  if (VIRTUAL) {
+    const sizeBytes = await runVirtual(profile, filesPath, storePath);
+    fs.rmSync(filesPath, { recursive: true, force: true });
+    fs.rmSync(storePath, { recursive: true, force: true });
+    return sizeBytes;
+  }
 
-  // Step 2: Save to "cache" (tar with zstd compression - same as GitHub)
-  log('=== Step 2: Create cache archive (tar + zstd) ===');
-  const saveStart = Date.now();
-  execSync(`tar --use-compress-program=zstd -cf "${cachePath}" -C "${workDir}" "${FILES_DIR}"`, {
-    stdio: 'inherit',
+  const result = await runPipeline({
+    backend: createBackend(BACKEND, storePath),
+    filesPath,
+    cacheKey: `local-${profileTag(profile)}-${contentTag(content)}-${SIZE_GB}gb`,
+    sizeGb: SIZE_GB,
+    profile,
+    label: 'LOCAL',
+    logger: consoleLogger,
   });
-  const saveTime = (Date.now() - saveStart) / 1000;
-  const cacheSize = fs.statSync(cachePath).size;
-  const cacheSizeGB = cacheSize / (1024 * 1024 * 1024);
-  log(`Cache save took ${saveTime.toFixed(1)}s (archive size: ${cacheSizeGB.toFixed(2)} GB)`);
+  if (!result.verification.ok) {
+    throw new Error(`Verification failed: ${summarizeVerificationReport(result.verification)}`);
+  }
 
-  // Step 3: Delete the directory
-  log('=== Step 3: Delete file hierarchy ===');
-  const deleteStart = Date.now();
-  await deleteFileHierarchy(filesPath);
-  const deleteTime = (Date.now() - deleteStart) / 1000;
-  log(`Deletion took ${deleteTime.toFixed(1)}s`);
+  // Cleanup
+  log('Cleaning up...');
+  fs.rmSync(filesPath, { recursive: true, force: true });
+  fs.rmSync(storePath, { recursive: true, force: true });
+  return result.saved.sizeBytes;
+}
 
-  // Step 4: Restore from "cache"
-  log('=== Step 4: Restore from cache archive ===');
-  const restoreStart = Date.now();
-  execSync(`tar --use-compress-program=zstd -xf "${cachePath}" -C "${workDir}"`, {
-    stdio: 'inherit',
-  });
-  const restoreTime = (Date.now() - restoreStart) / 1000;
-  log(`Cache restore took ${restoreTime.toFixed(1)}s`);
+function mbPerSec(bytes: number, ms: number): string {
+  return (bytes / (1024 * 1024) / Math.max(ms / 1000, 0.001)).toFixed(1);
+}
 
-  // Step 5: Verify restoration
-  log('=== Step 5: Verify restored data ===');
-  const verifyStart = Date.now();
-  const verified = await verifyFileHierarchy(filesPath, SIZE_GB);
-  const verifyTime = (Date.now() - verifyStart) / 1000;
-  if (!verified) {
-    throw new Error('Verification failed!');
+/**
+ * Archive the dataset straight from its seeds, verify the archive as a
+ * stream, then extract it with tar and verify the files when they fit on disk
+ */
+async function runVirtual(profile: DatasetProfile, filesPath: string, storePath: string): Promise<number | undefined> {
+  const backend = createBackend(BACKEND, storePath);
+  if (!isStreamingBackend(backend)) {
+    throw new Error(`The ${BACKEND} backend cannot store archive streams; use tar-zstd`);
+  }
+  if (profile.metadata) {
+    log('Virtual datasets hold regular files and directories only; ignoring metadata');
+    profile = { ...profile, metadata: undefined };
   }
-  log(`Verification took ${verifyTime.toFixed(1)}s`);
+  const plan = planDataset(profile, SIZE_GB);
+  const key = `local-virtual-${profileTag(profile)}-${contentTag(profile.content)}-${SIZE_GB}gb`;
+  // Stored the way the tar backend stores real paths, so restoring extracts to filesPath
+  const root = path.relative('/', filesPath);
+  const telemetry = new StepTelemetry();
 
-  // Summary
-  console.log('');
-  console.log('========================================');
-  console.log('         BENCHMARK SUMMARY');
-  console.log('========================================');
-  console.log(`Generation time:    ${genTime.toFixed(1)}s`);
-  console.log(`Cache save time:    ${saveTime.toFixed(1)}s`);
-  console.log(`Cache archive size: ${cacheSizeGB.toFixed(2)} GB`);
-  console.log(`Deletion time:      ${deleteTime.toFixed(1)}s`);
-  console.log(`Cache restore time: ${restoreTime.toFixed(1)}s`);
-  console.log(`Verification time:  ${verifyTime.toFixed(1)}s`);
-  console.log('----------------------------------------');
-  console.log(`Total time:         ${(genTime + saveTime + deleteTime + restoreTime + verifyTime).toFixed(1)}s`);
-  console.log('========================================');
+  let start = Date.now();
+  let endSample = telemetry.begin('archive');
+  const saved = await backend.saveStream(datasetTarStream(plan, { root }), key);
+  endSample();
+  let ms = Date.now() - start;
+  log(`Streamed ${plan.files.length} files into ${saved.id} in ${ms}ms (${mbPerSec(plan.totalBytes, ms)} MB/s)`);
 
-  // Cleanup
-  log('Cleaning up...');
-  fs.rmSync(filesPath, { recursive: true, force: true });
-  fs.unlinkSync(cachePath);
+  start = Date.now();
+  endSample = telemetry.begin('verify_stream');
+  const streamed = await verifyTarStream(backend.openStream(key)!, plan, { root });
+  endSample();
+  ms = Date.now() - start;
+  log(`Verified the archive stream in ${ms}ms (${mbPerSec(plan.totalBytes, ms)} MB/s)`);
+  logVerificationReport(streamed, consoleLogger);
+  if (!streamed.ok) {
+    throw new Error(`Stream verification failed: ${summarizeVerificationReport(streamed)}`);
+  }
+
+  const { bavail, bsize } = fs.statfsSync(path.dirname(filesPath));
+  if (bavail * bsize < plan.totalBytes * 1.1) {
+    log('Not enough free disk space to extract the archive; skipping the extraction check');
+    logResourceUsage(telemetry.result(), consoleLogger);
+    return saved.sizeBytes;
+  }
+  start = Date.now();
+  endSample = telemetry.begin('extract');
+  await backend.restore([filesPath], key);
+  endSample();
+  log(`Extracted with tar in ${Date.now() - start}ms`);
+  endSample = telemetry.begin('verify');
+  const extracted = await verifyFileHierarchy(filesPath, SIZE_GB, profile, { logger: consoleLogger });
+  endSample();
+  if (!extracted.ok) {
+    throw new Error(`Verification of the extracted files failed: ${summarizeVerificationReport(extracted)}`);
+  }
+  logResourceUsage(telemetry.result(), consoleLogger);
+  return saved.sizeBytes;
+}
+
+async function run(): Promise<void> {
+  const contents = CONTENT === 'all' ? Object.values(BUILTIN_CONTENT) : [resolveContent(CONTENT)];
+  const sizes: string[] = [];
+  for (const content of contents) {
+    const sizeBytes = await runContent(content);
+    sizes.push(
+      `${contentTag(content).padEnd(20)} ${sizeBytes === undefined ? 'n/a' : `${(sizeBytes / (1024 * 1024)).toFixed(1)} MB`}`
+    );
+  }
+
+  log('Archive size per content mode:');
+  for (const line of sizes) {
+    log(`  ${line}`);
+  }
   log('Done!');
 }
 
@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileSegments } from './content';
+import { ChangeRates } from './mutation';
+import { DatasetPlan, DatasetProfile } from './profiles';
+import { collectRunInfo, collectRunnerInfo, RunInfo, RunnerInfo } from './results';
+
+/**
+ * Saved inside the dataset directory so a job that restores it knows what to verify against
+ */
+export const MANIFEST_FILE = '.dataset-manifest.json';
+
+export const MANIFEST_SCHEMA_VERSION = 1;
+
+/**
+ * What a saved dataset was generated from, and where
+ */
+export interface DatasetManifest {
+  schemaVersion: typeof MANIFEST_SCHEMA_VERSION;
+  fingerprint: string;
+  profile: DatasetProfile;
+  sizeGb: number;
+  // Rounds of changes applied after generation
+  generation: number;
+  changeRates?: ChangeRates;
+  files: number;
+  bytes: number;
+  cacheKey: string;
+  createdAt: string;
+  run: RunInfo;
+  runner: RunnerInfo;
+}
+
+/**
+ * Hash of everything that determines a dataset's files, content and
+ * metadata. Profile names are left out, so renaming a profile keeps its fingerprint.
+ */
+export function datasetFingerprint(plan: DatasetPlan): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(JSON.stringify({ content: plan.profile.content ?? null, metadata: plan.profile.metadata ?? null }));
+  for (const file of plan.files) {
+    const segments = fileSegments(file).map((s) => `${s.seed}:${s.offset}:${s.size}`);
+    hash.update(`\n${file.relativePath}\0${file.size}\0${segments.join(',')}`);
+  }
+  return hash.digest('hex');
+}
+
+export function buildManifest(
+  plan: DatasetPlan,
+  sizeGb: number,
+  cacheKey: string,
+  generation = 0,
+  changeRates?: ChangeRates
+): DatasetManifest {
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    fingerprint: datasetFingerprint(plan),
+    profile: plan.profile,
+    sizeGb,
+    generation,
+    changeRates,
+    files: plan.files.length,
+    bytes: plan.totalBytes,
+    cacheKey,
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    runner: collectRunnerInfo(),
+  };
+}
+
+export function writeManifest(baseDir: string, manifest: DatasetManifest): void {
+  fs.writeFileSync(path.join(baseDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Read the manifest of a restored dataset. Resolves to undefined when the
+ * dataset has none, e.g. because it was saved by a full run.
+ */
+export function readManifest(baseDir: string): DatasetManifest | undefined {
+  const manifestPath = path.join(baseDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  return parseManifest(fs.readFileSync(manifestPath, 'utf8'), manifestPath);
+}
+
+/**
+ * Parse a manifest read from elsewhere, e.g. from inside an image; source names it in errors
+ */
+export function parseManifest(text: string, source: string): DatasetManifest {
+  const manifest = JSON.parse(text) as DatasetManifest;
+  if (manifest.schemaVersion !== MANIFEST_SCHEMA_VERSION) {
+    throw new Error(
+      `${source}: unsupported manifest schema version ${manifest.schemaVersion} (expected ${MANIFEST_SCHEMA_VERSION})`
+    );
+  }
+  return manifest;
+}
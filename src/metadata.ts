@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { actionsLogger, Logger } from './progress';
+import { DatasetPlan, FileSpec, getFileSeed, MetadataSpec } from './profiles';
+import { SeededRandom } from './seeded-random';
+
+const METADATA_SALT = 0x4d455441;
+const XATTR_NAME = 'user.benchmark';
+
+// Seeded mtimes fall within three years after this date, in whole seconds
+const MTIME_BASE_SECONDS = Date.UTC(2020, 0, 1) / 1000;
+const MTIME_SPAN_SECONDS = 3 * 365 * 24 * 60 * 60;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A single metadata change applied after the files are written
+ */
+export type MetadataOp =
+  | { kind: 'executable'; relativePath: string }
+  | { kind: 'symlink'; relativePath: string; target: string }
+  | { kind: 'hardlink'; relativePath: string; target: string }
+  | { kind: 'mtime'; relativePath: string; mtimeSeconds: number }
+  | { kind: 'xattr'; relativePath: string; value: string }
+  | { kind: 'emptyDir'; relativePath: string };
+
+export type MetadataCounts = Record<MetadataOp['kind'], number>;
+
+function linkName(file: FileSpec, extension: string): string {
+  const parsed = path.parse(file.relativePath);
+  return path.join(parsed.dir, `${parsed.name}${extension}`);
+}
+
+/**
+ * Work out the metadata to add to a generated dataset. Decisions come from
+ * each file's seed, so the same plan always gets the same metadata.
+ */
+export function planMetadata(plan: DatasetPlan, spec: MetadataSpec): MetadataOp[] {
+  const ops: MetadataOp[] = [];
+  for (const file of plan.files) {
+    const rng = new SeededRandom(file.seed ^ METADATA_SALT);
+    const roll = (): number => rng.nextUint32() / 0x100000000;
+    if (roll() < (spec.executable ?? 0)) {
+      ops.push({ kind: 'executable', relativePath: file.relativePath });
+    }
+    if (roll() < (spec.symlinks ?? 0)) {
+      ops.push({ kind: 'symlink', relativePath: linkName(file, '.link'), target: path.basename(file.relativePath) });
+    }
+    if (roll() < (spec.hardlinks ?? 0)) {
+      ops.push({ kind: 'hardlink', relativePath: linkName(file, '.hardlink'), target: file.relativePath });
+    }
+    if (roll() < (spec.xattrs ?? 0)) {
+      ops.push({ kind: 'xattr', relativePath: file.relativePath, value: rng.nextUint32().toString(16) });
+    }
+    if (spec.mtimes) {
+      ops.push({
+        kind: 'mtime',
+        relativePath: file.relativePath,
+        mtimeSeconds: MTIME_BASE_SECONDS + (rng.nextUint32() % MTIME_SPAN_SECONDS),
+      });
+    }
+  }
+
+  const rng = new SeededRandom(getFileSeed([METADATA_SALT], 0));
+  for (let i = 0; i < (spec.emptyDirs ?? 0) && plan.directories.length > 0; i++) {
+    const parent = plan.directories[rng.nextUint32() % plan.directories.length];
+    ops.push({ kind: 'emptyDir', relativePath: path.join(parent, `empty_${i}`) });
+  }
+  return ops;
+}
+
+/**
+ * Paths that metadata ops add to the tree besides the planned files
+ */
+export function metadataPaths(ops: MetadataOp[]): string[] {
+  return ops.flatMap((op) =>
+    op.kind === 'symlink' || op.kind === 'hardlink' || op.kind === 'emptyDir' ? [op.relativePath] : []
+  );
+}
+
+/**
+ * Set xattrs with a single setfattr --restore call. Resolves to false when
+ * setfattr is missing or the filesystem does not support user xattrs.
+ */
+async function writeXattrs(
+  baseDir: string,
+  ops: Extract<MetadataOp, { kind: 'xattr' }>[],
+  logger: Logger
+): Promise<boolean> {
+  if (ops.length === 0) {
+    return true;
+  }
+  const dump = ops.map((op) => `# file: ${op.relativePath}\n${XATTR_NAME}="${op.value}"\n`).join('\n');
+  const dumpFile = path.join(os.tmpdir(), `xattrs-${process.pid}-${Date.now()}.txt`);
+  fs.writeFileSync(dumpFile, dump);
+  try {
+    await execFileAsync('setfattr', [`--restore=${dumpFile}`], { cwd: baseDir });
+    return true;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stderr?: string };
+    logger.warning(
+      err.code === 'ENOENT'
+        ? 'setfattr is not installed (apt-get install attr); skipping xattrs'
+        : `Could not set xattrs, skipping them: ${(err.stderr ?? err.message).trim()}`
+    );
+    return false;
+  } finally {
+    fs.rmSync(dumpFile, { force: true });
+  }
+}
+
+/**
+ * Apply metadata ops to a freshly generated tree; links that already exist
+ * are an error, so callers start from an empty directory. Modification times
+ * are set last so creating links does not disturb them.
+ */
+export async function applyMetadata(
+  baseDir: string,
+  ops: MetadataOp[],
+  logger: Logger = actionsLogger
+): Promise<MetadataCounts> {
+  const counts: MetadataCounts = { executable: 0, symlink: 0, hardlink: 0, mtime: 0, xattr: 0, emptyDir: 0 };
+  const resolve = (relativePath: string): string => path.join(baseDir, relativePath);
+
+  for (const op of ops) {
+    switch (op.kind) {
+      case 'executable':
+        await fs.promises.chmod(resolve(op.relativePath), 0o755);
+        break;
+      case 'symlink':
+        await fs.promises.symlink(op.target, resolve(op.relativePath));
+        break;
+      case 'hardlink':
+        await fs.promises.link(resolve(op.target), resolve(op.relativePath));
+        break;
+      case 'emptyDir':
+        await fs.promises.mkdir(resolve(op.relativePath), { recursive: true });
+        break;
+      default:
+        continue;
+    }
+    counts[op.kind]++;
+  }
+
+  const xattrOps = ops.filter((op): op is Extract<MetadataOp, { kind: 'xattr' }> => op.kind === 'xattr');
+  if (await writeXattrs(baseDir, xattrOps, logger)) {
+    counts.xattr = xattrOps.length;
+  }
+
+  for (const op of ops) {
+    if (op.kind === 'mtime') {
+      await fs.promises.utimes(resolve(op.relativePath), op.mtimeSeconds, op.mtimeSeconds);
+      counts.mtime++;
+    }
+  }
+
+  const { executable, symlink, hardlink, mtime, xattr, emptyDir } = counts;
+  logger.info(
+    `Added metadata: ${executable} executable, ${symlink} symlinks, ${hardlink} hardlinks, ` +
+      `${mtime} mtimes, ${xattr} xattrs, ${emptyDir} empty dirs`
+  );
+  return counts;
+}
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { ActionsCacheBackend } from './actions-cache-backend';
+import { MockCacheServer } from './mock-cache-server';
+import { hashTree, makeTempDir } from './test-helpers';
+
+/**
+ * A few small files, with a nested directory, for the backend to archive
+ */
+function writeTree(dir: string, seed: string): void {
+  fs.mkdirSync(path.join(dir, 'nested'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'a.txt'), `alpha ${seed}\n`);
+  fs.writeFileSync(path.join(dir, 'nested', 'b.bin'), Buffer.alloc(64 * 1024, seed));
+}
+
+describe('MockCacheServer', () => {
+  const root = makeTempDir();
+  const server = new MockCacheServer({ storeDir: path.join(root, 'store') });
+  const backend = new ActionsCacheBackend();
+
+  before(async () => {
+    await server.start();
+    server.applyEnv();
+  });
+
+  after(() => server.stop());
+
+  test('saves, looks up and restores an entry through @actions/cache', async () => {
+    const filesPath = path.join(root, 'round-trip');
+    writeTree(filesPath, 'round-trip');
+    const expected = hashTree(filesPath);
+
+    const saved = await backend.save([filesPath], 'round-trip-key');
+    assert.ok(Number(saved.id) > 0);
+    assert.equal(await backend.lookup([filesPath], 'round-trip-key'), true);
+
+    fs.rmSync(filesPath, { recursive: true });
+    const downloads = server.requestCounts.download;
+    assert.equal(await backend.restore([filesPath], 'round-trip-key'), 'round-trip-key');
+    assert.equal(server.requestCounts.download, downloads + 1);
+    assert.equal(hashTree(filesPath), expected);
+  });
+
+  test('restores the newest entry matching a restore key prefix', async () => {
+    const filesPath = path.join(root, 'prefix');
+    writeTree(filesPath, 'older');
+    await backend.save([filesPath], 'prefix-gen0');
+    // Commit times are compared, so keep the second entry strictly newer
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    writeTree(filesPath, 'newer');
+    const expected = hashTree(filesPath);
+    await backend.save([filesPath], 'prefix-gen1');
+
+    fs.rmSync(filesPath, { recursive: true });
+    assert.equal(await backend.restore([filesPath], 'prefix-gen2', ['prefix-']), 'prefix-gen1');
+    assert.equal(hashTree(filesPath), expected);
+  });
+
+  test('reports a miss without downloading anything', async () => {
+    const filesPath = path.join(root, 'miss');
+    const downloads = server.requestCounts.download;
+
+    assert.equal(await backend.lookup([filesPath], 'missing-key'), false);
+    assert.equal(await backend.restore([filesPath], 'missing-key', ['missing-']), undefined);
+    assert.equal(server.requestCounts.download, downloads);
+    assert.equal(fs.existsSync(filesPath), false);
+  });
+
+  test('hides committed entries for the scripted visibility delay', async () => {
+    const filesPath = path.join(root, 'delayed');
+    writeTree(filesPath, 'delayed');
+    server.setFaults({ visibilityDelayMs: 60_000 });
+    try {
+      await backend.save([filesPath], 'delayed-key');
+      assert.equal(await backend.lookup([filesPath], 'delayed-key'), false);
+    } finally {
+      server.setFaults({});
+    }
+    assert.equal(await backend.lookup([filesPath], 'delayed-key'), true);
+  });
+});
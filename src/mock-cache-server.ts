@@ -0,0 +1,385 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+// Routes of the legacy (v1) cache service protocol spoken by @actions/cache
+export type CacheRoute = 'lookup' | 'reserve' | 'upload' | 'commit' | 'download' | 'list';
+
+/**
+ * A scripted fault. Rules are checked in order and the first one matching a
+ * request's route (and still within its window) is applied.
+ */
+export interface FaultRule {
+  route: CacheRoute | '*';
+  // Respond with this status instead of handling the request
+  status?: number;
+  // Delay before responding
+  latencyMs?: number;
+  // Downloads only: send this fraction of the archive, then end the response
+  truncateFraction?: number;
+  // Skip this many matching requests before the rule applies
+  after?: number;
+  // Apply to this many matching requests, then stop; unlimited when omitted
+  times?: number;
+}
+
+export interface FaultScript {
+  rules?: FaultRule[];
+  // Committed entries stay invisible to lookups for this long
+  visibilityDelayMs?: number;
+}
+
+interface CacheEntry {
+  id: number;
+  key: string;
+  version: string;
+  size?: number;
+  createdAt: number;
+  committedAt?: number;
+}
+
+interface RuleState {
+  rule: FaultRule;
+  seen: number;
+  applied: number;
+}
+
+export interface MockCacheServerOptions {
+  storeDir: string;
+  faults?: FaultScript;
+}
+
+/**
+ * Offline stand-in for the GitHub Actions cache service (v1 REST protocol).
+ * Blobs live on local disk; faults can be scripted up front or swapped at
+ * runtime with POST /_faults.
+ */
+export class MockCacheServer {
+  private server: http.Server | undefined;
+  private baseUrl = '';
+  private entries: CacheEntry[] = [];
+  private nextId = 1;
+  private faults: FaultScript = {};
+  private ruleStates: RuleState[] = [];
+  private savedEnv: Record<string, string | undefined> = {};
+
+  // Requests handled per route, including faulted ones
+  readonly requestCounts: Record<CacheRoute, number> = {
+    lookup: 0,
+    reserve: 0,
+    upload: 0,
+    commit: 0,
+    download: 0,
+    list: 0,
+  };
+
+  constructor(private readonly options: MockCacheServerOptions) {
+    fs.mkdirSync(options.storeDir, { recursive: true });
+    this.loadIndex();
+    this.setFaults(options.faults ?? {});
+  }
+
+  /**
+   * Replace the active fault script and reset its counters
+   */
+  setFaults(faults: FaultScript): void {
+    this.faults = faults;
+    this.ruleStates = (faults.rules ?? []).map((rule) => ({ rule, seen: 0, applied: 0 }));
+  }
+
+  /**
+   * Start listening on 127.0.0.1. Resolves to the service base URL.
+   */
+  async start(port = 0): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { message: error instanceof Error ? error.message : String(error) });
+        } else {
+          res.destroy();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    this.restoreEnv();
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Point @actions/cache at this server through its usual environment variables
+   */
+  applyEnv(): void {
+    const overrides: Record<string, string | undefined> = {
+      ACTIONS_CACHE_URL: this.baseUrl,
+      ACTIONS_RUNTIME_TOKEN: process.env['ACTIONS_RUNTIME_TOKEN'] || 'mock-cache-token',
+      // The v2 protocol uploads straight to Azure Blob Storage, which this server does not emulate
+      ACTIONS_CACHE_SERVICE_V2: undefined,
+    };
+    for (const [name, value] of Object.entries(overrides)) {
+      if (!(name in this.savedEnv)) {
+        this.savedEnv[name] = process.env[name];
+      }
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+
+  restoreEnv(): void {
+    for (const [name, value] of Object.entries(this.savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    this.savedEnv = {};
+  }
+
+  private blobPath(id: number): string {
+    return path.join(this.options.storeDir, `${id}.bin`);
+  }
+
+  private indexPath(): string {
+    return path.join(this.options.storeDir, 'index.json');
+  }
+
+  private loadIndex(): void {
+    if (fs.existsSync(this.indexPath())) {
+      this.entries = JSON.parse(fs.readFileSync(this.indexPath(), 'utf8')) as CacheEntry[];
+      this.nextId = this.entries.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+    }
+  }
+
+  private saveIndex(): void {
+    fs.writeFileSync(this.indexPath(), JSON.stringify(this.entries, null, 2));
+  }
+
+  private isVisible(entry: CacheEntry): boolean {
+    return entry.committedAt !== undefined && Date.now() - entry.committedAt >= (this.faults.visibilityDelayMs ?? 0);
+  }
+
+  /**
+   * Find the rule to apply to this request, advancing every matching rule's counters
+   */
+  private matchFault(route: CacheRoute): FaultRule | undefined {
+    let matched: FaultRule | undefined;
+    for (const state of this.ruleStates) {
+      const { rule } = state;
+      if (rule.route !== '*' && rule.route !== route) continue;
+      state.seen++;
+      if (matched) continue;
+      if (state.seen <= (rule.after ?? 0)) continue;
+      if (rule.times !== undefined && state.applied >= rule.times) continue;
+      state.applied++;
+      matched = rule;
+    }
+    return matched;
+  }
+
+  private routeOf(method: string, pathname: string): CacheRoute | undefined {
+    if (method === 'GET' && pathname === '/_apis/artifactcache/cache') return 'lookup';
+    if (method === 'GET' && pathname === '/_apis/artifactcache/caches') return 'list';
+    if (method === 'POST' && pathname === '/_apis/artifactcache/caches') return 'reserve';
+    if (method === 'PATCH' && /^\/_apis\/artifactcache\/caches\/\d+$/.test(pathname)) return 'upload';
+    if (method === 'POST' && /^\/_apis\/artifactcache\/caches\/\d+$/.test(pathname)) return 'commit';
+    if (method === 'GET' && /^\/_blobs\/\d+$/.test(pathname)) return 'download';
+    return undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const method = req.method ?? 'GET';
+
+    if (method === 'POST' && url.pathname === '/_faults') {
+      this.setFaults(JSON.parse(await readBody(req)) as FaultScript);
+      this.sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    const route = this.routeOf(method, url.pathname);
+    if (!route) {
+      this.sendJson(res, 404, { message: `No route for ${method} ${url.pathname}` });
+      return;
+    }
+    this.requestCounts[route]++;
+
+    const fault = this.matchFault(route);
+    if (fault?.latencyMs) {
+      await new Promise((resolve) => setTimeout(resolve, fault.latencyMs));
+    }
+    if (fault?.status) {
+      // Drain the body so the client sees the status rather than a reset socket
+      req.resume();
+      if (fault.status === 429) {
+        res.setHeader('Retry-After', '1');
+      }
+      this.sendJson(res, fault.status, { message: `Injected fault: ${fault.status}` });
+      return;
+    }
+
+    const id = Number(url.pathname.split('/').pop());
+    switch (route) {
+      case 'lookup':
+        return this.handleLookup(url, res);
+      case 'list':
+        return this.handleList(url, res);
+      case 'reserve':
+        return this.handleReserve(req, res);
+      case 'upload':
+        return this.handleUpload(id, req, res);
+      case 'commit':
+        return this.handleCommit(id, req, res);
+      case 'download':
+        return this.handleDownload(id, res, fault?.truncateFraction);
+    }
+  }
+
+  private handleLookup(url: URL, res: http.ServerResponse): void {
+    const keys = (url.searchParams.get('keys') ?? '').split(',').filter(Boolean);
+    const version = url.searchParams.get('version') ?? '';
+    const candidates = this.entries
+      .filter((e) => e.version === version && this.isVisible(e))
+      .sort((a, b) => (b.committedAt ?? 0) - (a.committedAt ?? 0));
+
+    // Same order as the real service: exact match first, then newest prefix match, per key
+    for (const key of keys) {
+      const hit = candidates.find((e) => e.key === key) ?? candidates.find((e) => e.key.startsWith(key));
+      if (hit) {
+        this.sendJson(res, 200, {
+          cacheKey: hit.key,
+          scope: 'refs/heads/main',
+          cacheVersion: hit.version,
+          creationTime: new Date(hit.createdAt).toISOString(),
+          archiveLocation: `${this.baseUrl}_blobs/${hit.id}`,
+        });
+        return;
+      }
+    }
+    res.writeHead(204);
+    res.end();
+  }
+
+  private handleList(url: URL, res: http.ServerResponse): void {
+    const key = url.searchParams.get('key') ?? '';
+    const matches = this.entries.filter((e) => e.key === key && this.isVisible(e));
+    this.sendJson(res, 200, {
+      totalCount: matches.length,
+      artifactCaches: matches.map((e) => ({
+        cacheKey: e.key,
+        cacheVersion: e.version,
+        scope: 'refs/heads/main',
+        creationTime: new Date(e.createdAt).toISOString(),
+      })),
+    });
+  }
+
+  private async handleReserve(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = JSON.parse(await readBody(req)) as { key: string; version: string };
+    if (this.entries.some((e) => e.key === body.key && e.version === body.version)) {
+      this.sendJson(res, 409, { message: `Cache already exists for key ${body.key}` });
+      return;
+    }
+    const entry: CacheEntry = { id: this.nextId++, key: body.key, version: body.version, createdAt: Date.now() };
+    fs.writeFileSync(this.blobPath(entry.id), Buffer.alloc(0));
+    this.entries.push(entry);
+    this.saveIndex();
+    this.sendJson(res, 201, { cacheId: entry.id });
+  }
+
+  private async handleUpload(id: number, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const entry = this.entries.find((e) => e.id === id);
+    const range = /^bytes (\d+)-(\d+)\//.exec(req.headers['content-range'] ?? '');
+    if (!entry || entry.committedAt !== undefined || !range) {
+      req.resume();
+      this.sendJson(res, 400, { message: `Cannot upload to cache ${id}` });
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const out = fs.createWriteStream(this.blobPath(id), { flags: 'r+', start: Number(range[1]) });
+      req.pipe(out).on('finish', resolve).on('error', reject);
+      req.on('error', reject);
+    });
+    res.writeHead(204);
+    res.end();
+  }
+
+  private async handleCommit(id: number, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { size } = JSON.parse(await readBody(req)) as { size: number };
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry || entry.committedAt !== undefined) {
+      this.sendJson(res, 400, { message: `Cannot commit cache ${id}` });
+      return;
+    }
+    const actualSize = fs.statSync(this.blobPath(id)).size;
+    if (actualSize !== size) {
+      this.sendJson(res, 400, { message: `Size mismatch: committed ${size}, uploaded ${actualSize}` });
+      return;
+    }
+    entry.size = size;
+    entry.committedAt = Date.now();
+    this.saveIndex();
+    res.writeHead(204);
+    res.end();
+  }
+
+  private handleDownload(id: number, res: http.ServerResponse, truncateFraction?: number): void {
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry || entry.committedAt === undefined || entry.size === undefined) {
+      this.sendJson(res, 404, { message: `Cache ${id} not found` });
+      return;
+    }
+    if (truncateFraction === undefined) {
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': entry.size });
+      fs.createReadStream(this.blobPath(id)).pipe(res);
+      return;
+    }
+    // No Content-Length, so the client cannot tell the archive was cut short
+    const end = Math.floor(entry.size * truncateFraction);
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+    if (end === 0) {
+      res.end();
+      return;
+    }
+    fs.createReadStream(this.blobPath(id), { start: 0, end: end - 1 }).pipe(res);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Load a fault script from inline JSON or a path to a JSON file
+ */
+export function loadFaultScript(spec: string | undefined): FaultScript {
+  const trimmed = (spec ?? '').trim();
+  if (!trimmed) {
+    return {};
+  }
+  return JSON.parse(trimmed.startsWith('{') ? trimmed : fs.readFileSync(trimmed, 'utf8')) as FaultScript;
+}
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileSegments, writeRandomFile, writeSegment } from './content';
+import { ContentSegment, DatasetPlan, DatasetProfile, FileSpec, getFileSeed, pickFileSize, planDataset } from './profiles';
+import { actionsLogger, Logger } from './progress';
+import { SeededRandom } from './seeded-random';
+
+const MUTATION_SALT = 0x4d555431;
+const MAX_PATCH_BYTES = 64 * 1024;
+
+/**
+ * Fraction of files touched per generation, each between 0 and 1.
+ * `add` is relative to the number of files in the previous generation.
+ */
+export interface ChangeRates {
+  modify: number;
+  append: number;
+  delete: number;
+  add: number;
+}
+
+export const DEFAULT_CHANGE_RATES: ChangeRates = {
+  modify: 0.02,
+  append: 0.01,
+  delete: 0.005,
+  add: 0.005,
+};
+
+/**
+ * A single change that turns one generation into the next
+ */
+export type MutationOp =
+  | { kind: 'modify'; relativePath: string; position: number; segment: ContentSegment }
+  | { kind: 'append'; relativePath: string; position: number; segment: ContentSegment }
+  | { kind: 'delete'; relativePath: string }
+  | { kind: 'add'; file: FileSpec };
+
+/**
+ * Changes applied to a tree on disk
+ */
+export interface MutationStats {
+  generation: number;
+  counts: Record<MutationOp['kind'], number>;
+  // Bytes written by modifications, appends and new files
+  bytesWritten: number;
+  elapsedMs: number;
+}
+
+/**
+ * Replace bytes [position, position + length) of a segment list with a new segment
+ */
+function spliceSegments(
+  segments: ContentSegment[],
+  position: number,
+  length: number,
+  replacement: ContentSegment
+): ContentSegment[] {
+  const result: ContentSegment[] = [];
+  const end = position + length;
+  let start = 0;
+  for (const segment of segments) {
+    const segmentEnd = start + segment.size;
+    if (segmentEnd <= position || start >= end) {
+      result.push(segment);
+    } else {
+      if (start < position) {
+        result.push({ ...segment, size: position - start });
+      }
+      if (start <= position) {
+        result.push(replacement);
+      }
+      if (segmentEnd > end) {
+        const skipped = end - start;
+        result.push({ seed: segment.seed, offset: segment.offset + skipped, size: segment.size - skipped });
+      }
+    }
+    start = segmentEnd;
+  }
+  if (position >= start) {
+    result.push(replacement);
+  }
+  return result;
+}
+
+/**
+ * Work out the changes that turn `plan` (generation - 1) into `generation`.
+ * Decisions come from a generator seeded by the generation number, so the
+ * same plan and rates always produce the same changes.
+ */
+export function planMutation(plan: DatasetPlan, generation: number, rates: ChangeRates): MutationOp[] {
+  const rng = new SeededRandom(getFileSeed([MUTATION_SALT, generation], 0));
+  const roll = (): number => rng.nextUint32() / 0x100000000;
+  const ops: MutationOp[] = [];
+
+  for (const file of plan.files) {
+    let r = roll();
+    if (r < rates.delete) {
+      ops.push({ kind: 'delete', relativePath: file.relativePath });
+      continue;
+    }
+    r -= rates.delete;
+    if (r < rates.modify && file.size > 0) {
+      const size = Math.min(file.size, 1 + (rng.nextUint32() % MAX_PATCH_BYTES));
+      const position = rng.nextUint32() % (file.size - size + 1);
+      ops.push({
+        kind: 'modify',
+        relativePath: file.relativePath,
+        position,
+        segment: { seed: rng.nextUint32(), offset: 0, size },
+      });
+      continue;
+    }
+    r -= rates.modify;
+    if (r < rates.append) {
+      // Grow by up to a tenth of the file
+      const size = 1 + (rng.nextUint32() % Math.max(1, Math.floor(file.size / 10)));
+      ops.push({
+        kind: 'append',
+        relativePath: file.relativePath,
+        position: file.size,
+        segment: { seed: rng.nextUint32(), offset: 0, size },
+      });
+    }
+  }
+
+  const addCount = Math.round(plan.files.length * rates.add);
+  for (let i = 0; i < addCount && plan.directories.length > 0; i++) {
+    const dir = plan.directories[rng.nextUint32() % plan.directories.length];
+    const seed = getFileSeed([MUTATION_SALT, generation, i], 0);
+    ops.push({
+      kind: 'add',
+      file: {
+        relativePath: path.join(dir, `added_g${generation}_${i}.bin`),
+        seed,
+        size: pickFileSize(plan.profile.fileSize, seed),
+      },
+    });
+  }
+  return ops;
+}
+
+/**
+ * The plan that results from applying ops to a plan
+ */
+export function applyMutationToPlan(plan: DatasetPlan, ops: MutationOp[]): DatasetPlan {
+  const files = new Map(plan.files.map((f) => [f.relativePath, f]));
+  for (const op of ops) {
+    if (op.kind === 'add') {
+      files.set(op.file.relativePath, op.file);
+      continue;
+    }
+    const file = files.get(op.relativePath);
+    if (!file) {
+      throw new Error(`Mutation refers to unknown file ${op.relativePath}`);
+    }
+    if (op.kind === 'delete') {
+      files.delete(op.relativePath);
+    } else {
+      const replaced = op.kind === 'modify' ? op.segment.size : 0;
+      files.set(op.relativePath, {
+        ...file,
+        size: file.size - replaced + op.segment.size,
+        segments: spliceSegments(fileSegments(file), op.position, replaced, op.segment),
+      });
+    }
+  }
+  const result = [...files.values()];
+  return { ...plan, files: result, totalBytes: result.reduce((sum, f) => sum + f.size, 0) };
+}
+
+/**
+ * Expected dataset after `generation` rounds of changes (generation 0 is the
+ * freshly generated dataset)
+ */
+export function planGeneration(
+  profile: DatasetProfile,
+  sizeGb: number,
+  generation: number,
+  rates: ChangeRates
+): DatasetPlan {
+  let plan = planDataset(profile, sizeGb);
+  for (let g = 1; g <= generation; g++) {
+    plan = applyMutationToPlan(plan, planMutation(plan, g, rates));
+  }
+  return plan;
+}
+
+/**
+ * Apply changes to a tree holding `from` (normally the freshly restored
+ * generation 0) until it matches `generation`
+ */
+export async function mutateFileHierarchy(
+  baseDir: string,
+  from: DatasetPlan,
+  generation: number,
+  rates: ChangeRates,
+  fromGeneration = 0,
+  logger: Logger = actionsLogger
+): Promise<{ plan: DatasetPlan; stats: MutationStats }> {
+  const stats: MutationStats = {
+    generation,
+    counts: { modify: 0, append: 0, delete: 0, add: 0 },
+    bytesWritten: 0,
+    elapsedMs: 0,
+  };
+  const startTime = Date.now();
+  let plan = from;
+
+  for (let g = fromGeneration + 1; g <= generation; g++) {
+    const ops = planMutation(plan, g, rates);
+    for (const op of ops) {
+      stats.counts[op.kind]++;
+      switch (op.kind) {
+        case 'delete':
+          await fs.promises.rm(path.join(baseDir, op.relativePath));
+          break;
+        case 'add':
+          writeRandomFile(path.join(baseDir, op.file.relativePath), op.file, plan.profile.content);
+          stats.bytesWritten += op.file.size;
+          break;
+        default:
+          writeSegment(path.join(baseDir, op.relativePath), op.segment, op.position, plan.profile.content);
+          stats.bytesWritten += op.segment.size;
+      }
+    }
+    plan = applyMutationToPlan(plan, ops);
+  }
+
+  stats.elapsedMs = Date.now() - startTime;
+  const { modify, append, delete: deleted, add } = stats.counts;
+  logger.info(
+    `[${stats.elapsedMs}ms] Mutated to generation ${generation}: ${modify} modified, ${append} appended, ` +
+      `${deleted} deleted, ${add} added (${(stats.bytesWritten / (1024 * 1024)).toFixed(1)} MB written)`
+  );
+  return { plan, stats };
+}
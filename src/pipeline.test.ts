@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { DirectoryCopyBackend } from './directory-backend';
+import { generateFileHierarchy } from './generate';
+import { metadataPaths, planMetadata } from './metadata';
+import { restoreOrMiss, runPipeline, runRestoreOnly, runSaveOnly } from './pipeline';
+import { DatasetProfile, FULL_METADATA, planDataset } from './profiles';
+import { CacheMissError } from './retry';
+import { makeTempDir, quietLogger, tinyPipelineConfig, TINY_PROFILE, TINY_SIZE_GB } from './test-helpers';
+
+const PROFILE: DatasetProfile = { ...TINY_PROFILE, name: 'tiny-metadata', metadata: FULL_METADATA };
+
+/**
+ * Reports every restore as a miss, like the Actions cache does when a download fails
+ */
+class FailingRestoreBackend extends DirectoryCopyBackend {
+  readonly calls: string[] = [];
+  failRestores = false;
+
+  async restore(paths: string[], key: string, restoreKeys?: string[]): Promise<string | undefined> {
+    this.calls.push('restore');
+    return this.failRestores ? undefined : super.restore(paths, key, restoreKeys);
+  }
+
+  async lookup(paths: string[], key: string, restoreKeys?: string[]): Promise<boolean> {
+    this.calls.push('lookup');
+    return super.lookup(paths, key, restoreKeys);
+  }
+}
+
+describe('runPipeline', () => {
+  test('regenerates over a tree that already holds the dataset and its metadata', async () => {
+    const config = tinyPipelineConfig('rerun', PROFILE);
+    const { filesPath } = config;
+    await generateFileHierarchy(filesPath, TINY_SIZE_GB, PROFILE, { concurrency: 1, logger: quietLogger });
+    const links = metadataPaths(planMetadata(planDataset(PROFILE, TINY_SIZE_GB), FULL_METADATA));
+    assert.ok(links.length > 0 && links.every((link) => fs.existsSync(path.join(filesPath, link))));
+    fs.writeFileSync(path.join(filesPath, 'stale.bin'), 'left over');
+
+    const result = await runPipeline(config);
+    assert.equal(result.verification.ok, true);
+    assert.equal(result.verification.counts.extra, 0);
+    const { symlink, hardlink, emptyDir } = result.generation.metadata!;
+    assert.equal(symlink + hardlink + emptyDir, links.length);
+  });
+});
+
+describe('runSaveOnly', () => {
+  test('saves only the dataset when the files directory holds an earlier run', async () => {
+    const config = tinyPipelineConfig('save-only', PROFILE);
+    const { filesPath } = config;
+    fs.mkdirSync(filesPath);
+    fs.writeFileSync(path.join(filesPath, 'stale.bin'), 'left over');
+    await runSaveOnly(config);
+
+    fs.rmSync(filesPath, { recursive: true });
+    const restored = await runRestoreOnly(config);
+    assert.equal(restored.fingerprintMatches, true);
+    assert.equal(restored.verification.ok, true);
+    assert.equal(fs.existsSync(path.join(filesPath, 'stale.bin')), false);
+  });
+});
+
+describe('restoreOrMiss', () => {
+  const root = makeTempDir();
+  const filesPath = path.join(root, 'files');
+  fs.mkdirSync(filesPath);
+  fs.writeFileSync(path.join(filesPath, 'a.txt'), 'a');
+
+  test('a hit costs a single restore call', async () => {
+    const backend = new FailingRestoreBackend(path.join(root, 'hit'));
+    await backend.save([filesPath], 'key-1');
+    assert.equal(await restoreOrMiss(backend, [filesPath], 'key-2', ['key-']), 'key-1');
+    assert.deepEqual(backend.calls, ['restore']);
+  });
+
+  test('a miss is looked up and thrown as a CacheMissError', async () => {
+    const backend = new FailingRestoreBackend(path.join(root, 'miss'));
+    await assert.rejects(restoreOrMiss(backend, [filesPath], 'absent'), CacheMissError);
+    assert.deepEqual(backend.calls, ['restore', 'lookup']);
+  });
+
+  test('a failed restore of an existing entry is not a miss', async () => {
+    const backend = new FailingRestoreBackend(path.join(root, 'failed'));
+    await backend.save([filesPath], 'key-1');
+    backend.failRestores = true;
+    await assert.rejects(restoreOrMiss(backend, [filesPath], 'key-2', ['key-']), (error) => {
+      assert.ok(!(error instanceof CacheMissError));
+      return true;
+    });
+  });
+});
@@ -0,0 +1,654 @@
+import { CacheBackend, SaveResult } from './backend';
+import { generateFileHierarchy, deleteFileHierarchy, GenerationStats } from './generate';
+import { buildManifest, datasetFingerprint, DatasetManifest, MANIFEST_FILE, readManifest, writeManifest } from './manifest';
+import { ChangeRates, mutateFileHierarchy, MutationStats } from './mutation';
+import { contentTag, DatasetProfile, planDataset } from './profiles';
+import { actionsLogger, Logger } from './progress';
+import {
+  CacheMissError,
+  DEFAULT_AVAILABILITY_POLICY,
+  DEFAULT_RESTORE_POLICY,
+  DEFAULT_SAVE_POLICY,
+  RetryPolicy,
+  RetryStats,
+  withRetry,
+} from './retry';
+import { diffSnapshots, logSnapshotDiff, SnapshotDiff, summarizeSnapshotDiff, takeSnapshot } from './snapshot';
+import { logResourceUsage, ResourceUsage, StepTelemetry } from './telemetry';
+import { verifyFileHierarchy, VerificationReport } from './verify';
+
+/**
+ * Everything one generate → save → delete → restore → verify cycle needs
+ */
+export interface PipelineConfig {
+  backend: CacheBackend;
+  filesPath: string;
+  cacheKey: string;
+  sizeGb: number;
+  profile: DatasetProfile;
+  // Worker threads for generation and verification; 0 = one per CPU
+  generateConcurrency?: number;
+  verifyConcurrency?: number;
+  retry?: Partial<RetryPolicies>;
+  // After the full cycle: restore → mutate → save under a new key → restore that key
+  incremental?: IncrementalConfig;
+  // Label shown in the summary, e.g. DISK or TMPFS
+  label: string;
+  // How often resource usage is sampled during each step; 0 = off
+  sampleIntervalMs?: number;
+  // Defaults to the Actions logger
+  logger?: Logger;
+}
+
+export interface IncrementalConfig {
+  // Generation the restored tree is mutated to
+  generation: number;
+  rates: ChangeRates;
+}
+
+export interface RetryPolicies {
+  save: RetryPolicy;
+  restore: RetryPolicy;
+  availability: RetryPolicy;
+}
+
+/**
+ * Per-step timings of a pipeline run, all in milliseconds
+ */
+export interface PipelineTimings {
+  generateMs: number;
+  saveMs: number;
+  deleteMs: number;
+  restoreMs: number;
+  verifyMs: number;
+  totalMs: number;
+}
+
+export interface PipelineResult {
+  timings: PipelineTimings;
+  generation: GenerationStats;
+  saved: SaveResult;
+  restoredKey: string;
+  verification: VerificationReport;
+  retries: Record<keyof RetryPolicies, RetryStats>;
+  // Metadata the backend did not preserve; present when the profile adds metadata
+  metadata?: SnapshotDiff;
+  // Present when the incremental scenario ran
+  incremental?: IncrementalResult;
+  // Per step, including the incremental ones; absent when sampling is off or unsupported
+  resources?: Record<string, ResourceUsage>;
+}
+
+/**
+ * Cost of saving and restoring a mutated copy of the dataset under a new key
+ */
+export interface IncrementalResult {
+  cacheKey: string;
+  mutation: MutationStats;
+  saved: SaveResult;
+  timings: {
+    mutateMs: number;
+    saveMs: number;
+    deleteMs: number;
+    restoreMs: number;
+    verifyMs: number;
+  };
+  // Re-save time as a fraction of the full save time
+  saveRatio: number;
+  verification: VerificationReport;
+  retries: Record<keyof RetryPolicies, RetryStats>;
+}
+
+/**
+ * The first failed verification of a run, if any
+ */
+export function failedVerification(result: PipelineResult): VerificationReport | undefined {
+  if (!result.verification.ok) return result.verification;
+  if (result.incremental && !result.incremental.verification.ok) return result.incremental.verification;
+  return undefined;
+}
+
+/**
+ * The configured retry policies, with defaults for the ones left out
+ */
+export function resolvePolicies(config: PipelineConfig): RetryPolicies {
+  return {
+    save: DEFAULT_SAVE_POLICY,
+    restore: DEFAULT_RESTORE_POLICY,
+    availability: DEFAULT_AVAILABILITY_POLICY,
+    ...config.retry,
+  };
+}
+
+export interface SaveOutcome {
+  saved: SaveResult;
+  saveMs: number;
+  saveStats: RetryStats;
+  availabilityStats: RetryStats;
+}
+
+/**
+ * Save paths under a key, then wait until the entry is visible
+ */
+export async function saveAndAwait(
+  backend: CacheBackend,
+  paths: string[],
+  cacheKey: string,
+  policies: RetryPolicies,
+  step: string,
+  telemetry?: StepTelemetry,
+  metric = 'save',
+  logger: Logger = actionsLogger
+): Promise<SaveOutcome> {
+  logger.startGroup(`Step ${step}: Save to cache (${backend.name})`);
+  const saveStart = Date.now();
+  const endSample = telemetry?.begin(metric);
+  const { value: saved, stats: saveStats } = await withRetry(
+    `Cache save (${backend.name})`,
+    policies.save,
+    () => backend.save(paths, cacheKey),
+    logger
+  );
+  const saveMs = Date.now() - saveStart;
+  endSample?.();
+  logger.info(`Cache saved with ID: ${saved.id}`);
+  if (saved.sizeBytes !== undefined) {
+    logger.info(`Cache entry size: ${(saved.sizeBytes / (1024 * 1024 * 1024)).toFixed(2)} GB`);
+  }
+  logger.info(`[${saveMs}ms] Cache save complete`);
+  logger.endGroup();
+
+  // Ensure cache is available before deleting local files
+  logger.startGroup(`Step ${step}b: Wait for cache availability`);
+  const { stats: availabilityStats } = await withRetry(
+    'Cache availability check',
+    policies.availability,
+    async () => {
+      if (!(await backend.lookup(paths, cacheKey))) {
+        throw new CacheMissError(cacheKey);
+      }
+    },
+    logger
+  );
+  logger.info(`Cache is now available (attempt ${availabilityStats.attempts}).`);
+  logger.endGroup();
+
+  return { saved, saveMs, saveStats, availabilityStats };
+}
+
+/**
+ * Restore paths, throwing CacheMissError on a miss. Some backends report a
+ * failed download as a miss, so a miss is looked up before it counts as one:
+ * when the entry exists, the restore failed and is worth retrying. A hit
+ * costs a single call; only callers that retry pay for the lookup.
+ */
+export async function restoreOrMiss(
+  backend: CacheBackend,
+  paths: string[],
+  cacheKey: string,
+  restoreKeys: string[] = []
+): Promise<string> {
+  const restoredKey = await backend.restore(paths, cacheKey, restoreKeys);
+  if (restoredKey) {
+    return restoredKey;
+  }
+  if (await backend.lookup(paths, cacheKey, restoreKeys)) {
+    throw new Error(`Cache restore of ${cacheKey} failed although the entry exists`);
+  }
+  throw new CacheMissError(cacheKey);
+}
+
+/**
+ * Delete the tree, restore it from the cache and time both. With restoreKeys,
+ * the restored key may be an older entry sharing one of the prefixes.
+ */
+export async function deleteAndRestore(
+  backend: CacheBackend,
+  filesPath: string,
+  cacheKey: string,
+  policies: RetryPolicies,
+  steps: [string, string],
+  restoreKeys: string[] = [],
+  telemetry?: StepTelemetry,
+  metrics: [string, string] = ['delete', 'restore'],
+  logger: Logger = actionsLogger
+): Promise<{ deleteMs: number; restoreMs: number; restoredKey: string; restoreStats: RetryStats }> {
+  logger.startGroup(`Step ${steps[0]}: Delete file hierarchy`);
+  const deleteStart = Date.now();
+  const endDeleteSample = telemetry?.begin(metrics[0]);
+  await deleteFileHierarchy(filesPath, logger);
+  const deleteMs = Date.now() - deleteStart;
+  endDeleteSample?.();
+  logger.info(`[${deleteMs}ms] Deletion complete`);
+  logger.endGroup();
+
+  logger.startGroup(`Step ${steps[1]}: Restore from cache (${backend.name})`);
+  const restoreStart = Date.now();
+  const endRestoreSample = telemetry?.begin(metrics[1]);
+  const { value: restoredKey, stats: restoreStats } = await withRetry(
+    `Cache restore (${backend.name})`,
+    policies.restore,
+    () => restoreOrMiss(backend, [filesPath], cacheKey, restoreKeys),
+    logger
+  );
+  const restoreMs = Date.now() - restoreStart;
+  endRestoreSample?.();
+  logger.info(`Cache restored with key: ${restoredKey}${restoredKey === cacheKey ? '' : ' (restore key match)'}`);
+  logger.info(`[${restoreMs}ms] Cache restore complete`);
+  logger.endGroup();
+
+  return { deleteMs, restoreMs, restoredKey, restoreStats };
+}
+
+/**
+ * Run one full benchmark cycle against a backend.
+ * Verification failures are reported in the result rather than thrown.
+ */
+export async function runPipeline(config: PipelineConfig): Promise<PipelineResult> {
+  const { backend, filesPath, cacheKey, sizeGb, profile } = config;
+  const logger = config.logger ?? actionsLogger;
+  const policies = resolvePolicies(config);
+  const telemetry = new StepTelemetry(config.sampleIntervalMs);
+  const paths = [filesPath];
+
+  // Start from an empty tree; an earlier iteration leaves its restored copy behind
+  await deleteFileHierarchy(filesPath, logger);
+
+  // Step 1: Generate the file hierarchy
+  logger.startGroup(`Step 1: Generate ${sizeGb}GB file hierarchy (${profile.name})`);
+  const genStart = Date.now();
+  const endGenerateSample = telemetry.begin('generate');
+  const generation = await generateFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.generateConcurrency,
+    logger,
+  });
+  const genTimeMs = Date.now() - genStart;
+  endGenerateSample();
+  logger.info(`[${genTimeMs}ms] Generation complete`);
+  // Taken outside the timed steps so it does not skew them
+  const before = profile.metadata ? await takeSnapshot(filesPath) : undefined;
+  logger.endGroup();
+
+  // Step 2: Save to cache
+  const { saved, saveMs: saveTimeMs, saveStats, availabilityStats } = await saveAndAwait(
+    backend,
+    paths,
+    cacheKey,
+    policies,
+    '2',
+    telemetry,
+    'save',
+    logger
+  );
+
+  // Steps 3 and 4: Delete the directory and restore it from cache
+  const {
+    deleteMs: deleteTimeMs,
+    restoreMs: restoreTimeMs,
+    restoredKey,
+    restoreStats,
+  } = await deleteAndRestore(
+    backend,
+    filesPath,
+    cacheKey,
+    policies,
+    ['3', '4'],
+    [],
+    telemetry,
+    ['delete', 'restore'],
+    logger
+  );
+
+  // Step 5: Verify restoration
+  logger.startGroup('Step 5: Verify restored data');
+  const verifyStart = Date.now();
+  const endVerifySample = telemetry.begin('verify');
+  const verification = await verifyFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.verifyConcurrency,
+    logger,
+  });
+  const verifyTimeMs = Date.now() - verifyStart;
+  endVerifySample();
+  logger.info(`[${verifyTimeMs}ms] Verification complete`);
+  let metadata: SnapshotDiff | undefined;
+  if (before) {
+    metadata = diffSnapshots(before, await takeSnapshot(filesPath));
+    logSnapshotDiff(metadata, `Metadata after restore (${backend.name})`, logger);
+  }
+  logger.endGroup();
+
+  let incremental: IncrementalResult | undefined;
+  if (config.incremental && verification.ok) {
+    incremental = await runIncremental(config, policies, saveTimeMs, telemetry);
+  }
+
+  const timings: PipelineTimings = {
+    generateMs: genTimeMs,
+    saveMs: saveTimeMs,
+    deleteMs: deleteTimeMs,
+    restoreMs: restoreTimeMs,
+    verifyMs: verifyTimeMs,
+    totalMs: genTimeMs + saveTimeMs + deleteTimeMs + restoreTimeMs + verifyTimeMs,
+  };
+
+  // Summary
+  logger.info('');
+  logger.info('=== Benchmark Summary ===');
+  logger.info(`Mode:               ${config.label}`);
+  logger.info(`Backend:            ${backend.name}`);
+  logger.info(`Profile:            ${profile.name}`);
+  logger.info(`Content:            ${contentTag(profile.content)}`);
+  logger.info(`Generation time:    ${timings.generateMs}ms`);
+  logger.info(`Cache save time:    ${timings.saveMs}ms (${saveStats.attempts} attempts, ${saveStats.waitMs}ms waiting)`);
+  if (saved.sizeBytes !== undefined) {
+    const ratio = generation.bytes / Math.max(saved.sizeBytes, 1);
+    logger.info(`Cache entry size:   ${(saved.sizeBytes / (1024 * 1024 * 1024)).toFixed(2)} GB (compression ratio ${ratio.toFixed(2)})`);
+  }
+  logger.info(`Deletion time:      ${timings.deleteMs}ms`);
+  logger.info(`Cache restore time: ${timings.restoreMs}ms (${restoreStats.attempts} attempts, ${restoreStats.waitMs}ms waiting)`);
+  logger.info(`Verification time:  ${timings.verifyMs}ms`);
+  if (metadata) {
+    logger.info(`Metadata:           ${summarizeSnapshotDiff(metadata)}`);
+  }
+  logger.info(`Total time:         ${timings.totalMs}ms`);
+  if (incremental) {
+    const { mutation } = incremental;
+    logger.info(`--- Incremental (generation ${mutation.generation}) ---`);
+    logger.info(
+      `Changes:            ${mutation.counts.modify} modified, ${mutation.counts.append} appended, ` +
+        `${mutation.counts.delete} deleted, ${mutation.counts.add} added (${(mutation.bytesWritten / (1024 * 1024)).toFixed(1)} MB)`
+    );
+    logger.info(`Mutation time:      ${incremental.timings.mutateMs}ms`);
+    logger.info(
+      `Re-save time:       ${incremental.timings.saveMs}ms (${(incremental.saveRatio * 100).toFixed(1)}% of full save)`
+    );
+    logger.info(`Re-restore time:    ${incremental.timings.restoreMs}ms`);
+    logger.info(`Re-verify time:     ${incremental.timings.verifyMs}ms`);
+  }
+  logResourceUsage(telemetry.result(), logger);
+  logger.info('=========================');
+
+  return {
+    timings,
+    generation,
+    saved,
+    restoredKey,
+    verification,
+    retries: { save: saveStats, restore: restoreStats, availability: availabilityStats },
+    metadata,
+    incremental,
+    resources: telemetry.result(),
+  };
+}
+
+/**
+ * Steps 6-10: mutate the restored tree, save it under a new key, then delete,
+ * restore and verify it against the mutated generation
+ */
+async function runIncremental(
+  config: PipelineConfig,
+  policies: RetryPolicies,
+  fullSaveMs: number,
+  telemetry: StepTelemetry
+): Promise<IncrementalResult> {
+  const { backend, filesPath, sizeGb, profile } = config;
+  const logger = config.logger ?? actionsLogger;
+  const { generation, rates } = config.incremental!;
+  const cacheKey = `${config.cacheKey}-gen${generation}`;
+
+  logger.startGroup(`Step 6: Mutate to generation ${generation}`);
+  const mutateStart = Date.now();
+  const endMutateSample = telemetry.begin('mutate');
+  const { stats: mutation } = await mutateFileHierarchy(
+    filesPath,
+    planDataset(profile, sizeGb),
+    generation,
+    rates,
+    0,
+    logger
+  );
+  const mutateMs = Date.now() - mutateStart;
+  endMutateSample();
+  logger.endGroup();
+
+  const { saved, saveMs, saveStats, availabilityStats } = await saveAndAwait(
+    backend,
+    [filesPath],
+    cacheKey,
+    policies,
+    '7',
+    telemetry,
+    'resave',
+    logger
+  );
+  const { deleteMs, restoreMs, restoreStats } = await deleteAndRestore(
+    backend,
+    filesPath,
+    cacheKey,
+    policies,
+    ['8', '9'],
+    [],
+    telemetry,
+    ['resave_delete', 'resave_restore'],
+    logger
+  );
+
+  logger.startGroup(`Step 10: Verify generation ${generation}`);
+  const verifyStart = Date.now();
+  const endVerifySample = telemetry.begin('resave_verify');
+  const verification = await verifyFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.verifyConcurrency,
+    generation,
+    changeRates: rates,
+    logger,
+  });
+  const verifyMs = Date.now() - verifyStart;
+  endVerifySample();
+  logger.info(`[${verifyMs}ms] Verification complete`);
+  logger.endGroup();
+
+  return {
+    cacheKey,
+    mutation,
+    saved,
+    timings: { mutateMs, saveMs, deleteMs, restoreMs, verifyMs },
+    saveRatio: saveMs / Math.max(fullSaveMs, 1),
+    verification,
+    retries: { save: saveStats, restore: restoreStats, availability: availabilityStats },
+  };
+}
+
+/**
+ * Result of generating a dataset and saving it for a later job to restore
+ */
+export interface SaveOnlyResult {
+  timings: { generateMs: number; mutateMs?: number; saveMs: number };
+  generation: GenerationStats;
+  saved: SaveResult;
+  manifest: DatasetManifest;
+  retries: Pick<Record<keyof RetryPolicies, RetryStats>, 'save' | 'availability'>;
+  resources?: Record<string, ResourceUsage>;
+}
+
+/**
+ * Result of restoring a dataset saved by another job and verifying it against its manifest
+ */
+export interface RestoreOnlyResult {
+  timings: { restoreMs: number; verifyMs: number };
+  restoredKey: string;
+  // Undefined when the restored dataset carries no manifest
+  manifest?: DatasetManifest;
+  // Whether this job plans the same dataset the manifest describes
+  fingerprintMatches?: boolean;
+  verification: VerificationReport;
+  retries: Pick<Record<keyof RetryPolicies, RetryStats>, 'restore'>;
+  resources?: Record<string, ResourceUsage>;
+}
+
+/**
+ * Generate the dataset (mutated to config.incremental's generation, if set),
+ * write its manifest next to the files and save it under the cache key
+ */
+export async function runSaveOnly(config: PipelineConfig): Promise<SaveOnlyResult> {
+  const { backend, filesPath, cacheKey, sizeGb, profile } = config;
+  const logger = config.logger ?? actionsLogger;
+  const policies = resolvePolicies(config);
+  const telemetry = new StepTelemetry(config.sampleIntervalMs);
+
+  // Files left by an earlier run would be saved too, and the manifest would not describe them
+  await deleteFileHierarchy(filesPath, logger);
+
+  logger.startGroup(`Step 1: Generate ${sizeGb}GB file hierarchy (${profile.name})`);
+  const genStart = Date.now();
+  const endGenerateSample = telemetry.begin('generate');
+  const generation = await generateFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.generateConcurrency,
+    logger,
+  });
+  const generateMs = Date.now() - genStart;
+  endGenerateSample();
+  logger.info(`[${generateMs}ms] Generation complete`);
+  logger.endGroup();
+
+  const plan = planDataset(profile, sizeGb);
+  let mutateMs: number | undefined;
+  if (config.incremental) {
+    logger.startGroup(`Step 1b: Mutate to generation ${config.incremental.generation}`);
+    const mutateStart = Date.now();
+    const endMutateSample = telemetry.begin('mutate');
+    await mutateFileHierarchy(filesPath, plan, config.incremental.generation, config.incremental.rates, 0, logger);
+    mutateMs = Date.now() - mutateStart;
+    endMutateSample();
+    logger.endGroup();
+  }
+
+  const manifest = buildManifest(
+    plan,
+    sizeGb,
+    cacheKey,
+    config.incremental?.generation,
+    config.incremental?.rates
+  );
+  writeManifest(filesPath, manifest);
+  logger.info(`Dataset fingerprint: ${manifest.fingerprint}`);
+
+  const { saved, saveMs, saveStats, availabilityStats } = await saveAndAwait(
+    backend,
+    [filesPath],
+    cacheKey,
+    policies,
+    '2',
+    telemetry,
+    'save',
+    logger
+  );
+
+  logger.info('');
+  logger.info('=== Save-only Summary ===');
+  logger.info(`Mode:               ${config.label}`);
+  logger.info(`Backend:            ${backend.name}`);
+  logger.info(`Cache key:          ${cacheKey}`);
+  logger.info(`Fingerprint:        ${manifest.fingerprint}`);
+  logger.info(`Generation time:    ${generateMs}ms`);
+  if (mutateMs !== undefined) {
+    logger.info(`Mutation time:      ${mutateMs}ms (generation ${manifest.generation})`);
+  }
+  logger.info(`Cache save time:    ${saveMs}ms (${saveStats.attempts} attempts, ${saveStats.waitMs}ms waiting)`);
+  logResourceUsage(telemetry.result(), logger);
+  logger.info('=========================');
+
+  return {
+    timings: { generateMs, mutateMs, saveMs },
+    generation,
+    saved,
+    manifest,
+    retries: { save: saveStats, availability: availabilityStats },
+    resources: telemetry.result(),
+  };
+}
+
+/**
+ * Restore a dataset saved by runSaveOnly, possibly on another runner, and
+ * verify it against the manifest it carries. Falls back to the newest entry
+ * matching restoreKeys when the exact key is missing. Without a manifest, the
+ * dataset is verified against the configured profile and size instead.
+ */
+export async function runRestoreOnly(config: PipelineConfig, restoreKeys: string[] = []): Promise<RestoreOnlyResult> {
+  const { backend, filesPath, cacheKey } = config;
+  const logger = config.logger ?? actionsLogger;
+  const policies = resolvePolicies(config);
+  const telemetry = new StepTelemetry(config.sampleIntervalMs);
+
+  logger.startGroup(`Step 1: Restore from cache (${backend.name})`);
+  const restoreStart = Date.now();
+  const endRestoreSample = telemetry.begin('restore');
+  const { value: restoredKey, stats: restoreStats } = await withRetry(
+    `Cache restore (${backend.name})`,
+    policies.restore,
+    () => restoreOrMiss(backend, [filesPath], cacheKey, restoreKeys),
+    logger
+  );
+  const restoreMs = Date.now() - restoreStart;
+  endRestoreSample();
+  logger.info(`Cache restored with key: ${restoredKey}${restoredKey === cacheKey ? '' : ' (restore key match)'}`);
+  logger.info(`[${restoreMs}ms] Cache restore complete`);
+  logger.endGroup();
+
+  logger.startGroup('Step 2: Verify restored data');
+  const manifest = readManifest(filesPath);
+  let fingerprintMatches: boolean | undefined;
+  if (manifest) {
+    logger.info(
+      `Manifest: saved ${manifest.createdAt} on ${manifest.runner.imageOs ?? manifest.runner.os} ` +
+        `(${manifest.profile.name}, ${manifest.sizeGb}GB, generation ${manifest.generation})`
+    );
+    fingerprintMatches = datasetFingerprint(planDataset(manifest.profile, manifest.sizeGb)) === manifest.fingerprint;
+    if (!fingerprintMatches) {
+      logger.warning(
+        'The restored dataset was generated by a different version of the generator; expect verification to fail'
+      );
+    }
+  } else {
+    logger.warning(`No ${MANIFEST_FILE} in the restored files; verifying against the configured profile and size`);
+  }
+  const verifyStart = Date.now();
+  const endVerifySample = telemetry.begin('verify');
+  const verification = await verifyFileHierarchy(
+    filesPath,
+    manifest?.sizeGb ?? config.sizeGb,
+    manifest?.profile ?? config.profile,
+    {
+      concurrency: config.verifyConcurrency,
+      generation: manifest?.generation,
+      changeRates: manifest?.changeRates,
+      logger,
+    }
+  );
+  const verifyMs = Date.now() - verifyStart;
+  endVerifySample();
+  logger.info(`[${verifyMs}ms] Verification complete`);
+  logger.endGroup();
+
+  logger.info('');
+  logger.info('=== Restore-only Summary ===');
+  logger.info(`Mode:               ${config.label}`);
+  logger.info(`Backend:            ${backend.name}`);
+  logger.info(`Restored key:       ${restoredKey}`);
+  if (manifest) {
+    logger.info(`Fingerprint:        ${manifest.fingerprint} (${fingerprintMatches ? 'matches' : 'differs'})`);
+  }
+  logger.info(`Cache restore time: ${restoreMs}ms (${restoreStats.attempts} attempts, ${restoreStats.waitMs}ms waiting)`);
+  logger.info(`Verification time:  ${verifyMs}ms`);
+  logResourceUsage(telemetry.result(), logger);
+  logger.info('============================');
+
+  return {
+    timings: { restoreMs, verifyMs },
+    restoredKey,
+    manifest,
+    fingerprintMatches,
+    verification,
+    retries: { restore: restoreStats },
+    resources: telemetry.result(),
+  };
+}
@@ -0,0 +1,50 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BUILTIN_PROFILES, getFileSeed, planDataset } from './profiles';
+
+describe('getFileSeed', () => {
+  test('three-level trees keep the original formula', () => {
+    assert.equal(getFileSeed([0, 0, 0], 0), 0xdeadbeef | 0);
+    assert.equal(getFileSeed([1, 2, 3], 4), -542130709);
+    assert.equal(getFileSeed([7, 9, 9], 4), -643516437);
+  });
+
+  test('other depths hash their indices', () => {
+    assert.equal(getFileSeed([3], 1), 3198562089);
+    assert.equal(getFileSeed([0, 1], 2), 2379877408);
+    assert.equal(getFileSeed([1, 2, 3, 4], 5), 173348116);
+  });
+
+  test('a dataset seed gives different seeds for the same paths', () => {
+    assert.equal(getFileSeed([1, 2, 3], 4, 42), -542130751);
+  });
+});
+
+describe('planDataset', () => {
+  const uniform = BUILTIN_PROFILES['uniform'];
+  const GB = 1024 ** 3;
+
+  test('whole top-level directories are left as they are', () => {
+    const plan = planDataset(uniform, 2);
+    assert.deepEqual(plan.fanOuts, [2, 10, 10]);
+    assert.equal(plan.filesPerLeaf, 5);
+    assert.equal(plan.totalBytes, 2 * 500 * 2 * 1024 * 1024);
+  });
+
+  test('targets below one top-level directory shrink the levels under it', () => {
+    const plan = planDataset(uniform, 0.02);
+    assert.deepEqual(plan.fanOuts, [1, 1, 2]);
+    assert.equal(plan.files.length, 10);
+    assert.ok(Math.abs(plan.totalBytes - 0.02 * GB) < 0.1 * 0.02 * GB);
+
+    // A subset of the full dataset, so the same paths keep the same content
+    const full = new Map(planDataset(uniform, 1).files.map((f) => [f.relativePath, f.seed]));
+    assert.ok(plan.files.every((f) => full.get(f.relativePath) === f.seed));
+  });
+
+  test('the smallest targets keep one file', () => {
+    const plan = planDataset(BUILTIN_PROFILES['few-large-blobs'], 0.001);
+    assert.deepEqual(plan.fanOuts, [1]);
+    assert.equal(plan.files.length, 1);
+  });
+});
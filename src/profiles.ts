@@ -0,0 +1,594 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SeededRandom } from './seeded-random';
+
+const MASTER_SEED = 0xdeadbeef;
+const SIZE_SEED_SALT = 0x5bd1e995;
+const DUPLICATE_SALT = 0x44555021;
+const BLOCK_POOL_SALT = 0x424c4b50;
+
+// Distinct blocks that duplicated blocks are drawn from
+const BLOCK_POOL_SIZE = 64;
+
+const KB = 1024;
+const MB = 1024 * 1024;
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * How file sizes are chosen. Sizes are derived from each file's seed, so the
+ * same profile always produces the same sizes.
+ */
+export type SizeDistribution =
+  | { kind: 'fixed'; bytes: number }
+  | { kind: 'uniform'; minBytes: number; maxBytes: number }
+  | { kind: 'buckets'; buckets: { weight: number; minBytes: number; maxBytes: number }[] };
+
+export const CONTENT_MODES = ['random', 'compressible', 'text', 'sparse'] as const;
+export type ContentMode = (typeof CONTENT_MODES)[number];
+
+/**
+ * What generated bytes look like. Every mode is derived from the per-file
+ * seed, so the verifier can regenerate the expected content.
+ */
+export interface ContentSpec {
+  mode: ContentMode;
+  // compressible: uncompressed size divided by the compressed size to aim for
+  compressionRatio?: number;
+  // sparse: fraction of each file left as holes
+  holeFraction?: number;
+  // Fraction of files that are byte-identical copies of another file
+  duplicateFiles?: number;
+  // Fraction of whole blocks copied from a small shared pool
+  duplicateBlocks?: number;
+  // Size of duplicated blocks, a multiple of 4 KB
+  blockSize?: number;
+}
+
+export const DEFAULT_COMPRESSION_RATIO = 2;
+export const DEFAULT_HOLE_FRACTION = 0.5;
+export const DEFAULT_BLOCK_SIZE = 128 * KB;
+
+export const BUILTIN_CONTENT: Record<string, ContentSpec> = {
+  random: { mode: 'random' },
+  compressible: { mode: 'compressible', compressionRatio: 3 },
+  text: { mode: 'text' },
+  sparse: { mode: 'sparse', holeFraction: 0.5 },
+  duplicates: { mode: 'random', duplicateFiles: 0.2, duplicateBlocks: 0.2 },
+};
+
+/**
+ * Filesystem metadata added on top of the generated files, so backends that
+ * drop it can be caught
+ */
+export interface MetadataSpec {
+  // Fraction of files marked executable (0755)
+  executable?: number;
+  // Fraction of files with a relative symlink next to them
+  symlinks?: number;
+  // Fraction of files with a second hard link next to them
+  hardlinks?: number;
+  // Give every file a seeded modification time in the past
+  mtimes?: boolean;
+  // Fraction of files with a user.* extended attribute
+  xattrs?: number;
+  // Empty directories added across the tree
+  emptyDirs?: number;
+}
+
+export const FULL_METADATA: Required<MetadataSpec> = {
+  executable: 0.1,
+  symlinks: 0.05,
+  hardlinks: 0.05,
+  mtimes: true,
+  xattrs: 0.05,
+  emptyDirs: 10,
+};
+
+/**
+ * One directory level of the generated tree
+ */
+export interface LevelSpec {
+  prefix: string;
+  // Ignored for the top level, which fans out as far as needed to reach the requested size
+  fanOut: number;
+}
+
+/**
+ * Shape of a generated dataset
+ */
+export interface DatasetProfile {
+  name: string;
+  levels: LevelSpec[];
+  filesPerLeaf: number;
+  fileSize: SizeDistribution;
+  // Overrides the size-gb input when set
+  totalSizeGb?: number;
+  // Incompressible random data when unset
+  content?: ContentSpec;
+  // Only regular files and directories when unset
+  metadata?: MetadataSpec;
+  // Mixed into every file seed for a different dataset of the same shape; 0 or unset keeps the original one
+  seed?: number;
+}
+
+/**
+ * A run of `size` bytes from the seeded stream for `seed`, starting `offset` bytes in
+ */
+export interface ContentSegment {
+  seed: number;
+  offset: number;
+  size: number;
+}
+
+/**
+ * A single file of a planned dataset
+ */
+export interface FileSpec {
+  relativePath: string;
+  seed: number;
+  size: number;
+  // Set when a file shares blocks with others or has been changed after
+  // generation; the segments are concatenated and add up to `size`. Without it the content is the first
+  // `size` bytes of the stream for `seed`.
+  segments?: ContentSegment[];
+}
+
+/**
+ * Every directory and file a profile produces for a given size
+ */
+export interface DatasetPlan {
+  profile: DatasetProfile;
+  // Fan-out actually used per level, outermost first
+  fanOuts: number[];
+  // Below the profile's own for targets smaller than one top-level directory
+  filesPerLeaf: number;
+  directories: string[];
+  files: FileSpec[];
+  totalBytes: number;
+}
+
+// The original layout: N × 10 × 10 × 5 files × 2MB = N GB
+const UNIFORM_PROFILE: DatasetProfile = {
+  name: 'uniform',
+  levels: [
+    { prefix: 'dir_', fanOut: 0 },
+    { prefix: 'sub_', fanOut: 10 },
+    { prefix: 'leaf_', fanOut: 10 },
+  ],
+  filesPerLeaf: 5,
+  fileSize: { kind: 'fixed', bytes: 2 * MB },
+};
+
+// Many small files in wide directories, like an npm install
+const NODE_MODULES_PROFILE: DatasetProfile = {
+  name: 'node_modules-like',
+  levels: [
+    { prefix: 'dir_', fanOut: 0 },
+    { prefix: 'pkg_', fanOut: 20 },
+    { prefix: 'lib_', fanOut: 10 },
+  ],
+  filesPerLeaf: 50,
+  fileSize: {
+    kind: 'buckets',
+    buckets: [
+      { weight: 70, minBytes: 512, maxBytes: 8 * KB },
+      { weight: 25, minBytes: 8 * KB, maxBytes: 64 * KB },
+      { weight: 5, minBytes: 64 * KB, maxBytes: 1 * MB },
+    ],
+  },
+};
+
+// A handful of huge files, like a Gradle or Maven cache full of jars
+const FEW_LARGE_BLOBS_PROFILE: DatasetProfile = {
+  name: 'few-large-blobs',
+  levels: [{ prefix: 'dir_', fanOut: 0 }],
+  filesPerLeaf: 2,
+  fileSize: { kind: 'uniform', minBytes: 128 * MB, maxBytes: 512 * MB },
+};
+
+// Build-output-like mix of small, medium and large files
+const MIXED_PROFILE: DatasetProfile = {
+  name: 'mixed',
+  levels: [
+    { prefix: 'dir_', fanOut: 0 },
+    { prefix: 'sub_', fanOut: 10 },
+    { prefix: 'leaf_', fanOut: 10 },
+  ],
+  filesPerLeaf: 4,
+  fileSize: {
+    kind: 'buckets',
+    buckets: [
+      { weight: 60, minBytes: 1 * KB, maxBytes: 64 * KB },
+      { weight: 30, minBytes: 64 * KB, maxBytes: 4 * MB },
+      { weight: 10, minBytes: 4 * MB, maxBytes: 32 * MB },
+    ],
+  },
+};
+
+export const BUILTIN_PROFILES: Record<string, DatasetProfile> = {
+  [UNIFORM_PROFILE.name]: UNIFORM_PROFILE,
+  [NODE_MODULES_PROFILE.name]: NODE_MODULES_PROFILE,
+  [FEW_LARGE_BLOBS_PROFILE.name]: FEW_LARGE_BLOBS_PROFILE,
+  [MIXED_PROFILE.name]: MIXED_PROFILE,
+};
+
+export const DEFAULT_PROFILE = UNIFORM_PROFILE;
+
+/**
+ * Generate a deterministic seed for a specific file based on its path indices
+ */
+export function getFileSeed(dirIndices: number[], fileNum: number, datasetSeed = 0): number {
+  const masterSeed = MASTER_SEED ^ datasetSeed;
+  if (dirIndices.length === 3) {
+    // Three-level trees keep the original formula so existing images stay valid
+    const [l1, l2, l3] = dirIndices;
+    return masterSeed ^ (l1 << 24) ^ (l2 << 16) ^ (l3 << 8) ^ fileNum;
+  }
+
+  let hash = masterSeed;
+  for (const index of [...dirIndices, fileNum]) {
+    hash = Math.imul(hash ^ index, 0x9e3779b1);
+    hash ^= hash >>> 16;
+  }
+  return hash >>> 0;
+}
+
+function pickInRange(rng: SeededRandom, minBytes: number, maxBytes: number): number {
+  const span = maxBytes - minBytes + 1;
+  return minBytes + Math.floor((rng.nextUint32() / 0x100000000) * span);
+}
+
+/**
+ * Pick the size of a file from the distribution, deterministically from its seed
+ */
+export function pickFileSize(distribution: SizeDistribution, seed: number): number {
+  if (distribution.kind === 'fixed') {
+    return distribution.bytes;
+  }
+
+  const rng = new SeededRandom(seed ^ SIZE_SEED_SALT);
+  if (distribution.kind === 'uniform') {
+    return pickInRange(rng, distribution.minBytes, distribution.maxBytes);
+  }
+
+  const totalWeight = distribution.buckets.reduce((sum, b) => sum + b.weight, 0);
+  let roll = (rng.nextUint32() / 0x100000000) * totalWeight;
+  for (const bucket of distribution.buckets) {
+    if (roll < bucket.weight) {
+      return pickInRange(rng, bucket.minBytes, bucket.maxBytes);
+    }
+    roll -= bucket.weight;
+  }
+  const last = distribution.buckets[distribution.buckets.length - 1];
+  return pickInRange(rng, last.minBytes, last.maxBytes);
+}
+
+function meanFileSize(distribution: SizeDistribution): number {
+  switch (distribution.kind) {
+    case 'fixed':
+      return distribution.bytes;
+    case 'uniform':
+      return (distribution.minBytes + distribution.maxBytes) / 2;
+    case 'buckets': {
+      const totalWeight = distribution.buckets.reduce((sum, b) => sum + b.weight, 0);
+      return distribution.buckets.reduce(
+        (sum, b) => sum + (b.weight / totalWeight) * ((b.minBytes + b.maxBytes) / 2),
+        0
+      );
+    }
+  }
+}
+
+function validateContent(content: ContentSpec, fail: (msg: string) => never): void {
+  const fraction = (label: string, value: number | undefined): void => {
+    if (value !== undefined && !(value >= 0 && value <= 1)) fail(`content.${label} must be between 0 and 1`);
+  };
+  if (!CONTENT_MODES.includes(content.mode)) {
+    fail(`content.mode must be one of ${CONTENT_MODES.join(', ')}`);
+  }
+  if (content.compressionRatio !== undefined && !(content.compressionRatio >= 1)) {
+    fail('content.compressionRatio must be at least 1');
+  }
+  fraction('holeFraction', content.holeFraction);
+  fraction('duplicateFiles', content.duplicateFiles);
+  fraction('duplicateBlocks', content.duplicateBlocks);
+  const { blockSize } = content;
+  if (blockSize !== undefined && !(Number.isInteger(blockSize) && blockSize > 0 && blockSize % (4 * KB) === 0)) {
+    fail('content.blockSize must be a positive multiple of 4096');
+  }
+}
+
+/**
+ * Resolve content from a builtin name or inline JSON
+ */
+export function resolveContent(spec: string): ContentSpec {
+  const trimmed = spec.trim();
+  const builtin = BUILTIN_CONTENT[trimmed];
+  if (builtin) {
+    return builtin;
+  }
+  if (!trimmed.startsWith('{')) {
+    throw new Error(`Unknown content "${trimmed}". Use one of ${Object.keys(BUILTIN_CONTENT).join(', ')} or inline JSON`);
+  }
+  const content = JSON.parse(trimmed) as ContentSpec;
+  validateContent(content, (msg) => {
+    throw new Error(`Invalid content: ${msg}`);
+  });
+  return content;
+}
+
+/**
+ * Short label for a content spec, e.g. compressible-3x+dup
+ */
+export function contentTag(content: ContentSpec | undefined): string {
+  if (!content) {
+    return 'random';
+  }
+  let tag: string = content.mode;
+  if (content.mode === 'compressible') tag += `-${content.compressionRatio ?? DEFAULT_COMPRESSION_RATIO}x`;
+  if (content.mode === 'sparse') tag += `-${Math.round((content.holeFraction ?? DEFAULT_HOLE_FRACTION) * 100)}pct`;
+  if (content.duplicateFiles || content.duplicateBlocks) tag += '+dup';
+  return tag;
+}
+
+function validateMetadata(metadata: MetadataSpec, fail: (msg: string) => never): void {
+  for (const key of ['executable', 'symlinks', 'hardlinks', 'xattrs'] as const) {
+    const value = metadata[key];
+    if (value !== undefined && !(value >= 0 && value <= 1)) fail(`metadata.${key} must be between 0 and 1`);
+  }
+  if (metadata.emptyDirs !== undefined && !(Number.isInteger(metadata.emptyDirs) && metadata.emptyDirs >= 0)) {
+    fail('metadata.emptyDirs must be a non-negative integer');
+  }
+}
+
+/**
+ * Resolve metadata from "all", a comma-separated list of kinds
+ * (executable, symlinks, hardlinks, mtimes, xattrs, emptyDirs) or inline JSON.
+ * Listed kinds use the amounts of FULL_METADATA.
+ */
+export function resolveMetadata(spec: string): MetadataSpec | undefined {
+  const trimmed = spec.trim();
+  if (trimmed === '' || trimmed === 'none') {
+    return undefined;
+  }
+  if (trimmed === 'all') {
+    return FULL_METADATA;
+  }
+
+  let metadata: MetadataSpec;
+  if (trimmed.startsWith('{')) {
+    metadata = JSON.parse(trimmed) as MetadataSpec;
+  } else {
+    metadata = {};
+    for (const name of trimmed.split(',').map((n) => n.trim())) {
+      if (!(name in FULL_METADATA)) {
+        throw new Error(`Unknown metadata kind "${name}". Use all or any of ${Object.keys(FULL_METADATA).join(', ')}`);
+      }
+      Object.assign(metadata, { [name]: FULL_METADATA[name as keyof MetadataSpec] });
+    }
+  }
+  validateMetadata(metadata, (msg) => {
+    throw new Error(`Invalid metadata: ${msg}`);
+  });
+  return metadata;
+}
+
+/**
+ * Validate a profile, throwing a descriptive error for the first problem found
+ */
+export function validateProfile(profile: DatasetProfile): void {
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid profile "${profile.name}": ${msg}`);
+  };
+
+  if (!profile.name) fail('name is required');
+  if (!Array.isArray(profile.levels) || profile.levels.length === 0) {
+    fail('levels must contain at least one level');
+  }
+  profile.levels.forEach((level, i) => {
+    if (!level.prefix || /[\\/]/.test(level.prefix)) fail(`levels[${i}].prefix must be a plain name`);
+    if (i > 0 && !(Number.isInteger(level.fanOut) && level.fanOut >= 1)) {
+      fail(`levels[${i}].fanOut must be a positive integer`);
+    }
+  });
+  if (!(Number.isInteger(profile.filesPerLeaf) && profile.filesPerLeaf >= 1)) {
+    fail('filesPerLeaf must be a positive integer');
+  }
+  if (profile.totalSizeGb !== undefined && !(profile.totalSizeGb > 0)) {
+    fail('totalSizeGb must be positive');
+  }
+  const seed = profile.seed;
+  if (seed !== undefined && !(Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff)) {
+    fail('seed must be an integer between 0 and 4294967295');
+  }
+
+  if (profile.content !== undefined) {
+    validateContent(profile.content, fail);
+  }
+  if (profile.metadata !== undefined) {
+    validateMetadata(profile.metadata, fail);
+  }
+
+  const size = profile.fileSize;
+  const checkRange = (label: string, min: number, max: number): void => {
+    if (!(Number.isInteger(min) && Number.isInteger(max) && min >= 0 && max >= min)) {
+      fail(`${label} must satisfy 0 <= minBytes <= maxBytes`);
+    }
+  };
+  switch (size?.kind) {
+    case 'fixed':
+      if (!(Number.isInteger(size.bytes) && size.bytes >= 0)) fail('fileSize.bytes must be a non-negative integer');
+      break;
+    case 'uniform':
+      checkRange('fileSize', size.minBytes, size.maxBytes);
+      break;
+    case 'buckets':
+      if (!Array.isArray(size.buckets) || size.buckets.length === 0) fail('fileSize.buckets must not be empty');
+      size.buckets.forEach((b, i) => {
+        if (!(b.weight > 0)) fail(`fileSize.buckets[${i}].weight must be positive`);
+        checkRange(`fileSize.buckets[${i}]`, b.minBytes, b.maxBytes);
+      });
+      break;
+    default:
+      fail('fileSize.kind must be one of fixed, uniform, buckets');
+  }
+}
+
+/**
+ * Resolve a profile from a builtin name, an inline JSON object or a path to a JSON file
+ */
+export function resolveProfile(spec: string | undefined): DatasetProfile {
+  const trimmed = (spec ?? '').trim();
+  if (!trimmed) {
+    return DEFAULT_PROFILE;
+  }
+
+  const builtin = BUILTIN_PROFILES[trimmed];
+  if (builtin) {
+    return builtin;
+  }
+
+  let json: string;
+  if (trimmed.startsWith('{')) {
+    json = trimmed;
+  } else if (trimmed.endsWith('.json') && fs.existsSync(trimmed)) {
+    json = fs.readFileSync(trimmed, 'utf8');
+  } else {
+    throw new Error(
+      `Unknown profile "${trimmed}". Use one of ${Object.keys(BUILTIN_PROFILES).join(', ')}, inline JSON or a .json file`
+    );
+  }
+
+  const profile = { name: 'custom', ...JSON.parse(json) } as DatasetProfile;
+  validateProfile(profile);
+  return profile;
+}
+
+/**
+ * Rewrite planned files so some whole blocks come from a shared pool and some
+ * files are copies of an earlier file. Choices are seeded by each file's seed.
+ */
+function addDuplicates(files: FileSpec[], content: ContentSpec): void {
+  const blockSize = content.blockSize ?? DEFAULT_BLOCK_SIZE;
+  const blockRate = content.duplicateBlocks ?? 0;
+  const fileRate = content.duplicateFiles ?? 0;
+
+  files.forEach((file, index) => {
+    const rng = new SeededRandom(file.seed ^ DUPLICATE_SALT);
+    const roll = (): number => rng.nextUint32() / 0x100000000;
+
+    if (index > 0 && roll() < fileRate) {
+      const source = files[rng.nextUint32() % index];
+      files[index] = { ...source, relativePath: file.relativePath };
+      return;
+    }
+    if (blockRate === 0 || file.size < blockSize) {
+      return;
+    }
+
+    // Own blocks continue the file's stream, so a file without pooled blocks is unchanged
+    const segments: ContentSegment[] = [];
+    let ownOffset = 0;
+    let position = 0;
+    while (position < file.size) {
+      const size = Math.min(blockSize, file.size - position);
+      const previous = segments[segments.length - 1];
+      if (size === blockSize && roll() < blockRate) {
+        const pooled = getFileSeed([BLOCK_POOL_SALT, rng.nextUint32() % BLOCK_POOL_SIZE], 0);
+        segments.push({ seed: pooled, offset: 0, size });
+      } else if (previous?.seed === file.seed) {
+        previous.size += size;
+        ownOffset += size;
+      } else {
+        segments.push({ seed: file.seed, offset: ownOffset, size });
+        ownOffset += size;
+      }
+      position += size;
+    }
+    if (segments.length > 1) {
+      file.segments = segments;
+    }
+  });
+}
+
+/**
+ * Fan-outs below the top level and files per leaf for a single top-level
+ * directory of about `files` files. Outer levels shrink first, and what is
+ * left is a subset of the full directory.
+ */
+function shrinkTopDir(
+  fanOuts: number[],
+  filesPerLeaf: number,
+  files: number
+): { fanOuts: number[]; filesPerLeaf: number } {
+  const shrunk = [...fanOuts];
+  for (let i = 0; i < shrunk.length; i++) {
+    const below = filesPerLeaf * shrunk.slice(i + 1).reduce((product, n) => product * n, 1);
+    if (files >= below) {
+      shrunk[i] = Math.min(shrunk[i], Math.round(files / below));
+      return { fanOuts: shrunk, filesPerLeaf };
+    }
+    shrunk[i] = 1;
+  }
+  return { fanOuts: shrunk, filesPerLeaf: Math.max(1, Math.min(filesPerLeaf, files)) };
+}
+
+/**
+ * Expand a profile into the exact list of directories and files to generate.
+ * The top level fans out until the expected size approaches the target;
+ * targets smaller than one top-level directory shrink the levels below it.
+ */
+export function planDataset(profile: DatasetProfile, sizeGb: number): DatasetPlan {
+  const targetBytes = (profile.totalSizeGb ?? sizeGb) * GB;
+  const meanBytes = meanFileSize(profile.fileSize);
+  let lowerFanOuts = profile.levels.slice(1).map((level) => level.fanOut);
+  let filesPerLeaf = profile.filesPerLeaf;
+  const topDirBytes = filesPerLeaf * lowerFanOuts.reduce((product, n) => product * n, 1) * meanBytes;
+  const topFanOut = Math.max(1, Math.round(targetBytes / topDirBytes));
+  if (targetBytes < topDirBytes) {
+    const files = Math.max(1, Math.round(targetBytes / meanBytes));
+    ({ fanOuts: lowerFanOuts, filesPerLeaf } = shrinkTopDir(lowerFanOuts, filesPerLeaf, files));
+  }
+  const fanOuts = [topFanOut, ...lowerFanOuts];
+
+  const directories: string[] = [];
+  const files: FileSpec[] = [];
+  let totalBytes = 0;
+
+  const walk = (depth: number, indices: number[], relDir: string): void => {
+    if (depth === fanOuts.length) {
+      directories.push(relDir);
+      for (let f = 0; f < filesPerLeaf; f++) {
+        const seed = getFileSeed(indices, f, profile.seed);
+        const size = pickFileSize(profile.fileSize, seed);
+        files.push({ relativePath: path.join(relDir, `data_${f}.bin`), seed, size });
+        totalBytes += size;
+      }
+      return;
+    }
+    for (let i = 0; i < fanOuts[depth]; i++) {
+      walk(depth + 1, [...indices, i], path.join(relDir, `${profile.levels[depth].prefix}${i}`));
+    }
+  };
+  walk(0, [], '');
+
+  if (profile.content?.duplicateBlocks || profile.content?.duplicateFiles) {
+    addDuplicates(files, profile.content);
+    totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+  }
+  return { profile, fanOuts, filesPerLeaf, directories, files, totalBytes };
+}
+
+/**
+ * Profile name reduced to characters that are safe in cache keys and file names
+ */
+export function profileTag(profile: DatasetProfile): string {
+  return profile.name.replace(/[^A-Za-z0-9._-]/g, '-');
+}
+
+/**
+ * One-line description of a profile's shape for logs
+ */
+export function describePlan(plan: DatasetPlan): string {
+  return `${plan.profile.name}: ${[...plan.fanOuts, plan.filesPerLeaf].join(' × ')} files`;
+}
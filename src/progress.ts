@@ -0,0 +1,184 @@
+import * as core from '@actions/core';
+import { FilePhase } from './file-workers';
+import { FileSpec } from './profiles';
+import { VerificationCategory } from './verify';
+
+/**
+ * Where generation and verification send their log lines
+ */
+export interface Logger {
+  info(message: string): void;
+  warning(message: string): void;
+  error(message: string): void;
+  debug(message: string): void;
+  // Fold the lines until endGroup, where the output supports it
+  startGroup(name: string): void;
+  endGroup(): void;
+}
+
+/**
+ * Logs through @actions/core, so lines show up as annotations and honour ACTIONS_STEP_DEBUG
+ */
+export const actionsLogger: Logger = {
+  info: (message) => core.info(message),
+  warning: (message) => core.warning(message),
+  error: (message) => core.error(message),
+  debug: (message) => core.debug(message),
+  startGroup: (name) => core.startGroup(name),
+  endGroup: () => core.endGroup(),
+};
+
+/**
+ * Plain console output for local tools; debug lines only with DEBUG set
+ */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warning: (message) => console.warn(`warning: ${message}`),
+  error: (message) => console.error(`error: ${message}`),
+  debug: (message) => {
+    if (process.env['DEBUG']) console.error(`debug: ${message}`);
+  },
+  startGroup: (name) => console.log(`\n== ${name}`),
+  endGroup: () => undefined,
+};
+
+export type FileTask = 'generate' | 'verify';
+
+/**
+ * What generation and verification report while they run. File events are
+ * only produced when a listener asks for them, as they cost a message per
+ * file when workers are used.
+ */
+export type FileTaskEvent =
+  | { type: 'file-started'; task: FileTask; path: string; size: number }
+  | { type: 'file-finished'; task: FileTask; path: string; size: number }
+  // Generation only: bytes of the batch that completed, and of all batches so far
+  | { type: 'bytes-written'; bytes: number; totalBytes: number }
+  | ({ type: 'progress' } & FileTaskProgress)
+  | { type: 'verification-failure'; category: VerificationCategory; path: string; detail: string };
+
+export interface FileTaskProgress {
+  task: FileTask;
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+  elapsedMs: number;
+  // Undefined until the first batch completes
+  etaMs?: number;
+}
+
+export interface FileTaskListener {
+  onEvent(event: FileTaskEvent): void;
+  // Ask for file-started and file-finished events
+  fileEvents?: boolean;
+}
+
+/**
+ * Options shared by generation and verification
+ */
+export interface FileTaskOptions {
+  // Worker threads to spread files across; 0 = one per CPU
+  concurrency?: number;
+  // Defaults to the Actions logger
+  logger?: Logger;
+  // Stops handing out files and rejects with the signal's reason
+  signal?: AbortSignal;
+  // Defaults to logging generation progress every 100 files; verification reports nothing by default
+  listener?: FileTaskListener;
+}
+
+/**
+ * Track files and bytes done against a total and work out the ETA
+ */
+export class ProgressTracker {
+  private filesDone = 0;
+  private bytesDone = 0;
+  private readonly startTime = Date.now();
+
+  constructor(
+    private readonly task: FileTask,
+    private readonly filesTotal: number,
+    private readonly bytesTotal: number
+  ) {}
+
+  add(files: number, bytes: number): FileTaskProgress {
+    this.filesDone += files;
+    this.bytesDone += bytes;
+    const elapsedMs = Date.now() - this.startTime;
+    const rate = this.bytesDone / Math.max(elapsedMs, 1);
+    return {
+      task: this.task,
+      filesDone: this.filesDone,
+      filesTotal: this.filesTotal,
+      bytesDone: this.bytesDone,
+      bytesTotal: this.bytesTotal,
+      elapsedMs,
+      etaMs: rate > 0 ? Math.round((this.bytesTotal - this.bytesDone) / rate) : undefined,
+    };
+  }
+}
+
+/**
+ * Turn worker file callbacks into file-started and file-finished events, when the listener wants them
+ */
+export function fileEventForwarder(
+  listener: FileTaskListener,
+  task: FileTask
+): ((phase: FilePhase, file: FileSpec) => void) | undefined {
+  if (!listener.fileEvents) return undefined;
+  return (phase, file) =>
+    listener.onEvent({
+      type: phase === 'started' ? 'file-started' : 'file-finished',
+      task,
+      path: file.relativePath,
+      size: file.size,
+    });
+}
+
+/**
+ * Log a progress line every `everyFiles` files, the way the action always has
+ */
+export function progressLogListener(logger: Logger, everyFiles = 100): FileTaskListener {
+  let nextAt = everyFiles;
+  return {
+    onEvent: (event) => {
+      if (event.type !== 'progress' || (event.filesDone < nextAt && event.filesDone < event.filesTotal)) return;
+      nextAt = (Math.floor(event.filesDone / everyFiles) + 1) * everyFiles;
+      const { elapsedMs, filesDone, filesTotal, etaMs } = event;
+      const percent = ((filesDone / Math.max(filesTotal, 1)) * 100).toFixed(1);
+      logger.info(`[${elapsedMs}ms] Progress: ${filesDone}/${filesTotal} files (${percent}%) - ETA: ${etaMs ?? '?'}ms`);
+    },
+  };
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+}
+
+/**
+ * Redraw a single progress bar line on a terminal
+ */
+export function ttyProgressListener(stream: NodeJS.WriteStream = process.stderr, width = 30): FileTaskListener {
+  let lastDraw = 0;
+  return {
+    onEvent: (event) => {
+      if (event.type !== 'progress') return;
+      const finished = event.filesDone >= event.filesTotal;
+      // Redraw at most ten times a second
+      if (!finished && Date.now() - lastDraw < 100) return;
+      lastDraw = Date.now();
+      const fraction = event.bytesTotal > 0 ? event.bytesDone / event.bytesTotal : event.filesDone / event.filesTotal;
+      const filled = Math.round(fraction * width);
+      const mb = (event.bytesDone / (1024 * 1024)).toFixed(1);
+      const eta = event.etaMs !== undefined && !finished ? ` ETA ${formatDuration(event.etaMs)}` : '';
+      const bar = `${'#'.repeat(filled)}${'.'.repeat(width - filled)}`;
+      const percent = (fraction * 100).toFixed(0).padStart(3);
+      stream.write(
+        `\r${event.task} [${bar}] ${percent}% ${event.filesDone}/${event.filesTotal} files ${mb} MB${eta}` +
+          `\x1b[K${finished ? '\n' : ''}`
+      );
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import * as core from '@actions/core';
+import { renderCsv, renderMarkdown } from './report';
+import { findResultFiles, readResultDocument } from './results';
+
+const USAGE = `Usage: report-local.ts [options] <result.json | directory>...
+
+  --markdown <file>   Write the Markdown report to a file
+  --csv <file>        Write one CSV row per run and step to a file
+  --title <text>      Report heading (default: Benchmark comparison)
+
+Directories are searched for *.json result documents. The Markdown report is
+printed, and appended to the job summary when GITHUB_STEP_SUMMARY is set.`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      markdown: { type: 'string' },
+      csv: { type: 'string' },
+      title: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const docs = findResultFiles(positionals).map(readResultDocument);
+  const markdown = renderMarkdown(docs, values.title);
+  console.log(markdown);
+
+  if (values.markdown) {
+    fs.writeFileSync(values.markdown, markdown);
+  }
+  if (values.csv) {
+    fs.writeFileSync(values.csv, renderCsv(docs));
+    console.log(`Wrote ${values.csv}`);
+  }
+  if (process.env['GITHUB_STEP_SUMMARY']) {
+    await core.summary.addRaw(markdown, true).write();
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
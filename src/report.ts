@@ -0,0 +1,169 @@
+import { ResultDocument } from './results';
+import { summarizeSnapshotDiff } from './snapshot';
+
+function formatMs(ms: number): string {
+  return ms >= 10000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+function formatBytes(bytes: number): string {
+  const gb = bytes / (1024 * 1024 * 1024);
+  return gb >= 1 ? `${gb.toFixed(2)} GB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(' | ')} |`),
+  ];
+}
+
+/**
+ * Step names across documents in first-seen order
+ */
+function stepNames(docs: ResultDocument[]): string[] {
+  const names: string[] = [];
+  for (const doc of docs) {
+    for (const step of doc.steps) {
+      if (!names.includes(step.name)) names.push(step.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Merge result documents into a Markdown report: one table describing each
+ * run and one comparing step timings side by side
+ */
+export function renderMarkdown(docs: ResultDocument[], title = 'Benchmark comparison'): string {
+  const lines: string[] = [`## ${title}`, ''];
+  if (docs.length === 0) {
+    return [...lines, '_No results._', ''].join('\n');
+  }
+
+  lines.push(
+    ...table(
+      ['Run', 'Mode', 'Size', 'Profile', 'Content', 'Backend', 'Iterations', 'Dataset', 'Runner', 'Verification', 'Metadata'],
+      docs.map((doc) => {
+        const c = doc.config;
+        const iterations =
+          c.iterations !== undefined ? `${c.iterations}${c.warmupIterations ? ` (+${c.warmupIterations} warm-up)` : ''}` : '–';
+        const dataset = doc.dataset
+          ? `${doc.dataset.files} files, ${formatBytes(doc.dataset.bytes)}` +
+            (doc.dataset.archiveBytes !== undefined
+              ? ` (archive ${formatBytes(doc.dataset.archiveBytes)}, ` +
+                `${(doc.dataset.bytes / Math.max(doc.dataset.archiveBytes, 1)).toFixed(2)}x)`
+              : '')
+          : '–';
+        const verification = doc.verification ? `${doc.verification.ok ? '✅' : '❌'} ${doc.verification.summary}` : '–';
+        return [
+          doc.name,
+          c.phase ? `${c.mode} (${c.phase})` : c.mode,
+          c.sizeGb !== undefined ? `${c.sizeGb} GB` : '–',
+          c.profile ?? '–',
+          c.content ?? '–',
+          c.backend ?? '–',
+          iterations,
+          dataset,
+          `${c.runner.runnerOs ?? c.runner.os} ${c.runner.arch}, ${c.runner.cpus} CPU, ${formatBytes(c.runner.memoryBytes)}`,
+          verification,
+          doc.metadata ? `${doc.metadata.ok ? '✅' : '⚠️'} ${summarizeSnapshotDiff(doc.metadata)}` : '–',
+        ];
+      })
+    ),
+    ''
+  );
+
+  lines.push(
+    ...table(
+      ['Step', ...docs.map((doc) => doc.name)],
+      stepNames(docs).map((name) => [
+        name,
+        ...docs.map((doc) => {
+          const step = doc.steps.find((s) => s.name === name);
+          if (!step) return '–';
+          let cell = formatMs(step.ms);
+          if (step.mbPerSec !== undefined) cell += ` (${step.mbPerSec.toFixed(1)} MB/s)`;
+          if (doc.kind === 'cache' && step.stats && step.stats.count > 1) cell += ` ±${formatMs(step.stats.stddev)}`;
+          return cell;
+        }),
+      ])
+    ),
+    ''
+  );
+  lines.push('Times are medians across iterations; ± is the standard deviation.', '');
+  return lines.join('\n');
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV row per run and step
+ */
+export function renderCsv(docs: ResultDocument[]): string {
+  const header = [
+    'run',
+    'kind',
+    'mode',
+    'size_gb',
+    'profile',
+    'content',
+    'backend',
+    'commit',
+    'step',
+    'ms',
+    'bytes',
+    'mb_per_sec',
+    'count',
+    'min',
+    'mean',
+    'p50',
+    'p95',
+    'stddev',
+    'peak_rss_bytes',
+    'cpu_user_ms',
+    'cpu_system_ms',
+    'iowait_ms',
+    'disk_read_bytes',
+    'disk_write_bytes',
+    'page_cache_growth_bytes',
+  ];
+  const rows = docs.flatMap((doc) =>
+    doc.steps.map((step) => [
+      doc.name,
+      doc.kind,
+      doc.config.mode,
+      doc.config.sizeGb,
+      doc.config.profile,
+      doc.config.content,
+      doc.config.backend,
+      doc.run.commit,
+      step.name,
+      step.ms.toFixed(1),
+      step.bytes,
+      step.mbPerSec?.toFixed(2),
+      step.stats?.count,
+      step.stats?.min.toFixed(1),
+      step.stats?.mean.toFixed(1),
+      step.stats?.p50.toFixed(1),
+      step.stats?.p95.toFixed(1),
+      step.stats?.stddev.toFixed(1),
+      step.resources?.peakRssBytes,
+      step.resources?.cpuUserMs.toFixed(0),
+      step.resources?.cpuSystemMs.toFixed(0),
+      step.resources?.iowaitMs.toFixed(0),
+      step.resources?.diskReadBytes,
+      step.resources?.diskWriteBytes,
+      step.resources?.pageCacheGrowthBytes,
+    ])
+  );
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
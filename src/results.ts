@@ -0,0 +1,470 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FallbackResult, staleFileCount } from './fallback';
+import { IterationSummary, ITERATION_METRICS, IterationMetric } from './iterations';
+import { failedVerification, RestoreOnlyResult, SaveOnlyResult } from './pipeline';
+import { describeShardStrategy, ShardedResult } from './shards';
+import { SnapshotDiff } from './snapshot';
+import { SampleStats, summarize } from './stats';
+import { StorageInfo } from './storage';
+import { ResourceUsage } from './telemetry';
+import { summarizeVerificationReport, VerificationReport } from './verify';
+import { WorkloadResult } from './workload';
+
+/**
+ * Bumped whenever a field changes meaning or is removed. Readers reject
+ * documents with a version they do not know.
+ */
+export const RESULT_SCHEMA_VERSION = 1;
+
+/**
+ * Where and on what a run happened
+ */
+export interface RunnerInfo {
+  os: string;
+  release: string;
+  arch: string;
+  cpus: number;
+  cpuModel: string;
+  memoryBytes: number;
+  node: string;
+  // GitHub-hosted runner details, when available
+  runnerName?: string;
+  runnerOs?: string;
+  imageOs?: string;
+  imageVersion?: string;
+}
+
+export interface RunInfo {
+  commit?: string;
+  ref?: string;
+  workflow?: string;
+  runId?: string;
+  runAttempt?: string;
+}
+
+export interface ResultConfig {
+  // What was measured, e.g. DISK(ext4), TMPFS(tmpfs) or a mount type
+  mode: string;
+  sizeGb?: number;
+  profile?: string;
+  // Content mode tag, e.g. random or compressible-3x
+  content?: string;
+  backend?: string;
+  // save-only or restore-only for split runs; absent for full runs
+  phase?: string;
+  iterations?: number;
+  warmupIterations?: number;
+  paths: Record<string, string>;
+  // Detected filesystems of the files dir and RUNNER_TEMP
+  storage?: { files: StorageInfo; runnerTemp: StorageInfo };
+  runner: RunnerInfo;
+}
+
+/**
+ * One measured step. `ms` is the median when the step ran more than once.
+ */
+export interface StepResult {
+  name: string;
+  ms: number;
+  bytes?: number;
+  mbPerSec?: number;
+  // Spread across iterations, or per-file latency for read workloads
+  stats?: SampleStats;
+  values?: number[];
+  // Sampled while the step ran; from the last iteration when it ran more than once
+  resources?: ResourceUsage;
+}
+
+export interface ResultDataset {
+  files: number;
+  bytes: number;
+  // Median size of the saved cache entry, when the backend reports it
+  archiveBytes?: number;
+  // Dataset fingerprint from the manifest of split runs
+  fingerprint?: string;
+}
+
+/**
+ * Which key a restore-keys fallback matched and how stale its data was
+ */
+export interface ResultFallback {
+  requestedKey: string;
+  requestedGeneration: number;
+  matchedKey: string;
+  matchedGeneration?: number;
+  generationsBehind?: number;
+  staleFiles: number;
+}
+
+/**
+ * Per-shard timings of a sharded run and its speedup over a single entry
+ */
+export interface ResultShards {
+  strategy: string;
+  concurrency: number;
+  saveSpeedup: number;
+  restoreSpeedup: number;
+  shards: {
+    key: string;
+    directories: number;
+    files: number;
+    bytes: number;
+    archiveBytes?: number;
+    saveMs: number;
+    restoreMs: number;
+    verifyMs: number;
+    ok: boolean;
+  }[];
+}
+
+export interface ResultVerification {
+  ok: boolean;
+  summary: string;
+  report: VerificationReport;
+}
+
+export interface ResultDocument {
+  schemaVersion: typeof RESULT_SCHEMA_VERSION;
+  // Short name the run is reported under, e.g. traditional or juicefs
+  name: string;
+  kind: 'cache' | 'read-workload';
+  createdAt: string;
+  run: RunInfo;
+  config: ResultConfig;
+  dataset?: ResultDataset;
+  steps: StepResult[];
+  verification?: ResultVerification;
+  // Metadata lost between save and restore, for runs that add metadata
+  metadata?: SnapshotDiff;
+  // Restore-keys fallback outcome, for fallback runs
+  fallback?: ResultFallback;
+  // Shard layout and timings, for sharded runs
+  shards?: ResultShards;
+}
+
+export function collectRunnerInfo(): RunnerInfo {
+  const cpus = os.cpus();
+  return {
+    os: os.type(),
+    release: os.release(),
+    arch: os.arch(),
+    cpus: cpus.length,
+    cpuModel: cpus[0]?.model.trim() ?? 'unknown',
+    memoryBytes: os.totalmem(),
+    node: process.version,
+    runnerName: process.env['RUNNER_NAME'],
+    runnerOs: process.env['RUNNER_OS'],
+    imageOs: process.env['ImageOS'],
+    imageVersion: process.env['ImageVersion'],
+  };
+}
+
+export function collectRunInfo(): RunInfo {
+  return {
+    commit: process.env['GITHUB_SHA'],
+    ref: process.env['GITHUB_REF'],
+    workflow: process.env['GITHUB_WORKFLOW'],
+    runId: process.env['GITHUB_RUN_ID'],
+    runAttempt: process.env['GITHUB_RUN_ATTEMPT'],
+  };
+}
+
+function throughput(bytes: number | undefined, ms: number): number | undefined {
+  return bytes === undefined ? undefined : bytes / (1024 * 1024) / Math.max(ms / 1000, 0.001);
+}
+
+/**
+ * Build the document for a cache benchmark from its iterations
+ */
+export function buildCacheResult(
+  name: string,
+  config: Omit<ResultConfig, 'runner'>,
+  summary: IterationSummary
+): ResultDocument {
+  const last = summary.failed ?? summary.results[summary.results.length - 1];
+  const datasetBytes = last?.generation.bytes;
+  // Steps that move the whole dataset get a throughput
+  const bytesFor: Partial<Record<IterationMetric, number | undefined>> = {
+    generate: datasetBytes,
+    save: datasetBytes,
+    save_net: datasetBytes,
+    restore: datasetBytes,
+    restore_net: datasetBytes,
+    verify: datasetBytes,
+    mutate: last?.incremental?.mutation.bytesWritten,
+  };
+
+  const steps: StepResult[] = [];
+  for (const metric of ITERATION_METRICS) {
+    const stats = summary.stats[metric];
+    if (stats.count === 0) continue;
+    steps.push({
+      name: metric,
+      ms: stats.p50,
+      bytes: bytesFor[metric],
+      mbPerSec: throughput(bytesFor[metric], stats.p50),
+      stats,
+      values: summary.values[metric],
+      resources: last?.resources?.[metric],
+    });
+  }
+  const archiveSizes = summary.results.flatMap((r) => (r.saved.sizeBytes !== undefined ? [r.saved.sizeBytes] : []));
+  const dataset: ResultDataset | undefined = last && {
+    files: last.generation.files,
+    bytes: last.generation.bytes,
+    archiveBytes: archiveSizes.length > 0 ? summarize(archiveSizes).p50 : undefined,
+  };
+
+  let verification: ResultVerification | undefined;
+  if (last) {
+    verification = verificationResult(failedVerification(last) ?? last.incremental?.verification ?? last.verification);
+  }
+
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    name,
+    kind: 'cache',
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    config: { ...config, runner: collectRunnerInfo() },
+    dataset,
+    steps,
+    verification,
+    metadata: last?.metadata,
+  };
+}
+
+function verificationResult(report: VerificationReport): ResultVerification {
+  return { ok: report.ok, summary: summarizeVerificationReport(report), report };
+}
+
+/**
+ * Build the document for the save-only half of a split run
+ */
+export function buildSaveOnlyResult(
+  name: string,
+  config: Omit<ResultConfig, 'runner'>,
+  result: SaveOnlyResult
+): ResultDocument {
+  const { bytes } = result.generation;
+  const { generateMs, mutateMs, saveMs } = result.timings;
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    name,
+    kind: 'cache',
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    config: { ...config, runner: collectRunnerInfo() },
+    dataset: {
+      files: result.generation.files,
+      bytes,
+      archiveBytes: result.saved.sizeBytes,
+      fingerprint: result.manifest.fingerprint,
+    },
+    steps: [
+      { name: 'generate', ms: generateMs, bytes, mbPerSec: throughput(bytes, generateMs) },
+      ...(mutateMs !== undefined ? [{ name: 'mutate', ms: mutateMs }] : []),
+      { name: 'save', ms: saveMs, bytes, mbPerSec: throughput(bytes, saveMs) },
+    ].map((step) => ({ ...step, resources: result.resources?.[step.name] })),
+  };
+}
+
+/**
+ * Build the document for the restore-only half of a split run
+ */
+export function buildRestoreOnlyResult(
+  name: string,
+  config: Omit<ResultConfig, 'runner'>,
+  result: RestoreOnlyResult
+): ResultDocument {
+  const { bytesVerified: bytes } = result.verification;
+  const { restoreMs, verifyMs } = result.timings;
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    name,
+    kind: 'cache',
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    config: { ...config, runner: collectRunnerInfo() },
+    dataset: result.manifest && {
+      files: result.manifest.files,
+      bytes: result.manifest.bytes,
+      fingerprint: result.manifest.fingerprint,
+    },
+    steps: [
+      { name: 'restore', ms: restoreMs, bytes, mbPerSec: throughput(bytes, restoreMs) },
+      { name: 'verify', ms: verifyMs, bytes, mbPerSec: throughput(bytes, verifyMs) },
+    ].map((step) => ({ ...step, resources: result.resources?.[step.name] })),
+    verification: verificationResult(result.verification),
+  };
+}
+
+/**
+ * Build the document for a restore-keys fallback run. Saves of later
+ * generations are reported as resave, like in incremental runs.
+ */
+export function buildFallbackResult(
+  name: string,
+  config: Omit<ResultConfig, 'runner'>,
+  result: FallbackResult
+): ResultDocument {
+  const { bytes } = result.generation;
+  const { generateMs, mutateMs, saveMs, fallbackRestoreMs, verifyMs, stalenessMs, lookupMissMs, restoreMissMs } =
+    result.timings;
+  const series = (stepName: string, values: number[]): StepResult[] => {
+    if (values.length === 0) return [];
+    const stats = summarize(values);
+    return [{ name: stepName, ms: stats.p50, stats, values }];
+  };
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    name,
+    kind: 'cache',
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    config: { ...config, runner: collectRunnerInfo() },
+    dataset: { files: result.generation.files, bytes },
+    steps: [
+      { name: 'generate', ms: generateMs, bytes, mbPerSec: throughput(bytes, generateMs) },
+      { name: 'save', ms: saveMs[0], bytes, mbPerSec: throughput(bytes, saveMs[0]) },
+      ...series('mutate', mutateMs.slice(1)),
+      ...series('resave', saveMs.slice(1)),
+      { name: 'fallback_restore', ms: fallbackRestoreMs },
+      { name: 'verify', ms: verifyMs },
+      { name: 'staleness', ms: stalenessMs },
+      { name: 'lookup_miss', ms: lookupMissMs },
+      { name: 'restore_miss', ms: restoreMissMs },
+    ].map((step) => ({ ...step, resources: result.resources?.[step.name] })),
+    verification: verificationResult(result.verification),
+    fallback: {
+      requestedKey: result.requestedKey,
+      requestedGeneration: result.requestedGeneration,
+      matchedKey: result.matchedKey,
+      matchedGeneration: result.matchedGeneration,
+      generationsBehind: result.generationsBehind,
+      staleFiles: staleFileCount(result),
+    },
+  };
+}
+
+/**
+ * Build the document for a sharded run. save and restore are the single-entry
+ * baseline; shard_save and shard_restore are wall-clock times across all shards.
+ */
+export function buildShardedResult(
+  name: string,
+  config: Omit<ResultConfig, 'runner'>,
+  result: ShardedResult
+): ResultDocument {
+  const { bytes } = result.generation;
+  const { generateMs, saveWallMs, restoreWallMs, verifyMs } = result.timings;
+  const step = (stepName: string, ms: number, values?: number[]): StepResult => ({
+    name: stepName,
+    ms,
+    bytes,
+    mbPerSec: throughput(bytes, ms),
+    stats: values && summarize(values),
+    values,
+  });
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    name,
+    kind: 'cache',
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    config: { ...config, runner: collectRunnerInfo() },
+    dataset: { files: result.generation.files, bytes, archiveBytes: result.baseline.saved.sizeBytes },
+    steps: [
+      step('generate', generateMs),
+      step('save', result.baseline.saveMs),
+      step('restore', result.baseline.restoreMs),
+      step('shard_save', saveWallMs, result.shards.map((s) => s.saveMs)),
+      step('shard_restore', restoreWallMs, result.shards.map((s) => s.restoreMs)),
+      step('verify', verifyMs, result.shards.map((s) => s.verifyMs)),
+    ].map((s) => ({ ...s, resources: result.resources?.[s.name] })),
+    verification: verificationResult(result.verification),
+    shards: {
+      strategy: describeShardStrategy(result.strategy),
+      concurrency: result.concurrency,
+      saveSpeedup: result.speedup.save,
+      restoreSpeedup: result.speedup.restore,
+      shards: result.shards.map((s) => ({
+        key: s.key,
+        directories: s.directories.length,
+        files: s.files,
+        bytes: s.bytes,
+        archiveBytes: s.saved.sizeBytes,
+        saveMs: s.saveMs,
+        restoreMs: s.restoreMs,
+        verifyMs: s.verifyMs,
+        ok: s.verification.ok,
+      })),
+    },
+  };
+}
+
+/**
+ * Build the document for a set of read workloads. `extraSteps` carries
+ * timings measured outside the runner, such as mount time.
+ */
+export function buildWorkloadResult(
+  name: string,
+  config: Omit<ResultConfig, 'runner'>,
+  results: WorkloadResult[],
+  extraSteps: StepResult[] = []
+): ResultDocument {
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    name,
+    kind: 'read-workload',
+    createdAt: new Date().toISOString(),
+    run: collectRunInfo(),
+    config: { ...config, runner: collectRunnerInfo() },
+    steps: [
+      ...extraSteps,
+      ...results.map((r) => ({
+        name: r.label,
+        ms: r.totalMs,
+        bytes: r.bytes,
+        // A single byte says nothing about throughput
+        mbPerSec: r.kind === 'first-byte' ? undefined : r.mbPerSec,
+        stats: r.latency,
+      })),
+    ],
+  };
+}
+
+export function writeResultDocument(filePath: string, doc: ResultDocument): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(doc, null, 2) + '\n');
+}
+
+/**
+ * Expand files and directories (searched recursively for *.json) into a list
+ * of result document paths
+ */
+export function findResultFiles(inputs: string[]): string[] {
+  return inputs.flatMap((input) => {
+    if (!fs.statSync(input).isDirectory()) return [input];
+    return fs
+      .readdirSync(input, { recursive: true, encoding: 'utf8' })
+      .filter((name) => name.endsWith('.json'))
+      .sort()
+      .map((name) => path.join(input, name));
+  });
+}
+
+/**
+ * Read a result document, rejecting unknown schema versions
+ */
+export function readResultDocument(filePath: string): ResultDocument {
+  const doc = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ResultDocument;
+  if (doc.schemaVersion !== RESULT_SCHEMA_VERSION) {
+    throw new Error(
+      `${filePath}: unsupported result schema version ${doc.schemaVersion} (expected ${RESULT_SCHEMA_VERSION})`
+    );
+  }
+  return doc;
+}
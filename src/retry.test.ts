@@ -0,0 +1,176 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  CacheMissError,
+  classifyError,
+  computeDelay,
+  FatalCacheError,
+  RetryError,
+  RetryPolicy,
+  RetryStats,
+  withRetry,
+} from './retry';
+import { quietLogger } from './test-helpers';
+
+// Millisecond delays and no jitter, so waits are short and exact
+const POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1,
+  maxDelayMs: 1000,
+  multiplier: 2,
+  jitter: 0,
+  deadlineMs: 0,
+  retryOnMiss: false,
+};
+
+function withStatus(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { statusCode });
+}
+
+function namedError(name: string): Error {
+  const error = new Error(name);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Fails with each error in turn, then succeeds with the attempt number
+ */
+function failing(...errors: unknown[]): (attempt: number) => Promise<number> {
+  return async (attempt) => {
+    if (attempt <= errors.length) throw errors[attempt - 1];
+    return attempt;
+  };
+}
+
+async function retryError(promise: Promise<unknown>): Promise<RetryError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof RetryError);
+    return error;
+  }
+  assert.fail('expected a RetryError');
+}
+
+describe('classifyError', () => {
+  test('treats a missing key as a miss', () => {
+    assert.equal(classifyError(new CacheMissError('key')), 'miss');
+  });
+
+  test('treats validation and reservation errors as fatal', () => {
+    assert.equal(classifyError(new FatalCacheError('bad path')), 'fatal');
+    assert.equal(classifyError(namedError('ValidationError')), 'fatal');
+    assert.equal(classifyError(namedError('ReserveCacheError')), 'fatal');
+  });
+
+  test('treats client errors as fatal, except timeouts and rate limiting', () => {
+    assert.equal(classifyError(withStatus(400)), 'fatal');
+    assert.equal(classifyError(withStatus(404)), 'fatal');
+    assert.equal(classifyError(withStatus(408)), 'retryable');
+    assert.equal(classifyError(withStatus(429)), 'retryable');
+  });
+
+  test('treats server errors and anything unrecognised as retryable', () => {
+    assert.equal(classifyError(withStatus(500)), 'retryable');
+    assert.equal(classifyError(withStatus(503)), 'retryable');
+    assert.equal(classifyError(new Error('socket hang up')), 'retryable');
+    assert.equal(classifyError('not an error'), 'retryable');
+    assert.equal(classifyError(undefined), 'retryable');
+  });
+});
+
+describe('computeDelay', () => {
+  const policy: RetryPolicy = { ...POLICY, baseDelayMs: 1000, maxDelayMs: 10_000, jitter: 0.5 };
+
+  test('grows exponentially up to the cap', () => {
+    const delays = [1, 2, 3, 4, 5, 6].map((attempt) => computeDelay(policy, attempt, () => 0));
+    assert.deepEqual(delays, [1000, 2000, 4000, 8000, 10_000, 10_000]);
+  });
+
+  test('jitter shortens each delay by at most its share', () => {
+    for (const attempt of [1, 3, 8]) {
+      const full = computeDelay(policy, attempt, () => 0);
+      assert.equal(computeDelay(policy, attempt, () => 1), full / 2);
+      for (let i = 0; i < 100; i++) {
+        const delay = computeDelay(policy, attempt);
+        assert.ok(delay >= full / 2 && delay <= full, `attempt ${attempt}: ${delay}ms outside ${full / 2}..${full}`);
+      }
+    }
+  });
+
+  test('full jitter can bring a delay down to zero', () => {
+    assert.equal(computeDelay({ ...policy, jitter: 1 }, 4, () => 1), 0);
+  });
+});
+
+describe('withRetry', () => {
+  test('returns the value with the failures it retried through', async () => {
+    const { value, stats } = await withRetry(
+      'op',
+      POLICY,
+      failing(withStatus(503), new Error('reset')),
+      quietLogger
+    );
+    assert.equal(value, 3);
+    assert.deepEqual(stats, {
+      attempts: 3,
+      waitMs: 1 + 2,
+      failures: ['retryable', 'retryable'],
+      succeeded: true,
+    } satisfies RetryStats);
+  });
+
+  test('stops at the first fatal error', async () => {
+    const cause = new FatalCacheError('bad path');
+    const error = await retryError(withRetry('op', POLICY, failing(withStatus(500), cause), quietLogger));
+    assert.equal(error.lastError, cause);
+    assert.deepEqual(error.stats, { attempts: 2, waitMs: 1, failures: ['retryable', 'fatal'], succeeded: false });
+  });
+
+  test('stops at a miss unless the policy retries misses', async () => {
+    const miss = new CacheMissError('key');
+    const error = await retryError(withRetry('op', POLICY, failing(miss), quietLogger));
+    assert.deepEqual(error.stats.failures, ['miss']);
+    assert.equal(error.stats.attempts, 1);
+
+    const { value, stats } = await withRetry(
+      'op',
+      { ...POLICY, retryOnMiss: true },
+      failing(miss, miss),
+      quietLogger
+    );
+    assert.equal(value, 3);
+    assert.deepEqual(stats.failures, ['miss', 'miss']);
+  });
+
+  test('gives up after maxAttempts', async () => {
+    const error = await retryError(
+      withRetry('op', POLICY, failing(...Array.from({ length: 10 }, () => withStatus(500))), quietLogger)
+    );
+    assert.equal(error.stats.attempts, POLICY.maxAttempts);
+    assert.equal(error.stats.waitMs, 1 + 2 + 4);
+    assert.match(error.message, /after 4 attempts/);
+  });
+
+  test('gives up rather than sleep past the deadline', async () => {
+    // The first retry (100ms) fits in the 250ms deadline unless the first attempt takes
+    // 150ms; after sleeping through it, the second (200ms) cannot fit however fast the machine
+    const policy: RetryPolicy = { ...POLICY, baseDelayMs: 100, deadlineMs: 250, maxAttempts: 10 };
+    const error = await retryError(
+      withRetry('op', policy, failing(withStatus(500), withStatus(500), withStatus(500)), quietLogger)
+    );
+    assert.equal(error.stats.attempts, 2);
+    assert.equal(error.stats.waitMs, 100);
+    assert.match(error.message, /250ms deadline/);
+  });
+
+  test('does not sleep at all when the first delay already passes the deadline', async () => {
+    const policy: RetryPolicy = { ...POLICY, baseDelayMs: 60_000, deadlineMs: 1000 };
+    const start = Date.now();
+    const error = await retryError(withRetry('op', policy, failing(withStatus(500)), quietLogger));
+    assert.equal(error.stats.attempts, 1);
+    assert.equal(error.stats.waitMs, 0);
+    assert.ok(Date.now() - start < 1000);
+  });
+});
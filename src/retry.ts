@@ -0,0 +1,168 @@
+import { actionsLogger, Logger } from './progress';
+
+/**
+ * How an operation is retried. Delays grow exponentially from baseDelayMs,
+ * capped at maxDelayMs, and each is shortened by up to `jitter` of itself.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // 0 = fixed delays, 1 = anywhere between 0 and the full delay
+  jitter: number;
+  // Give up once this much time has passed since the first attempt; 0 = no deadline
+  deadlineMs: number;
+  // Whether a cache miss counts as retryable (true while waiting for an upload to appear)
+  retryOnMiss: boolean;
+}
+
+export type ErrorClass = 'miss' | 'retryable' | 'fatal';
+
+/**
+ * Thrown by backends when the requested key does not exist
+ */
+export class CacheMissError extends Error {
+  constructor(key: string) {
+    super(`No cache entry found for key ${key}`);
+    this.name = 'CacheMissError';
+  }
+}
+
+/**
+ * Errors that retrying cannot fix, such as invalid keys or paths
+ */
+export class FatalCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FatalCacheError';
+  }
+}
+
+/**
+ * What happened while retrying one operation
+ */
+export interface RetryStats {
+  attempts: number;
+  // Time spent sleeping between attempts
+  waitMs: number;
+  // Classification of each failed attempt, in order
+  failures: ErrorClass[];
+  succeeded: boolean;
+}
+
+export class RetryError extends Error {
+  constructor(message: string, readonly stats: RetryStats, readonly lastError: Error) {
+    super(message);
+    this.name = 'RetryError';
+  }
+}
+
+export const DEFAULT_SAVE_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 5000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+  jitter: 0.5,
+  deadlineMs: 0,
+  retryOnMiss: false,
+};
+
+export const DEFAULT_RESTORE_POLICY: RetryPolicy = {
+  ...DEFAULT_SAVE_POLICY,
+  maxAttempts: 6,
+};
+
+export const DEFAULT_AVAILABILITY_POLICY: RetryPolicy = {
+  ...DEFAULT_SAVE_POLICY,
+  maxAttempts: 12,
+  retryOnMiss: true,
+};
+
+// @actions/cache error names that retrying will not fix
+const FATAL_ERROR_NAMES = ['ValidationError', 'ReserveCacheError', 'FatalCacheError'];
+
+/**
+ * Decide whether an error is a miss, worth retrying, or fatal
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (error instanceof CacheMissError) {
+    return 'miss';
+  }
+  if (error instanceof Error && FATAL_ERROR_NAMES.includes(error.name)) {
+    return 'fatal';
+  }
+  const statusCode = (error as { statusCode?: unknown } | undefined)?.statusCode;
+  if (typeof statusCode === 'number' && statusCode >= 400 && statusCode < 500) {
+    // Client errors are permanent, except timeouts and rate limiting
+    return statusCode === 408 || statusCode === 429 ? 'retryable' : 'fatal';
+  }
+  return 'retryable';
+}
+
+/**
+ * Delay before the attempt after `attempt`, including jitter
+ */
+export function computeDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const exponential = policy.baseDelayMs * Math.pow(policy.multiplier, attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * (1 - policy.jitter * random()));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run fn until it succeeds, a fatal error occurs, attempts run out or the deadline passes.
+ * Failures are thrown as a RetryError carrying the stats; successes return them alongside the value.
+ */
+export async function withRetry<T>(
+  label: string,
+  policy: RetryPolicy,
+  fn: (attempt: number) => Promise<T>,
+  logger: Logger = actionsLogger
+): Promise<{ value: T; stats: RetryStats }> {
+  const stats: RetryStats = { attempts: 0, waitMs: 0, failures: [], succeeded: false };
+  const startTime = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    stats.attempts = attempt;
+    try {
+      logger.info(`${label} attempt ${attempt}/${policy.maxAttempts}...`);
+      const value = await fn(attempt);
+      stats.succeeded = true;
+      return { value, stats };
+    } catch (error) {
+      const lastError = error instanceof Error ? error : new Error(String(error));
+      const errorClass = classifyError(error);
+      stats.failures.push(errorClass);
+
+      const retryable = errorClass === 'retryable' || (errorClass === 'miss' && policy.retryOnMiss);
+      if (!retryable) {
+        throw new RetryError(`${label} failed (${errorClass}): ${lastError.message}`, stats, lastError);
+      }
+      if (attempt >= policy.maxAttempts) {
+        throw new RetryError(`${label} failed after ${attempt} attempts: ${lastError.message}`, stats, lastError);
+      }
+
+      const delay = computeDelay(policy, attempt);
+      const elapsed = Date.now() - startTime;
+      if (policy.deadlineMs > 0 && elapsed + delay > policy.deadlineMs) {
+        throw new RetryError(
+          `${label} failed: retrying in ${delay}ms would pass the ${policy.deadlineMs}ms deadline (${elapsed}ms elapsed): ${lastError.message}`,
+          stats,
+          lastError
+        );
+      }
+
+      if (errorClass === 'miss') {
+        logger.info(`${label} attempt ${attempt} missed: ${lastError.message}. Waiting ${delay}ms...`);
+      } else {
+        logger.warning(`${label} attempt ${attempt} failed (${errorClass}): ${lastError.message}. Retrying in ${delay}ms.`);
+      }
+      await sleep(delay);
+      stats.waitMs += delay;
+    }
+  }
+}
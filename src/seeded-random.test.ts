@@ -0,0 +1,62 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { SeededRandom } from './seeded-random';
+import { sha256 } from './test-helpers';
+
+// Produced by the original byte-at-a-time implementation; the fast path must keep them
+const GOLDEN: { seed: number; words: number[]; fill: string }[] = [
+  {
+    seed: 0xdeadbeef,
+    words: [0xf0fd995a, 0x4466f0cf, 0xc5a3fa66, 0x5bb06c70],
+    fill: 'a074e40c07eba8341f596a497cea47e3cdbdccb3c22afab27f114366aef512cd',
+  },
+  {
+    seed: 0,
+    words: [0x4434b462, 0x00159c37, 0x39285b08, 0x256d8104],
+    fill: '0a03acd9bdc71d93ab2317de4d0b1e40b6402fedda858b811f75b290d1ae493f',
+  },
+  {
+    seed: 1,
+    words: [0xa087eaf3, 0x00b349c9, 0x8706c4eb, 0xfb2627fd],
+    fill: 'a9bbafedc3c55d4156eb038225cc5d21ea554427106d1170419926d024946bd5',
+  },
+  {
+    seed: 0x80000000 | 0,
+    words: [0xd2115efc, 0x72b744bb, 0xc89abfcc, 0x83156eed],
+    fill: '5aee124f47453f75fd3c724d00d2eeffbe4b9f53e72e760e88f046e0d23c1662',
+  },
+];
+
+// Long enough for whole words and a partial one at the end
+const FILL_BYTES = 64 * 1024 + 3;
+
+describe('SeededRandom', () => {
+  for (const { seed, words, fill } of GOLDEN) {
+    test(`seed ${seed} produces the golden words`, () => {
+      const rng = new SeededRandom(seed);
+      assert.deepEqual(words.map(() => rng.nextUint32()), words);
+    });
+
+    test(`seed ${seed} fills an aligned buffer with the golden bytes`, () => {
+      const buffer = Buffer.alloc(FILL_BYTES);
+      new SeededRandom(seed).fillBuffer(buffer);
+      assert.equal(sha256(buffer), fill);
+    });
+
+    test(`seed ${seed} fills an unaligned buffer with the golden bytes`, () => {
+      const backing = Buffer.alloc(FILL_BYTES + 1);
+      const buffer = backing.subarray(1);
+      new SeededRandom(seed).fillBuffer(buffer);
+      assert.equal(sha256(buffer), fill);
+    });
+  }
+
+  test('filling in pieces continues the same stream', () => {
+    const whole = Buffer.alloc(4096);
+    new SeededRandom(7).fillBuffer(whole);
+    const rng = new SeededRandom(7);
+    const pieces = [Buffer.alloc(1024), Buffer.alloc(2048), Buffer.alloc(1024)];
+    pieces.forEach((piece) => rng.fillBuffer(piece));
+    assert.deepEqual(Buffer.concat(pieces), whole);
+  });
+});
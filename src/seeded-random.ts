@@ -1,3 +1,7 @@
+import * as os from 'os';
+
+const LITTLE_ENDIAN = os.endianness() === 'LE';
+
 /**
  * Mulberry32 PRNG - fast, simple seeded random number generator
  * Produces deterministic sequences based on seed
@@ -6,14 +10,15 @@ export class SeededRandom {
   private state: number;
 
   constructor(seed: number) {
-    this.state = seed;
+    this.state = seed | 0;
   }
 
   /**
    * Returns a random 32-bit unsigned integer
    */
   nextUint32(): number {
-    let t = (this.state += 0x6d2b79f5);
+    // Wrap to 32 bits so long streams never lose precision
+    let t = (this.state = (this.state + 0x6d2b79f5) | 0);
     t = Math.imul(t ^ (t >>> 15), t | 1);
     t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
     return ((t ^ (t >>> 14)) >>> 0);
@@ -23,10 +28,23 @@ export class SeededRandom {
    * Fill a buffer with seeded random bytes (uncompressible)
    */
   fillBuffer(buffer: Buffer): void {
-    // Fill 4 bytes at a time for efficiency
-    const uint32Count = Math.floor(buffer.length / 4);
-    for (let i = 0; i < uint32Count; i++) {
-      buffer.writeUInt32LE(this.nextUint32(), i * 4);
+    const uint32Count = buffer.length >>> 2;
+    if (LITTLE_ENDIAN && buffer.byteOffset % 4 === 0) {
+      // Fast path: write words straight through a Uint32Array view, with the
+      // PRNG step inlined. Produces the same bytes as writeUInt32LE below.
+      const words = new Uint32Array(buffer.buffer, buffer.byteOffset, uint32Count);
+      let state = this.state;
+      for (let i = 0; i < uint32Count; i++) {
+        let t = (state = (state + 0x6d2b79f5) | 0);
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        words[i] = t ^ (t >>> 14);
+      }
+      this.state = state;
+    } else {
+      for (let i = 0; i < uint32Count; i++) {
+        buffer.writeUInt32LE(this.nextUint32(), i * 4);
+      }
     }
     // Fill remaining bytes
     const remaining = buffer.length % 4;
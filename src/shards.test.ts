@@ -0,0 +1,87 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BUILTIN_PROFILES, DatasetPlan, planDataset } from './profiles';
+import { parseShardStrategy, planShards, Shard } from './shards';
+import { TINY_PROFILE, TINY_SIZE_GB } from './test-helpers';
+
+/**
+ * Every planned file lands in exactly one shard, and the shard totals add up
+ */
+function assertCovers(plan: DatasetPlan, shards: Shard[]): void {
+  const owner = new Map<string, number>();
+  for (const shard of shards) {
+    for (const dir of shard.directories) {
+      assert.equal(owner.has(dir), false, `${dir} is in two shards`);
+      owner.set(dir, shard.index);
+    }
+  }
+  const files = shards.map(() => 0);
+  const bytes = shards.map(() => 0);
+  for (const file of plan.files) {
+    const owners = [...owner].filter(([dir]) => file.relativePath.startsWith(`${dir}/`));
+    assert.equal(owners.length, 1, `${file.relativePath} is in ${owners.length} shards`);
+    files[owners[0][1]]++;
+    bytes[owners[0][1]] += file.size;
+  }
+  assert.deepEqual(shards.map((s) => s.files), files);
+  assert.deepEqual(shards.map((s) => s.bytes), bytes);
+  assert.deepEqual(shards.map((s) => s.index), shards.map((_, i) => i));
+}
+
+describe('parseShardStrategy', () => {
+  test('accepts top-level or a positive shard count', () => {
+    assert.deepEqual(parseShardStrategy('top-level'), { kind: 'top-level' });
+    assert.deepEqual(parseShardStrategy('4'), { kind: 'balanced', count: 4 });
+  });
+
+  test('rejects anything else', () => {
+    for (const value of ['0', '-1', '2.5', 'many', '']) {
+      assert.throws(() => parseShardStrategy(value), /positive number of shards/, value);
+    }
+  });
+});
+
+describe('planShards', () => {
+  const tiny = planDataset(TINY_PROFILE, TINY_SIZE_GB);
+
+  test('top-level makes one shard per top-level directory', () => {
+    const shards = planShards(tiny, { kind: 'top-level' });
+    assert.deepEqual(shards.map((s) => s.directories), [['dir_0'], ['dir_1'], ['dir_2']]);
+    assertCovers(tiny, shards);
+  });
+
+  test('balanced descends until there are enough directories to fill every shard', () => {
+    const shards = planShards(tiny, { kind: 'balanced', count: 8 });
+    assert.equal(shards.length, 8);
+    for (const shard of shards) {
+      assert.ok(shard.directories.length > 0);
+      assert.ok(shard.directories.every((dir) => /^dir_\d+\/sub_\d+$/.test(dir)), shard.directories.join());
+    }
+    assertCovers(tiny, shards);
+  });
+
+  test('balanced makes fewer shards when the deepest level runs out of directories', () => {
+    const shards = planShards(tiny, { kind: 'balanced', count: 100 });
+    assert.equal(shards.length, 3 * 4);
+    assertCovers(tiny, shards);
+  });
+
+  test('splits a node_modules-like tree of 8GB', () => {
+    const plan = planDataset(BUILTIN_PROFILES['node_modules-like'], 8);
+    assert.ok(plan.files.length > 200_000);
+
+    const topLevel = planShards(plan, { kind: 'top-level' });
+    assert.equal(topLevel.length, new Set(plan.files.map((f) => f.relativePath.split('/')[0])).size);
+    assertCovers(plan, topLevel);
+
+    const balanced = planShards(plan, { kind: 'balanced', count: 8 });
+    assert.equal(balanced.length, 8);
+    assertCovers(plan, balanced);
+    // Largest directory first into the emptiest shard: no shard exceeds its fair share by more than one directory
+    const total = balanced.reduce((sum, s) => sum + s.bytes, 0);
+    const largestDirectory = Math.max(...topLevel.map((s) => s.bytes));
+    for (const shard of balanced) {
+      assert.ok(shard.bytes <= total / 8 + largestDirectory, `shard ${shard.index}: ${shard.bytes} bytes`);
+    }
+  });
+});
@@ -0,0 +1,352 @@
+import * as path from 'path';
+import { SaveResult } from './backend';
+import { deleteFileHierarchy, generateFileHierarchy, GenerationStats } from './generate';
+import { deleteAndRestore, PipelineConfig, resolvePolicies, restoreOrMiss, saveAndAwait } from './pipeline';
+import { DatasetPlan, FileSpec, planDataset } from './profiles';
+import { actionsLogger } from './progress';
+import { CacheMissError, withRetry } from './retry';
+import { logResourceUsage, ResourceUsage, StepTelemetry } from './telemetry';
+import { mergeVerificationReports, summarizeVerificationReport, verifyFileHierarchy, VerificationReport } from './verify';
+
+export const DEFAULT_SHARD_CONCURRENCY = 4;
+
+/**
+ * How to split a tree: one shard per top-level directory (dir_N), or a fixed
+ * number of shards balanced by bytes
+ */
+export type ShardStrategy = { kind: 'top-level' } | { kind: 'balanced'; count: number };
+
+export interface ShardingConfig {
+  strategy: ShardStrategy;
+  // Shards saved or restored at the same time
+  concurrency: number;
+}
+
+/**
+ * A set of directories saved as one cache entry
+ */
+export interface Shard {
+  index: number;
+  // Relative to the files directory
+  directories: string[];
+  files: number;
+  bytes: number;
+}
+
+export interface ShardResult extends Shard {
+  key: string;
+  saved: SaveResult;
+  // The save alone, without waiting for the entry to become available
+  saveMs: number;
+  restoreMs: number;
+  verifyMs: number;
+  verification: VerificationReport;
+}
+
+export interface ShardedResult {
+  strategy: ShardStrategy;
+  concurrency: number;
+  generation: GenerationStats;
+  shards: ShardResult[];
+  // The whole tree as a single entry, measured in the same run
+  baseline: { saved: SaveResult; saveMs: number; restoreMs: number };
+  timings: {
+    generateMs: number;
+    // Wall-clock time from the first shard starting to the last one finishing; like the
+    // baseline's save time, the save excludes waiting for the entries to become available
+    saveWallMs: number;
+    availabilityWallMs: number;
+    restoreWallMs: number;
+    verifyMs: number;
+  };
+  // Baseline time divided by sharded wall-clock time
+  speedup: { save: number; restore: number };
+  verification: VerificationReport;
+  resources?: Record<string, ResourceUsage>;
+}
+
+/**
+ * Parse the shards input: "top-level" or a shard count
+ */
+export function parseShardStrategy(value: string): ShardStrategy {
+  if (value === 'top-level') {
+    return { kind: 'top-level' };
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`shards must be top-level or a positive number of shards, got "${value}"`);
+  }
+  return { kind: 'balanced', count };
+}
+
+export function describeShardStrategy(strategy: ShardStrategy): string {
+  return strategy.kind === 'top-level' ? 'top-level' : `balanced-${strategy.count}`;
+}
+
+function directoryAtDepth(file: FileSpec, depth: number): string {
+  return path.dirname(file.relativePath).split(path.sep).slice(0, depth).join(path.sep);
+}
+
+/**
+ * Split a planned dataset into shards of whole directories. Balanced shards
+ * use the shallowest directory level with at least `count` directories and
+ * fill the emptiest shard with the largest directory first.
+ */
+export function planShards(plan: DatasetPlan, strategy: ShardStrategy): Shard[] {
+  // A loop rather than Math.min(...): spreading hundreds of thousands of files overflows the stack
+  let maxDepth = Infinity;
+  for (const file of plan.files) {
+    maxDepth = Math.min(maxDepth, path.dirname(file.relativePath).split(path.sep).length);
+  }
+  let depth = 1;
+  const group = (): Map<string, FileSpec[]> => {
+    const units = new Map<string, FileSpec[]>();
+    for (const file of plan.files) {
+      const dir = directoryAtDepth(file, depth);
+      const files = units.get(dir);
+      if (files) {
+        files.push(file);
+      } else {
+        units.set(dir, [file]);
+      }
+    }
+    return units;
+  };
+  let units = group();
+  if (strategy.kind === 'balanced') {
+    while (units.size < strategy.count && depth < maxDepth) {
+      depth++;
+      units = group();
+    }
+  }
+
+  const sized = [...units].map(([dir, files]) => ({
+    dir,
+    files: files.length,
+    bytes: files.reduce((sum, f) => sum + f.size, 0),
+  }));
+  if (strategy.kind === 'top-level') {
+    return sized.map((unit, index) => ({ index, directories: [unit.dir], files: unit.files, bytes: unit.bytes }));
+  }
+
+  const shards: Shard[] = Array.from({ length: Math.min(strategy.count, sized.length) }, (_, index) => ({
+    index,
+    directories: [],
+    files: 0,
+    bytes: 0,
+  }));
+  for (const unit of [...sized].sort((a, b) => b.bytes - a.bytes || a.dir.localeCompare(b.dir))) {
+    const target = shards.reduce((min, shard) => (shard.bytes < min.bytes ? shard : min));
+    target.directories.push(unit.dir);
+    target.files += unit.files;
+    target.bytes += unit.bytes;
+  }
+  return shards;
+}
+
+/**
+ * Run fn over items with at most `concurrency` calls in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, () => worker()));
+  return results;
+}
+
+/**
+ * Save and restore the tree once as a single entry, then as shards with
+ * bounded parallelism, and verify each shard on its own
+ */
+export async function runShardedScenario(config: PipelineConfig, sharding: ShardingConfig): Promise<ShardedResult> {
+  const { backend, filesPath, cacheKey, sizeGb, profile } = config;
+  const logger = config.logger ?? actionsLogger;
+  const policies = resolvePolicies(config);
+  const telemetry = new StepTelemetry(config.sampleIntervalMs);
+  const { concurrency } = sharding;
+
+  // Files left by an earlier run would be saved with the shards but never verified
+  await deleteFileHierarchy(filesPath, logger);
+
+  logger.startGroup(`Step 1: Generate ${sizeGb}GB file hierarchy (${profile.name})`);
+  const genStart = Date.now();
+  const endGenerateSample = telemetry.begin('generate');
+  const generation = await generateFileHierarchy(filesPath, sizeGb, profile, {
+    concurrency: config.generateConcurrency,
+    logger,
+  });
+  const generateMs = Date.now() - genStart;
+  endGenerateSample();
+  logger.info(`[${generateMs}ms] Generation complete`);
+  logger.endGroup();
+
+  const shards = planShards(planDataset(profile, sizeGb), sharding.strategy);
+  logger.info(`Split into ${shards.length} shards (${describeShardStrategy(sharding.strategy)}, concurrency ${concurrency})`);
+  for (const shard of shards) {
+    logger.info(
+      `  shard ${shard.index}: ${shard.directories.length} directories, ${shard.files} files, ` +
+        `${(shard.bytes / (1024 * 1024)).toFixed(1)} MB`
+    );
+  }
+
+  // Baseline: the whole tree as one entry
+  const baselineKey = `${cacheKey}-single`;
+  const { saved: baselineSaved, saveMs: baselineSaveMs } = await saveAndAwait(
+    backend,
+    [filesPath],
+    baselineKey,
+    policies,
+    '2',
+    telemetry,
+    'save',
+    logger
+  );
+  const { restoreMs: baselineRestoreMs } = await deleteAndRestore(
+    backend,
+    filesPath,
+    baselineKey,
+    policies,
+    ['3', '4'],
+    [],
+    telemetry,
+    ['delete', 'restore'],
+    logger
+  );
+
+  const shardKey = (shard: Shard): string => `${cacheKey}-shard${shard.index}of${shards.length}`;
+  const shardPaths = (shard: Shard): string[] => shard.directories.map((dir) => path.join(filesPath, dir));
+
+  logger.startGroup(`Step 5: Save ${shards.length} shards (${backend.name})`);
+  const saveStart = Date.now();
+  const endSaveSample = telemetry.begin('shard_save');
+  const saves = await mapWithConcurrency(shards, concurrency, async (shard) => {
+    const start = Date.now();
+    const key = shardKey(shard);
+    const { value: saved } = await withRetry(
+      `Shard ${shard.index} save`,
+      policies.save,
+      () => backend.save(shardPaths(shard), key),
+      logger
+    );
+    const ms = Date.now() - start;
+    logger.info(`[${ms}ms] Shard ${shard.index} saved as ${key}`);
+    return { saved, ms };
+  });
+  const saveWallMs = Date.now() - saveStart;
+  endSaveSample();
+  logger.info(`[${saveWallMs}ms] All shards saved`);
+  logger.endGroup();
+
+  // Ensure every shard is available before deleting local files
+  logger.startGroup('Step 5b: Wait for shard availability');
+  const availabilityStart = Date.now();
+  await mapWithConcurrency(shards, concurrency, (shard) =>
+    withRetry(
+      `Shard ${shard.index} availability check`,
+      policies.availability,
+      async () => {
+        if (!(await backend.lookup(shardPaths(shard), shardKey(shard)))) {
+          throw new CacheMissError(shardKey(shard));
+        }
+      },
+      logger
+    )
+  );
+  const availabilityWallMs = Date.now() - availabilityStart;
+  logger.info(`[${availabilityWallMs}ms] All shards available`);
+  logger.endGroup();
+
+  logger.startGroup('Step 6: Delete file hierarchy');
+  await deleteFileHierarchy(filesPath, logger);
+  logger.endGroup();
+
+  logger.startGroup(`Step 7: Restore ${shards.length} shards (${backend.name})`);
+  const restoreStart = Date.now();
+  const endRestoreSample = telemetry.begin('shard_restore');
+  const restores = await mapWithConcurrency(shards, concurrency, async (shard) => {
+    const start = Date.now();
+    const key = shardKey(shard);
+    await withRetry(
+      `Shard ${shard.index} restore`,
+      policies.restore,
+      () => restoreOrMiss(backend, shardPaths(shard), key),
+      logger
+    );
+    const ms = Date.now() - start;
+    logger.info(`[${ms}ms] Shard ${shard.index} restored`);
+    return ms;
+  });
+  const restoreWallMs = Date.now() - restoreStart;
+  endRestoreSample();
+  logger.info(`[${restoreWallMs}ms] All shards restored`);
+  logger.endGroup();
+
+  // Verified one at a time; each verification already spreads over worker threads
+  logger.startGroup('Step 8: Verify each shard');
+  const results: ShardResult[] = [];
+  const endVerifySample = telemetry.begin('verify');
+  for (const shard of shards) {
+    const start = Date.now();
+    const verification = await verifyFileHierarchy(filesPath, sizeGb, profile, {
+      concurrency: config.verifyConcurrency,
+      include: shard.directories,
+      logger,
+    });
+    results.push({
+      ...shard,
+      key: shardKey(shard),
+      saved: saves[shard.index].saved,
+      saveMs: saves[shard.index].ms,
+      restoreMs: restores[shard.index],
+      verifyMs: Date.now() - start,
+      verification,
+    });
+  }
+  endVerifySample();
+  const verifyMs = results.reduce((sum, r) => sum + r.verifyMs, 0);
+  const verification = mergeVerificationReports(results.map((r) => r.verification));
+  logger.endGroup();
+
+  const speedup = {
+    save: baselineSaveMs / Math.max(saveWallMs, 1),
+    restore: baselineRestoreMs / Math.max(restoreWallMs, 1),
+  };
+
+  logger.info('');
+  logger.info('=== Sharded Summary ===');
+  logger.info(`Mode:               ${config.label}`);
+  logger.info(`Backend:            ${backend.name}`);
+  logger.info(`Shards:             ${shards.length} (${describeShardStrategy(sharding.strategy)}, concurrency ${concurrency})`);
+  logger.info(`Single save:        ${baselineSaveMs}ms`);
+  logger.info(`Sharded save:       ${saveWallMs}ms (${speedup.save.toFixed(2)}x)`);
+  logger.info(`Shard availability: ${availabilityWallMs}ms`);
+  logger.info(`Single restore:     ${baselineRestoreMs}ms`);
+  logger.info(`Sharded restore:    ${restoreWallMs}ms (${speedup.restore.toFixed(2)}x)`);
+  logger.info(`Verification:       ${summarizeVerificationReport(verification)}`);
+  for (const r of results) {
+    logger.info(
+      `  shard ${r.index}: save ${r.saveMs}ms, restore ${r.restoreMs}ms, verify ${r.verifyMs}ms` +
+        (r.verification.ok ? '' : ` - ${summarizeVerificationReport(r.verification)}`)
+    );
+  }
+  logResourceUsage(telemetry.result(), logger);
+  logger.info('=======================');
+
+  return {
+    strategy: sharding.strategy,
+    concurrency,
+    generation,
+    shards: results,
+    baseline: { saved: baselineSaved, saveMs: baselineSaveMs, restoreMs: baselineRestoreMs },
+    timings: { generateMs, saveWallMs, availabilityWallMs, restoreWallMs, verifyMs },
+    speedup,
+    verification,
+    resources: telemetry.result(),
+  };
+}
@@ -0,0 +1,276 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { actionsLogger, Logger } from './progress';
+
+const DEFAULT_MAX_DIFFERENCES = 20;
+
+const execFileAsync = promisify(execFile);
+
+export type EntryType = 'file' | 'directory' | 'symlink' | 'other';
+
+/**
+ * Metadata of one entry in a tree
+ */
+export interface EntrySnapshot {
+  type: EntryType;
+  // Permission bits, including setuid, setgid and sticky
+  mode: number;
+  size: number;
+  mtimeMs: number;
+  linkTarget?: string;
+  // Smallest path sharing this file's inode, when it has more than one link
+  hardlinkGroup?: string;
+  // user.* extended attributes, hex-encoded
+  xattrs?: Record<string, string>;
+  // Directories without entries
+  empty?: boolean;
+}
+
+/**
+ * Metadata of every entry below a root, keyed by path relative to it
+ */
+export interface TreeSnapshot {
+  root: string;
+  // False when getfattr is unavailable, so xattrs were not read
+  xattrs: boolean;
+  entries: Record<string, EntrySnapshot>;
+}
+
+export const METADATA_KINDS = [
+  'missing',
+  'extra',
+  'type',
+  'permissions',
+  'symlink',
+  'hardlink',
+  'mtime',
+  'xattr',
+  'emptyDir',
+] as const;
+export type MetadataKind = (typeof METADATA_KINDS)[number];
+
+export interface MetadataDifference {
+  path: string;
+  detail: string;
+}
+
+/**
+ * Metadata that changed between two snapshots of the same tree
+ */
+export interface SnapshotDiff {
+  ok: boolean;
+  entriesCompared: number;
+  counts: Record<MetadataKind, number>;
+  // First differences per kind, capped at maxDifferences
+  differences: Record<MetadataKind, MetadataDifference[]>;
+  // Kinds that could not be compared
+  skipped: MetadataKind[];
+}
+
+/**
+ * Read user.* xattrs below root with one getfattr call. Resolves to
+ * undefined when getfattr is not installed.
+ */
+async function readXattrs(root: string): Promise<Map<string, Record<string, string>> | undefined> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      'getfattr',
+      ['--absolute-names', '--recursive', '--no-dereference', '--dump', '--match=^user\\.', '--encoding=hex', root],
+      { maxBuffer: 256 * 1024 * 1024 }
+    ));
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stdout?: string };
+    if (err.code === 'ENOENT') {
+      return undefined;
+    }
+    // getfattr exits non-zero when some entries cannot be read but still dumps the rest
+    stdout = err.stdout ?? '';
+  }
+
+  const result = new Map<string, Record<string, string>>();
+  let current: Record<string, string> | undefined;
+  for (const line of stdout.split('\n')) {
+    if (line.startsWith('# file: ')) {
+      current = {};
+      result.set(path.relative(root, line.slice('# file: '.length)), current);
+    } else if (current && line.includes('=')) {
+      const eq = line.indexOf('=');
+      current[line.slice(0, eq)] = line.slice(eq + 1);
+    }
+  }
+  return result;
+}
+
+function entryType(stats: fs.Stats): EntryType {
+  if (stats.isFile()) return 'file';
+  if (stats.isDirectory()) return 'directory';
+  if (stats.isSymbolicLink()) return 'symlink';
+  return 'other';
+}
+
+/**
+ * Record the metadata of every entry below root. Symlinks are not followed.
+ */
+export async function takeSnapshot(root: string): Promise<TreeSnapshot> {
+  const entries: Record<string, EntrySnapshot> = {};
+  const inodes = new Map<string, string[]>();
+
+  const walk = async (relDir: string): Promise<number> => {
+    const names = await fs.promises.readdir(path.join(root, relDir));
+    for (const name of names) {
+      const relPath = path.join(relDir, name);
+      const fullPath = path.join(root, relPath);
+      const stats = await fs.promises.lstat(fullPath);
+      const entry: EntrySnapshot = {
+        type: entryType(stats),
+        mode: stats.mode & 0o7777,
+        size: stats.isFile() ? stats.size : 0,
+        mtimeMs: stats.mtimeMs,
+      };
+      if (entry.type === 'symlink') {
+        entry.linkTarget = await fs.promises.readlink(fullPath);
+      } else if (entry.type === 'file' && stats.nlink > 1) {
+        const inode = `${stats.dev}:${stats.ino}`;
+        inodes.set(inode, [...(inodes.get(inode) ?? []), relPath]);
+      } else if (entry.type === 'directory') {
+        entry.empty = (await walk(relPath)) === 0;
+      }
+      entries[relPath] = entry;
+    }
+    return names.length;
+  };
+  await walk('');
+
+  for (const paths of inodes.values()) {
+    // Links outside the tree also raise nlink; only paths that share an inode here form a group
+    if (paths.length < 2) continue;
+    const group = [...paths].sort()[0];
+    for (const p of paths) {
+      entries[p].hardlinkGroup = group;
+    }
+  }
+
+  const xattrs = await readXattrs(root);
+  for (const [relPath, values] of xattrs ?? []) {
+    if (entries[relPath] && Object.keys(values).length > 0) {
+      entries[relPath].xattrs = values;
+    }
+  }
+  return { root, xattrs: xattrs !== undefined, entries };
+}
+
+function byKind<T>(initial: () => T): Record<MetadataKind, T> {
+  const record = {} as Record<MetadataKind, T>;
+  for (const kind of METADATA_KINDS) {
+    record[kind] = initial();
+  }
+  return record;
+}
+
+function formatMode(mode: number): string {
+  return mode.toString(8).padStart(4, '0');
+}
+
+function sameXattrs(a: Record<string, string> | undefined, b: Record<string, string> | undefined): boolean {
+  const keys = new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]);
+  return [...keys].every((key) => a?.[key] === b?.[key]);
+}
+
+/**
+ * Compare two snapshots of a tree and list what `after` lost or changed.
+ * Modification times are compared for regular files at whole-second precision,
+ * which is what tar keeps.
+ */
+export function diffSnapshots(
+  before: TreeSnapshot,
+  after: TreeSnapshot,
+  maxDifferences = DEFAULT_MAX_DIFFERENCES
+): SnapshotDiff {
+  const diff: SnapshotDiff = {
+    ok: true,
+    entriesCompared: 0,
+    counts: byKind(() => 0),
+    differences: byKind((): MetadataDifference[] => []),
+    skipped: before.xattrs && after.xattrs ? [] : ['xattr'],
+  };
+  const record = (kind: MetadataKind, relPath: string, detail: string): void => {
+    diff.ok = false;
+    diff.counts[kind]++;
+    if (diff.differences[kind].length < maxDifferences) {
+      diff.differences[kind].push({ path: relPath, detail });
+    }
+  };
+
+  for (const [relPath, was] of Object.entries(before.entries)) {
+    diff.entriesCompared++;
+    const now = after.entries[relPath];
+    if (!now) {
+      if (was.type === 'directory' && was.empty) {
+        record('emptyDir', relPath, 'empty directory was not restored');
+      } else {
+        record('missing', relPath, `${was.type} does not exist`);
+      }
+      continue;
+    }
+    if (now.type !== was.type) {
+      record(was.type === 'symlink' ? 'symlink' : 'type', relPath, `${was.type} became a ${now.type}`);
+      continue;
+    }
+    if (was.type !== 'symlink' && now.mode !== was.mode) {
+      record('permissions', relPath, `mode ${formatMode(was.mode)} became ${formatMode(now.mode)}`);
+    }
+    if (was.type === 'symlink' && now.linkTarget !== was.linkTarget) {
+      record('symlink', relPath, `target ${was.linkTarget} became ${now.linkTarget}`);
+    }
+    if (was.hardlinkGroup !== now.hardlinkGroup && was.hardlinkGroup !== undefined) {
+      record('hardlink', relPath, `hard link group ${was.hardlinkGroup} was split`);
+    }
+    if (was.type === 'file' && Math.floor(was.mtimeMs / 1000) !== Math.floor(now.mtimeMs / 1000)) {
+      record('mtime', relPath, `${new Date(was.mtimeMs).toISOString()} became ${new Date(now.mtimeMs).toISOString()}`);
+    }
+    if (diff.skipped.length === 0 && !sameXattrs(was.xattrs, now.xattrs)) {
+      record('xattr', relPath, `xattrs ${JSON.stringify(was.xattrs ?? {})} became ${JSON.stringify(now.xattrs ?? {})}`);
+    }
+  }
+  for (const relPath of Object.keys(after.entries)) {
+    if (!before.entries[relPath]) {
+      record('extra', relPath, 'not present before');
+    }
+  }
+  return diff;
+}
+
+/**
+ * Metadata kinds that differ, with their counts, e.g. "permissions (12), mtime (400)"
+ */
+export function summarizeSnapshotDiff(diff: SnapshotDiff): string {
+  if (diff.ok) {
+    return `all metadata preserved across ${diff.entriesCompared} entries`;
+  }
+  const lost = METADATA_KINDS.filter((kind) => diff.counts[kind] > 0).map((kind) => `${kind} (${diff.counts[kind]})`);
+  return `lost ${lost.join(', ')} across ${diff.entriesCompared} entries`;
+}
+
+/**
+ * Log a snapshot diff, one warning line per listed difference
+ */
+export function logSnapshotDiff(diff: SnapshotDiff, label: string, logger: Logger = actionsLogger): void {
+  const skipped = diff.skipped.length > 0 ? ` (not compared: ${diff.skipped.join(', ')})` : '';
+  if (diff.ok) {
+    logger.info(`${label}: ${summarizeSnapshotDiff(diff)}${skipped}`);
+    return;
+  }
+  logger.warning(`${label}: ${summarizeSnapshotDiff(diff)}${skipped}`);
+  for (const kind of METADATA_KINDS) {
+    for (const difference of diff.differences[kind]) {
+      logger.info(`  [${kind}] ${difference.path}: ${difference.detail}`);
+    }
+    const hidden = diff.counts[kind] - diff.differences[kind].length;
+    if (hidden > 0) {
+      logger.info(`  [${kind}] ... and ${hidden} more`);
+    }
+  }
+}
@@ -0,0 +1,690 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileContentStream } from './content';
+import { MANIFEST_FILE } from './manifest';
+import { DatasetPlan, FileSpec } from './profiles';
+import {
+  DATA_UNCOMPRESSED,
+  DIRECTORY_ENTRY_SIZE,
+  DIRECTORY_HEADER_SIZE,
+  FRAGMENT_ENTRY_SIZE,
+  INODE_DIRECTORY,
+  INODE_EXTENDED_DIRECTORY,
+  INODE_EXTENDED_FILE,
+  INODE_EXTENDED_SYMLINK,
+  INODE_FILE,
+  INODE_SYMLINK,
+  METADATA_BLOCK_SIZE,
+  METADATA_UNCOMPRESSED,
+  metadataRefFromValue,
+  NO_FRAGMENT,
+  parseSuperblock,
+  SquashfsSuperblock,
+  SUPERBLOCK_SIZE,
+} from './squashfs';
+import { emptyVerificationReport, recordOffender, VerificationCategory, VerificationReport } from './verify';
+
+const SIZE_MASK = DATA_UNCOMPRESSED - 1;
+const FRAGMENTS_PER_BLOCK = METADATA_BLOCK_SIZE / FRAGMENT_ENTRY_SIZE;
+const IDS_PER_BLOCK = METADATA_BLOCK_SIZE / 4;
+// Entry types by basic inode type; extended types are the basic ones plus 7
+const ENTRY_TYPES = ['directory', 'file', 'symlink', 'block-device', 'char-device', 'fifo', 'socket'] as const;
+
+export type SquashfsEntryType = (typeof ENTRY_TYPES)[number];
+
+/**
+ * Where a regular file's content is stored
+ */
+export interface SquashfsFileLayout {
+  blocksStart: number;
+  // Stored size per block with DATA_UNCOMPRESSED set when uncompressed; 0 for a sparse block
+  blockSizes: number[];
+  fragment?: { index: number; offset: number };
+}
+
+export interface SquashfsEntry {
+  // Relative to the root of the image, with / separators
+  path: string;
+  type: SquashfsEntryType;
+  mode: number;
+  uid: number;
+  gid: number;
+  mtime: number;
+  inodeNumber: number;
+  linkCount: number;
+  // Content bytes of a file, target length of a symlink, listing size of a directory
+  size: number;
+  target?: string;
+  layout?: SquashfsFileLayout;
+}
+
+export interface SquashfsExtractStats {
+  files: number;
+  directories: number;
+  symlinks: number;
+  hardlinks: number;
+  // Devices, fifos and sockets, which are not extracted
+  skipped: number;
+  bytes: number;
+}
+
+/**
+ * How the blocks of an image are laid out, and the range reads that implies
+ * for a mount that fetches every block it needs from remote storage
+ */
+export interface SquashfsLayoutStats {
+  // Up to the end of the last table, without the padding after it
+  bytesUsed: number;
+  blockSize: number;
+  files: number;
+  directories: number;
+  symlinks: number;
+  hardlinks: number;
+  dataBytes: number;
+  // Stored data blocks, each counted once however many files share it
+  dataBlocks: number;
+  // References to a data block beyond the first, i.e. what deduplication saved
+  sharedBlockReferences: number;
+  sparseBlocks: number;
+  fragmentBlocks: number;
+  filesInFragments: number;
+  metadataBlocks: { inodes: number; directories: number; fragments: number; ids: number };
+  metadataBytes: number;
+  reads: {
+    // Reads to fetch every file once when no block is fetched twice: superblock, metadata, data and fragments
+    full: number;
+    // Data and fragment block reads to fetch one file with nothing cached
+    perFile: { min: number; mean: number; max: number };
+    // Aligned windows of rangeSize bytes that cover the full read, for mounts that fetch fixed-size ranges
+    rangeSize?: number;
+    alignedRanges?: number;
+  };
+}
+
+export interface SquashfsVerifyOptions {
+  maxOffenders?: number;
+  // Non-file paths the dataset adds besides its files, e.g. metadataPaths of its metadata ops
+  allowedPaths?: string[];
+}
+
+interface Inode {
+  type: number;
+  mode: number;
+  uidIndex: number;
+  gidIndex: number;
+  mtime: number;
+  number: number;
+  linkCount: number;
+  size: number;
+  // Directories
+  listing?: { block: number; offset: number };
+  target?: string;
+  layout?: SquashfsFileLayout;
+}
+
+interface DirectoryEntry {
+  name: string;
+  inodeBlock: number;
+  inodeOffset: number;
+}
+
+/**
+ * Reads consecutive bytes from a metadata table across block boundaries
+ */
+class MetadataCursor {
+  constructor(
+    private readonly image: SquashfsImage,
+    private position: number,
+    private offset: number
+  ) {}
+
+  read(length: number): Buffer {
+    const parts: Buffer[] = [];
+    for (let left = length; left > 0; ) {
+      const block = this.image.metadataBlock(this.position);
+      if (this.offset >= block.data.length) {
+        this.position = block.next;
+        this.offset = 0;
+        continue;
+      }
+      const n = Math.min(left, block.data.length - this.offset);
+      parts.push(block.data.subarray(this.offset, this.offset + n));
+      this.offset += n;
+      left -= n;
+    }
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts);
+  }
+}
+
+function entryType(inodeType: number): SquashfsEntryType {
+  const type = ENTRY_TYPES[(inodeType - 1) % 7];
+  if (inodeType < 1 || inodeType > 14 || !type) {
+    throw new Error(`Unknown inode type ${inodeType}`);
+  }
+  return type;
+}
+
+/**
+ * Reads uncompressed SquashFS 4.0 images, as the builder writes them and as
+ * mksquashfs writes them with -noI -noD -noF -noX, without mounting them.
+ * Compressed blocks are reported as errors.
+ */
+export class SquashfsImage {
+  readonly superblock: SquashfsSuperblock;
+  private readonly fd: number;
+  private readonly metadataCache = new Map<number, { data: Buffer; next: number }>();
+  private ids?: number[];
+  private fragments?: { start: number; size: number }[];
+
+  constructor(readonly imagePath: string) {
+    this.fd = fs.openSync(imagePath, 'r');
+    try {
+      this.superblock = parseSuperblock(this.readAt(0, SUPERBLOCK_SIZE));
+      const { versionMajor, versionMinor, blockSize, blockLog } = this.superblock;
+      if (versionMajor !== 4 || versionMinor !== 0) {
+        throw new Error(`Unsupported SquashFS version ${versionMajor}.${versionMinor}`);
+      }
+      if (2 ** blockLog !== blockSize) {
+        throw new Error(`Block size ${blockSize} does not match block log ${blockLog}`);
+      }
+    } catch (error) {
+      fs.closeSync(this.fd);
+      throw new Error(`${imagePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+
+  private readAt(position: number, length: number): Buffer {
+    const buffer = Buffer.allocUnsafe(length);
+    const bytesRead = fs.readSync(this.fd, buffer, 0, length, position);
+    if (bytesRead < length) {
+      throw new Error(`Read past the end of the image at byte ${position + bytesRead}`);
+    }
+    return buffer;
+  }
+
+  /**
+   * The metadata block at an absolute position, and where the next one starts
+   */
+  metadataBlock(position: number): { data: Buffer; next: number } {
+    let block = this.metadataCache.get(position);
+    if (!block) {
+      const header = this.readAt(position, 2).readUInt16LE(0);
+      if (!(header & METADATA_UNCOMPRESSED)) {
+        throw new Error(`Compressed metadata block at byte ${position}; only uncompressed images can be read`);
+      }
+      const size = header & ~METADATA_UNCOMPRESSED;
+      block = { data: this.readAt(position + 2, size), next: position + 2 + size };
+      this.metadataCache.set(position, block);
+    }
+    return block;
+  }
+
+  /**
+   * Entries of a table stored as metadata blocks behind a list of where each block starts
+   */
+  private readIndexedTable(indexStart: number, count: number, perBlock: number): Buffer[] {
+    const blocks: Buffer[] = [];
+    const index = this.readAt(indexStart, 8 * Math.ceil(count / perBlock));
+    for (let i = 0; i < index.length; i += 8) {
+      blocks.push(this.metadataBlock(Number(index.readBigUInt64LE(i))).data);
+    }
+    return blocks;
+  }
+
+  private id(index: number): number {
+    if (!this.ids) {
+      const { idTableStart, idCount } = this.superblock;
+      const data = Buffer.concat(this.readIndexedTable(idTableStart, idCount, IDS_PER_BLOCK));
+      this.ids = Array.from({ length: idCount }, (_, i) => data.readUInt32LE(4 * i));
+    }
+    const id = this.ids[index];
+    if (id === undefined) throw new Error(`Id index ${index} is out of range`);
+    return id;
+  }
+
+  private fragment(index: number): { start: number; size: number } {
+    if (!this.fragments) {
+      const { fragmentTableStart, fragmentCount } = this.superblock;
+      const data = Buffer.concat(this.readIndexedTable(fragmentTableStart, fragmentCount, FRAGMENTS_PER_BLOCK));
+      this.fragments = Array.from({ length: fragmentCount }, (_, i) => ({
+        start: Number(data.readBigUInt64LE(FRAGMENT_ENTRY_SIZE * i)),
+        size: data.readUInt32LE(FRAGMENT_ENTRY_SIZE * i + 8),
+      }));
+    }
+    const fragment = this.fragments[index];
+    if (!fragment) throw new Error(`Fragment ${index} is out of range`);
+    return fragment;
+  }
+
+  private readInode(block: number, offset: number): Inode {
+    const cursor = new MetadataCursor(this, this.superblock.inodeTableStart + block, offset);
+    const header = cursor.read(16);
+    const inode: Inode = {
+      type: header.readUInt16LE(0),
+      mode: header.readUInt16LE(2),
+      uidIndex: header.readUInt16LE(4),
+      gidIndex: header.readUInt16LE(6),
+      mtime: header.readUInt32LE(8),
+      number: header.readUInt32LE(12),
+      linkCount: 1,
+      size: 0,
+    };
+    const { blockSize } = this.superblock;
+    const readBlockList = (
+      blocksStart: number,
+      fragment: number,
+      fragmentOffset: number,
+      size: number
+    ): SquashfsFileLayout => {
+      const count = fragment === NO_FRAGMENT ? Math.ceil(size / blockSize) : Math.floor(size / blockSize);
+      const list = cursor.read(4 * count);
+      return {
+        blocksStart,
+        blockSizes: Array.from({ length: count }, (_, i) => list.readUInt32LE(4 * i)),
+        fragment: fragment === NO_FRAGMENT ? undefined : { index: fragment, offset: fragmentOffset },
+      };
+    };
+
+    switch (inode.type) {
+      case INODE_DIRECTORY: {
+        const body = cursor.read(16);
+        inode.listing = { block: body.readUInt32LE(0), offset: body.readUInt16LE(10) };
+        inode.linkCount = body.readUInt32LE(4);
+        inode.size = body.readUInt16LE(8);
+        break;
+      }
+      case INODE_EXTENDED_DIRECTORY: {
+        // The directory index that follows only speeds up lookups
+        const body = cursor.read(24);
+        inode.linkCount = body.readUInt32LE(0);
+        inode.size = body.readUInt32LE(4);
+        inode.listing = { block: body.readUInt32LE(8), offset: body.readUInt16LE(18) };
+        break;
+      }
+      case INODE_FILE: {
+        const body = cursor.read(16);
+        inode.size = body.readUInt32LE(12);
+        inode.layout = readBlockList(body.readUInt32LE(0), body.readUInt32LE(4), body.readUInt32LE(8), inode.size);
+        break;
+      }
+      case INODE_EXTENDED_FILE: {
+        const body = cursor.read(40);
+        inode.size = Number(body.readBigUInt64LE(8));
+        inode.linkCount = body.readUInt32LE(24);
+        inode.layout = readBlockList(
+          Number(body.readBigUInt64LE(0)),
+          body.readUInt32LE(28),
+          body.readUInt32LE(32),
+          inode.size
+        );
+        break;
+      }
+      case INODE_SYMLINK:
+      case INODE_EXTENDED_SYMLINK: {
+        const body = cursor.read(8);
+        inode.linkCount = body.readUInt32LE(0);
+        inode.size = body.readUInt32LE(4);
+        inode.target = cursor.read(inode.size).toString('utf8');
+        break;
+      }
+      default:
+        // Devices, fifos and sockets: only the link count matters here
+        entryType(inode.type);
+        inode.linkCount = cursor.read(4).readUInt32LE(0);
+    }
+    return inode;
+  }
+
+  private readListing(dir: Inode): DirectoryEntry[] {
+    const { block, offset } = dir.listing!;
+    const cursor = new MetadataCursor(this, this.superblock.directoryTableStart + block, offset);
+    const entries: DirectoryEntry[] = [];
+    // The size counts the . and .. entries the listing leaves out
+    for (let left = dir.size - 3; left > 0; ) {
+      const header = cursor.read(DIRECTORY_HEADER_SIZE);
+      const count = header.readUInt32LE(0) + 1;
+      const inodeBlock = header.readUInt32LE(4);
+      left -= DIRECTORY_HEADER_SIZE;
+      for (let i = 0; i < count; i++) {
+        const entry = cursor.read(DIRECTORY_ENTRY_SIZE);
+        const nameSize = entry.readUInt16LE(6) + 1;
+        const name = cursor.read(nameSize).toString('utf8');
+        if (name === '.' || name === '..' || name.includes('/') || name.includes('\0')) {
+          throw new Error(`Invalid entry name "${name}"`);
+        }
+        entries.push({ name, inodeBlock, inodeOffset: entry.readUInt16LE(0) });
+        left -= DIRECTORY_ENTRY_SIZE + nameSize;
+      }
+    }
+    return entries;
+  }
+
+  private toEntry(entryPath: string, inode: Inode): SquashfsEntry {
+    return {
+      path: entryPath,
+      type: entryType(inode.type),
+      mode: inode.mode,
+      uid: this.id(inode.uidIndex),
+      gid: this.id(inode.gidIndex),
+      mtime: inode.mtime,
+      inodeNumber: inode.number,
+      linkCount: inode.linkCount,
+      size: inode.size,
+      target: inode.target,
+      layout: inode.layout,
+    };
+  }
+
+  /**
+   * The root directory, with an empty path
+   */
+  root(): SquashfsEntry {
+    const { block, offset } = metadataRefFromValue(this.superblock.rootInode);
+    return this.toEntry('', this.readInode(block, offset));
+  }
+
+  /**
+   * Every entry below the root, depth first in name order, parents before children
+   */
+  entries(): SquashfsEntry[] {
+    const entries: SquashfsEntry[] = [];
+    const walk = (dir: Inode, dirPath: string): void => {
+      for (const { name, inodeBlock, inodeOffset } of this.readListing(dir)) {
+        const inode = this.readInode(inodeBlock, inodeOffset);
+        const entryPath = dirPath ? `${dirPath}/${name}` : name;
+        entries.push(this.toEntry(entryPath, inode));
+        if (inode.listing) walk(inode, entryPath);
+      }
+    };
+    const { block, offset } = metadataRefFromValue(this.superblock.rootInode);
+    walk(this.readInode(block, offset), '');
+    return entries;
+  }
+
+  /**
+   * A file's content, one block at a time
+   */
+  *readFile(entry: SquashfsEntry): Generator<Buffer> {
+    const { layout } = entry;
+    if (!layout) {
+      throw new Error(`${entry.path} is not a regular file`);
+    }
+    const { blockSize } = this.superblock;
+    let position = layout.blocksStart;
+    let remaining = entry.size;
+    for (const stored of layout.blockSizes) {
+      const length = Math.min(blockSize, remaining);
+      if (stored === 0) {
+        yield Buffer.alloc(length);
+      } else {
+        if (!(stored & DATA_UNCOMPRESSED)) {
+          throw new Error(`${entry.path}: compressed data block at byte ${position}`);
+        }
+        yield this.readAt(position, length);
+        position += stored & SIZE_MASK;
+      }
+      remaining -= length;
+    }
+    if (remaining > 0) {
+      if (!layout.fragment) {
+        throw new Error(`${entry.path}: blocks end ${remaining} bytes before the end of the file`);
+      }
+      const fragment = this.fragment(layout.fragment.index);
+      if (!(fragment.size & DATA_UNCOMPRESSED)) {
+        throw new Error(`${entry.path}: compressed fragment ${layout.fragment.index}`);
+      }
+      yield this.readAt(fragment.start + layout.fragment.offset, remaining);
+    }
+  }
+
+  /**
+   * Write the image's tree into a directory, with modes and modification
+   * times. Owners are not changed.
+   */
+  extract(destDir: string): SquashfsExtractStats {
+    // The root counts as a directory, as in the build and layout stats
+    const stats: SquashfsExtractStats = { files: 0, directories: 1, symlinks: 0, hardlinks: 0, skipped: 0, bytes: 0 };
+    const linked = new Map<number, string>();
+    const entries = this.entries();
+    fs.mkdirSync(destDir, { recursive: true });
+    for (const entry of entries) {
+      const target = path.join(destDir, entry.path);
+      if (entry.type === 'directory') {
+        fs.mkdirSync(target, { recursive: true });
+        stats.directories++;
+      } else if (entry.type === 'symlink') {
+        fs.symlinkSync(entry.target!, target);
+        stats.symlinks++;
+      } else if (entry.type === 'file') {
+        const first = linked.get(entry.inodeNumber);
+        if (first) {
+          fs.linkSync(first, target);
+          stats.hardlinks++;
+          continue;
+        }
+        const fd = fs.openSync(target, 'w', entry.mode);
+        try {
+          for (const chunk of this.readFile(entry)) {
+            fs.writeSync(fd, chunk);
+          }
+        } finally {
+          fs.closeSync(fd);
+        }
+        if (entry.linkCount > 1) linked.set(entry.inodeNumber, target);
+        stats.files++;
+        stats.bytes += entry.size;
+      } else {
+        stats.skipped++;
+      }
+    }
+    // Modes and times last, deepest first, so writing entries does not disturb their directories
+    for (const entry of [this.root(), ...entries].reverse()) {
+      const target = path.join(destDir, entry.path);
+      if (entry.type === 'symlink') {
+        fs.lutimesSync(target, entry.mtime, entry.mtime);
+      } else if (entry.type === 'directory' || entry.type === 'file') {
+        fs.chmodSync(target, entry.mode);
+        fs.utimesSync(target, entry.mtime, entry.mtime);
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Extents of every metadata block from start up to end
+   */
+  private metadataExtents(start: number, end: number): [number, number][] {
+    const extents: [number, number][] = [];
+    for (let position = start; position < end; ) {
+      const { next } = this.metadataBlock(position);
+      extents.push([position, next - position]);
+      position = next;
+    }
+    return extents;
+  }
+
+  private indexedTableExtents(indexStart: number, count: number, perBlock: number): [number, number][] {
+    const index = this.readAt(indexStart, 8 * Math.ceil(count / perBlock));
+    const extents: [number, number][] = [[indexStart, index.length]];
+    for (let i = 0; i < index.length; i += 8) {
+      const position = Number(index.readBigUInt64LE(i));
+      extents.push([position, this.metadataBlock(position).next - position]);
+    }
+    return extents;
+  }
+
+  layoutStats(rangeSize?: number): SquashfsLayoutStats {
+    const { superblock } = this;
+    const entries = this.entries();
+    const files = entries.filter((entry) => entry.type === 'file');
+    const uniqueFiles = new Map(files.map((file) => [file.inodeNumber, file]));
+
+    const dataBlocks = new Map<number, number>();
+    const usedFragments = new Set<number>();
+    let references = 0;
+    let sparseBlocks = 0;
+    const perFile: number[] = [];
+    for (const file of uniqueFiles.values()) {
+      const { blocksStart, blockSizes, fragment } = file.layout!;
+      let position = blocksStart;
+      let reads = 0;
+      for (const stored of blockSizes) {
+        if (stored === 0) {
+          sparseBlocks++;
+          continue;
+        }
+        dataBlocks.set(position, stored & SIZE_MASK);
+        position += stored & SIZE_MASK;
+        references++;
+        reads++;
+      }
+      if (fragment) {
+        usedFragments.add(fragment.index);
+        reads++;
+      }
+      perFile.push(reads);
+    }
+
+    // The directory table ends where the next table's first block starts
+    const fragmentTable =
+      superblock.fragmentCount > 0
+        ? this.indexedTableExtents(superblock.fragmentTableStart, superblock.fragmentCount, FRAGMENTS_PER_BLOCK)
+        : [];
+    const idTable = this.indexedTableExtents(superblock.idTableStart, superblock.idCount, IDS_PER_BLOCK);
+    const directoryEnd = fragmentTable.length > 0 ? fragmentTable[1][0] : idTable[1][0];
+    const inodeBlocks = this.metadataExtents(superblock.inodeTableStart, superblock.directoryTableStart);
+    const directoryBlocks = this.metadataExtents(superblock.directoryTableStart, directoryEnd);
+    const metadata = [...inodeBlocks, ...directoryBlocks, ...fragmentTable, ...idTable];
+    const fragmentBlocks = [...usedFragments].map((index): [number, number] => {
+      const fragment = this.fragment(index);
+      return [fragment.start, fragment.size & SIZE_MASK];
+    });
+    const full: [number, number][] = [[0, SUPERBLOCK_SIZE], ...metadata, ...dataBlocks.entries(), ...fragmentBlocks];
+
+    let alignedRanges: number | undefined;
+    if (rangeSize) {
+      const windows = new Set<number>();
+      for (const [start, length] of full) {
+        for (let w = Math.floor(start / rangeSize); w <= Math.floor((start + length - 1) / rangeSize); w++) {
+          windows.add(w);
+        }
+      }
+      alignedRanges = windows.size;
+    }
+
+    return {
+      bytesUsed: superblock.bytesUsed,
+      blockSize: superblock.blockSize,
+      files: uniqueFiles.size,
+      // The root included
+      directories: entries.filter((entry) => entry.type === 'directory').length + 1,
+      symlinks: entries.filter((entry) => entry.type === 'symlink').length,
+      hardlinks: files.length - uniqueFiles.size,
+      dataBytes: [...uniqueFiles.values()].reduce((sum, file) => sum + file.size, 0),
+      dataBlocks: dataBlocks.size,
+      sharedBlockReferences: references - dataBlocks.size,
+      sparseBlocks,
+      fragmentBlocks: superblock.fragmentCount,
+      filesInFragments: [...uniqueFiles.values()].filter((file) => file.layout!.fragment).length,
+      metadataBlocks: {
+        inodes: inodeBlocks.length,
+        directories: directoryBlocks.length,
+        fragments: Math.max(0, fragmentTable.length - 1),
+        ids: idTable.length - 1,
+      },
+      metadataBytes: metadata.reduce((sum, [, length]) => sum + length, 0),
+      reads: {
+        full: full.length,
+        perFile: {
+          min: perFile.length > 0 ? Math.min(...perFile) : 0,
+          mean: perFile.length > 0 ? perFile.reduce((sum, n) => sum + n, 0) / perFile.length : 0,
+          max: perFile.length > 0 ? Math.max(...perFile) : 0,
+        },
+        rangeSize,
+        alignedRanges,
+      },
+    };
+  }
+}
+
+/**
+ * Compare a file in the image with the content it should hold
+ */
+function checkImageFile(
+  image: SquashfsImage,
+  entry: SquashfsEntry,
+  spec: FileSpec,
+  plan: DatasetPlan
+): { category: VerificationCategory; detail: string } | undefined {
+  const stream = new FileContentStream(spec, plan.profile.content);
+  const expected = Buffer.allocUnsafe(image.superblock.blockSize);
+  let offset = 0;
+  for (const chunk of image.readFile(entry)) {
+    const actual = chunk.subarray(0, Math.min(chunk.length, spec.size - offset));
+    if (actual.length === 0) break;
+    const expectedChunk = expected.subarray(0, actual.length);
+    stream.read(expectedChunk);
+    if (!actual.equals(expectedChunk)) {
+      let i = 0;
+      while (actual[i] === expectedChunk[i]) i++;
+      return { category: 'corrupted', detail: `content differs at byte ${offset + i}` };
+    }
+    offset += actual.length;
+  }
+  const sizes = `expected ${spec.size} bytes, got ${entry.size}`;
+  if (entry.size < spec.size) return { category: 'truncated', detail: sizes };
+  if (entry.size > spec.size) return { category: 'corrupted', detail: sizes };
+  return undefined;
+}
+
+/**
+ * Check the files in an image against a planned dataset without mounting
+ * or extracting it. Directories are not checked; links and other entries
+ * count as extra unless allowed.
+ */
+export function verifySquashfsImage(
+  image: SquashfsImage,
+  plan: DatasetPlan,
+  options: SquashfsVerifyOptions = {}
+): VerificationReport {
+  const report = emptyVerificationReport(plan.files.length);
+  const record = (category: VerificationCategory, relPath: string, detail: string): void =>
+    recordOffender(report, category, relPath, detail, options.maxOffenders);
+  const expected = new Map(plan.files.map((f) => [f.relativePath, f]));
+  const allowed = new Set([MANIFEST_FILE, ...(options.allowedPaths ?? [])]);
+  const seen = new Set<string>();
+
+  for (const entry of image.entries()) {
+    if (entry.type === 'directory') continue;
+    const spec = expected.get(entry.path);
+    if (!spec) {
+      if (!allowed.has(entry.path)) {
+        record('extra', entry.path, 'not part of the generated dataset');
+      }
+      continue;
+    }
+    seen.add(entry.path);
+    if (entry.type !== 'file') {
+      record('corrupted', entry.path, 'not a regular file');
+      continue;
+    }
+    const problem = checkImageFile(image, entry, spec, plan);
+    if (problem) {
+      record(problem.category, entry.path, problem.detail);
+    } else {
+      report.filesVerified++;
+      report.bytesVerified += spec.size;
+    }
+  }
+
+  for (const relPath of expected.keys()) {
+    if (!seen.has(relPath)) {
+      record('missing', relPath, 'not in the image');
+    }
+  }
+  return report;
+}
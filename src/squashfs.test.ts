@@ -0,0 +1,510 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { generateFileHierarchy } from './generate';
+import { DatasetProfile, planDataset } from './profiles';
+import { SeededRandom } from './seeded-random';
+import {
+  buildSquashfsFromDirectory,
+  buildSquashfsFromPlan,
+  DIRECTORY_ENTRY_SIZE,
+  DIRECTORY_HEADER_SIZE,
+  FLAG_ALWAYS_FRAGMENTS,
+  FLAG_DUPLICATES,
+  FLAG_NO_FRAGMENTS,
+  INODE_DIRECTORY,
+  INODE_EXTENDED_DIRECTORY,
+  INODE_EXTENDED_FILE,
+  INODE_FILE,
+  INODE_SYMLINK,
+  metadataRefFromValue,
+  NO_FRAGMENT,
+  SquashfsBuildOptions,
+  SquashfsBuildStats,
+  SUPERBLOCK_SIZE,
+} from './squashfs';
+import { SquashfsEntry, SquashfsImage, verifySquashfsImage } from './squashfs-reader';
+import { hashTree, makeTempDir, quietLogger, sha256 } from './test-helpers';
+
+const BLOCK = 4096;
+
+function randomBytes(seed: number, size: number): Buffer {
+  const buffer = Buffer.alloc(size);
+  new SeededRandom(seed).fillBuffer(buffer);
+  return buffer;
+}
+
+/**
+ * A tree with every kind of entry the builder handles: files that fit in a
+ * fragment, fill whole blocks or end in a tail, a duplicate, a mostly zero
+ * file, symlinks, a hard link pair and directories with their own modes
+ */
+function writeSourceTree(dir: string): void {
+  const multi = randomBytes(3, 3 * BLOCK + 123);
+  const files: [string, Buffer, number][] = [
+    ['empty', Buffer.alloc(0), 0o644],
+    ['small.txt', randomBytes(1, 100), 0o644],
+    ['exact.bin', randomBytes(2, BLOCK), 0o640],
+    ['multi.bin', multi, 0o644],
+    ['copy-of-multi.bin', multi, 0o644],
+    ['zeros.bin', Buffer.concat([Buffer.alloc(2 * BLOCK), randomBytes(4, BLOCK), Buffer.alloc(100)]), 0o644],
+    ['script.sh', Buffer.from('#!/bin/sh\n'), 0o755],
+    ['hard-1.bin', randomBytes(5, BLOCK + 904), 0o644],
+    ['nested/a/b/deep.bin', randomBytes(6, 2 * BLOCK + 1), 0o644],
+    ['private/secret', randomBytes(7, 42), 0o600],
+  ];
+  for (const [relPath, content, mode] of files) {
+    fs.mkdirSync(path.join(dir, path.dirname(relPath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, relPath), content, { mode });
+    fs.chmodSync(path.join(dir, relPath), mode);
+  }
+  fs.linkSync(path.join(dir, 'hard-1.bin'), path.join(dir, 'nested/hard-2.bin'));
+  fs.symlinkSync('small.txt', path.join(dir, 'link-to-small'));
+  fs.symlinkSync('../missing', path.join(dir, 'nested/dangling'));
+  fs.chmodSync(path.join(dir, 'private'), 0o700);
+
+  // Distinct times, deepest first so setting them does not touch a parent again
+  let mtime = Date.UTC(2021, 5, 1) / 1000;
+  const walk = (relDir: string): void => {
+    for (const name of fs.readdirSync(path.join(dir, relDir))) {
+      const relPath = path.join(relDir, name);
+      const full = path.join(dir, relPath);
+      if (fs.lstatSync(full).isDirectory()) walk(relPath);
+      mtime += 3600;
+      fs.lutimesSync(full, mtime, mtime);
+    }
+  };
+  walk('');
+  fs.utimesSync(dir, mtime + 3600, mtime + 3600);
+}
+
+interface TreeEntry {
+  type: string;
+  mode: number;
+  mtime: number;
+  size?: number;
+  sha?: string;
+  target?: string;
+  // Other names of a hard-linked file
+  links?: string[];
+}
+
+/**
+ * Everything about a tree that an image should keep, by relative path
+ */
+function snapshotTree(dir: string): Map<string, TreeEntry> {
+  const snapshot = new Map<string, TreeEntry>();
+  const byInode = new Map<number, string[]>();
+  const walk = (relPath: string): void => {
+    const full = path.join(dir, relPath);
+    const stats = fs.lstatSync(full);
+    const entry: TreeEntry = { type: '', mode: stats.mode & 0o7777, mtime: Math.floor(stats.mtimeMs / 1000) };
+    snapshot.set(relPath, entry);
+    if (stats.isDirectory()) {
+      entry.type = 'directory';
+      for (const name of fs.readdirSync(full)) walk(path.posix.join(relPath, name));
+    } else if (stats.isSymbolicLink()) {
+      entry.type = 'symlink';
+      entry.target = fs.readlinkSync(full);
+    } else {
+      entry.type = 'file';
+      entry.size = stats.size;
+      entry.sha = sha256(fs.readFileSync(full));
+      if (stats.nlink > 1) byInode.set(stats.ino, [...(byInode.get(stats.ino) ?? []), relPath]);
+    }
+  };
+  walk('');
+  for (const names of byInode.values()) {
+    for (const name of names) snapshot.get(name)!.links = names.filter((other) => other !== name).sort();
+  }
+  return snapshot;
+}
+
+/**
+ * Types of every inode in the image by inode number, read straight from the inode table
+ */
+function inodeTypes(image: SquashfsImage): Map<number, number> {
+  const { inodeTableStart, directoryTableStart, blockSize } = image.superblock;
+  const blocks: Buffer[] = [];
+  for (let position = inodeTableStart; position < directoryTableStart; ) {
+    const block = image.metadataBlock(position);
+    blocks.push(block.data);
+    position = block.next;
+  }
+  const table = Buffer.concat(blocks);
+  const blockCount = (fragment: number, size: number): number =>
+    fragment === NO_FRAGMENT ? Math.ceil(size / blockSize) : Math.floor(size / blockSize);
+  const types = new Map<number, number>();
+  for (let offset = 0; offset < table.length; ) {
+    const type = table.readUInt16LE(offset);
+    types.set(table.readUInt32LE(offset + 12), type);
+    switch (type) {
+      case INODE_DIRECTORY:
+        offset += 32;
+        break;
+      case INODE_EXTENDED_DIRECTORY:
+        offset += 40;
+        break;
+      case INODE_FILE:
+        offset += 32 + 4 * blockCount(table.readUInt32LE(offset + 20), table.readUInt32LE(offset + 28));
+        break;
+      case INODE_EXTENDED_FILE:
+        offset += 56 + 4 * blockCount(table.readUInt32LE(offset + 44), Number(table.readBigUInt64LE(offset + 24)));
+        break;
+      case INODE_SYMLINK:
+        offset += 24 + table.readUInt32LE(offset + 20);
+        break;
+      default:
+        throw new Error(`Unexpected inode type ${type}`);
+    }
+  }
+  return types;
+}
+
+/**
+ * Entry count and inode block of each run in an image whose root is its only directory
+ */
+function rootDirectoryRuns(image: SquashfsImage): { count: number; inodeBlock: number }[] {
+  const { directoryTableStart, fragmentTableStart } = image.superblock;
+  const blocks: Buffer[] = [];
+  // The fragment table's first metadata block follows the directory table
+  const directoryEnd = Number(fs.readFileSync(image.imagePath).readBigUInt64LE(fragmentTableStart));
+  for (let position = directoryTableStart; position < directoryEnd; ) {
+    const block = image.metadataBlock(position);
+    blocks.push(block.data);
+    position = block.next;
+  }
+  const listing = Buffer.concat(blocks);
+  const runs: { count: number; inodeBlock: number }[] = [];
+  for (let offset = 0; offset < listing.length; ) {
+    const run = { count: listing.readUInt32LE(offset) + 1, inodeBlock: listing.readUInt32LE(offset + 4) };
+    runs.push(run);
+    offset += DIRECTORY_HEADER_SIZE;
+    for (let i = 0; i < run.count; i++) {
+      offset += DIRECTORY_ENTRY_SIZE + listing.readUInt16LE(offset + 6) + 1;
+    }
+  }
+  return runs;
+}
+
+describe('SquashFS images', () => {
+  const root = makeTempDir();
+  const source = path.join(root, 'source');
+  writeSourceTree(source);
+  const expected = snapshotTree(source);
+  let imageCount = 0;
+
+  async function build(
+    options: SquashfsBuildOptions,
+    sourceDir = source
+  ): Promise<{ image: SquashfsImage; stats: SquashfsBuildStats; entries: Map<string, SquashfsEntry> }> {
+    const imagePath = path.join(root, `image-${++imageCount}.sqfs`);
+    const stats = await buildSquashfsFromDirectory(sourceDir, imagePath, {
+      blockSize: BLOCK,
+      logger: quietLogger,
+      ...options,
+    });
+    const image = new SquashfsImage(imagePath);
+    return { image, stats, entries: new Map(image.entries().map((entry) => [entry.path, entry])) };
+  }
+
+  const variants: [string, SquashfsBuildOptions][] = [
+    ['the default options', {}],
+    ['fragments off', { fragments: false }],
+    ['tails in fragments', { alwaysFragments: true }],
+    ['dedup', { dedup: true }],
+    ['sparse blocks', { sparse: true }],
+    ['everything on', { alwaysFragments: true, dedup: true, sparse: true }],
+  ];
+  for (const [name, options] of variants) {
+    test(`every file and attribute round-trips with ${name}`, async () => {
+      const { image, stats, entries } = await build(options);
+      try {
+        // Owners are only in the image; extracting does not change them
+        for (const [relPath, entry] of entries) {
+          const sourceStats = fs.lstatSync(path.join(source, relPath));
+          assert.deepEqual(
+            [entry.uid, entry.gid, entry.mode, entry.mtime],
+            [sourceStats.uid, sourceStats.gid, sourceStats.mode & 0o7777, Math.floor(sourceStats.mtimeMs / 1000)],
+            relPath
+          );
+        }
+        const extracted = path.join(root, `extracted-${imageCount}`);
+        const extractStats = image.extract(extracted);
+        assert.deepEqual(snapshotTree(extracted), expected);
+        assert.deepEqual(
+          [extractStats.files, extractStats.directories, extractStats.symlinks, extractStats.hardlinks],
+          [stats.files, stats.directories, stats.symlinks, stats.hardlinks]
+        );
+      } finally {
+        image.close();
+      }
+    });
+  }
+
+  test('the superblock points at the tables in the order they are written', async () => {
+    const { image, stats, entries } = await build({ dedup: true });
+    try {
+      const superblock = image.superblock;
+      const bytes = fs.readFileSync(image.imagePath);
+      assert.equal(bytes.subarray(0, 4).toString(), 'hsqs');
+      assert.deepEqual([superblock.versionMajor, superblock.versionMinor], [4, 0]);
+      assert.deepEqual([superblock.blockSize, superblock.blockLog], [BLOCK, 12]);
+      assert.equal(superblock.flags & (FLAG_NO_FRAGMENTS | FLAG_ALWAYS_FRAGMENTS | FLAG_DUPLICATES), FLAG_DUPLICATES);
+      assert.equal(superblock.xattrIdTableStart, undefined);
+      assert.equal(superblock.lookupTableStart, undefined);
+
+      // Data, then the inode, directory, fragment and id tables, then padding to whole device blocks
+      assert.ok(SUPERBLOCK_SIZE < superblock.inodeTableStart);
+      assert.ok(superblock.inodeTableStart < superblock.directoryTableStart);
+      assert.ok(superblock.directoryTableStart < superblock.fragmentTableStart);
+      assert.ok(superblock.fragmentTableStart < superblock.idTableStart);
+      assert.equal(superblock.bytesUsed, superblock.idTableStart + 8);
+      assert.equal(bytes.length, stats.imageBytes);
+      assert.equal(bytes.length % 4096, 0);
+      assert.ok(bytes.subarray(superblock.bytesUsed).every((byte) => byte === 0));
+
+      const inodes = new Set([...entries.values()].map((entry) => entry.inodeNumber));
+      assert.equal(superblock.inodeCount, inodes.size + 1);
+      assert.equal(superblock.fragmentCount, stats.fragmentBlocks);
+      assert.equal(superblock.idCount, new Set([process.getuid!(), process.getgid!()]).size);
+      // The root is written last and numbered last
+      const rootRef = metadataRefFromValue(superblock.rootInode);
+      assert.equal(image.root().inodeNumber, superblock.inodeCount);
+      const inodeTableBytes = superblock.directoryTableStart - superblock.inodeTableStart;
+      assert.equal(rootRef.block + 2 + rootRef.offset + 32, inodeTableBytes);
+    } finally {
+      image.close();
+    }
+  });
+
+  test('only files that need it get an extended inode', async () => {
+    for (const sparse of [false, true]) {
+      const { image, entries } = await build({ sparse });
+      try {
+        const types = inodeTypes(image);
+        for (const [relPath, entry] of entries) {
+          const extended = relPath.includes('hard-') || (sparse && relPath === 'zeros.bin');
+          const basic = { directory: INODE_DIRECTORY, file: INODE_FILE, symlink: INODE_SYMLINK }[
+            entry.type as 'directory' | 'file' | 'symlink'
+          ];
+          assert.equal(types.get(entry.inodeNumber), extended ? INODE_EXTENDED_FILE : basic, relPath);
+        }
+        assert.equal(types.get(image.root().inodeNumber), INODE_DIRECTORY);
+      } finally {
+        image.close();
+      }
+    }
+  });
+
+  test('small files, and tails when asked, share fragment blocks', async () => {
+    const layout = async (options: SquashfsBuildOptions): Promise<Map<string, SquashfsEntry['layout']>> => {
+      const { image, stats, entries } = await build(options);
+      image.close();
+      const layouts = new Map([...entries].map(([relPath, entry]) => [relPath, entry.layout]));
+      // Both names of the hard-linked file share one inode
+      const inFragments = new Set([...entries.values()].filter((e) => e.layout?.fragment).map((e) => e.inodeNumber));
+      assert.equal(stats.filesInFragments, inFragments.size);
+      return layouts;
+    };
+
+    const small = await layout({});
+    assert.ok(small.get('small.txt')!.fragment);
+    assert.equal(small.get('small.txt')!.blockSizes.length, 0);
+    assert.equal(small.get('exact.bin')!.fragment, undefined);
+    assert.equal(small.get('multi.bin')!.fragment, undefined);
+    assert.equal(small.get('multi.bin')!.blockSizes.length, 4);
+    assert.equal(small.get('empty')!.fragment, undefined);
+
+    const tails = await layout({ alwaysFragments: true });
+    assert.ok(tails.get('multi.bin')!.fragment);
+    assert.equal(tails.get('multi.bin')!.blockSizes.length, 3);
+    assert.equal(tails.get('exact.bin')!.fragment, undefined);
+
+    const none = await layout({ fragments: false });
+    assert.ok([...none.values()].every((l) => !l?.fragment));
+    assert.equal(none.get('small.txt')!.blockSizes.length, 1);
+  });
+
+  test('dedup stores identical files once', async () => {
+    const plain = await build({});
+    plain.image.close();
+    const blocksStart = (relPath: string): number => plain.entries.get(relPath)!.layout!.blocksStart;
+    assert.notEqual(blocksStart('copy-of-multi.bin'), blocksStart('multi.bin'));
+
+    const { image, stats, entries } = await build({ dedup: true });
+    try {
+      assert.deepEqual(entries.get('copy-of-multi.bin')!.layout, entries.get('multi.bin')!.layout);
+      assert.equal(stats.duplicateFiles, 1);
+      assert.equal(stats.duplicateBytes, 3 * BLOCK + 123);
+      assert.ok(stats.imageBytes <= plain.stats.imageBytes);
+      assert.equal(image.layoutStats().sharedBlockReferences, 4);
+    } finally {
+      image.close();
+    }
+  });
+
+  test('sparse leaves out all-zero blocks and records their size', async () => {
+    const { image, stats, entries } = await build({ sparse: true });
+    try {
+      const { blockSizes } = entries.get('zeros.bin')!.layout!;
+      assert.equal(blockSizes.length, 4);
+      assert.deepEqual(
+        blockSizes.map((size) => size === 0),
+        [true, true, false, true]
+      );
+      assert.equal(stats.sparseBlocks, 3);
+      assert.equal(image.layoutStats().sparseBlocks, 3);
+      const content = Buffer.concat([...image.readFile(entries.get('zeros.bin')!)]);
+      assert.equal(sha256(content), expected.get('zeros.bin')!.sha);
+    } finally {
+      image.close();
+    }
+  });
+
+  test('hard links share one inode', async () => {
+    const { image, stats, entries } = await build({});
+    image.close();
+    const first = entries.get('hard-1.bin')!;
+    const second = entries.get('nested/hard-2.bin')!;
+    assert.equal(first.inodeNumber, second.inodeNumber);
+    assert.deepEqual([first.linkCount, second.linkCount], [2, 2]);
+    assert.equal(stats.hardlinks, 1);
+    assert.equal(stats.files, 10);
+  });
+
+  test('a directory of more than 256 entries spans runs and metadata blocks', async () => {
+    const dir = path.join(root, 'wide');
+    fs.mkdirSync(dir);
+    for (let i = 0; i < 700; i++) {
+      fs.writeFileSync(path.join(dir, `file_${String(i).padStart(4, '0')}.bin`), randomBytes(i, i % 300));
+    }
+    // 25-byte symlink inodes fit more than 256 to an inode block, so only the run limit splits them
+    for (let i = 0; i < 600; i++) {
+      fs.symlinkSync('x', path.join(dir, `link_${String(i).padStart(4, '0')}`));
+    }
+    const { image, entries } = await build({}, dir);
+    try {
+      const { metadataBlocks } = image.layoutStats();
+      assert.ok(metadataBlocks.inodes > 1);
+      assert.ok(metadataBlocks.directories > 1);
+      // Runs hold at most 256 entries and start again where the inodes cross into the next block
+      const runs = rootDirectoryRuns(image);
+      assert.equal(runs.reduce((sum, run) => sum + run.count, 0), 1300);
+      assert.ok(runs.every((run) => run.count <= 256));
+      assert.ok(runs.some((run) => run.count === 256));
+      assert.equal(new Set(runs.map((run) => run.inodeBlock)).size, metadataBlocks.inodes);
+      assert.deepEqual([...entries.keys()], fs.readdirSync(dir).sort());
+      const extracted = path.join(root, 'wide-extracted');
+      image.extract(extracted);
+      assert.deepEqual(snapshotTree(extracted), snapshotTree(dir));
+    } finally {
+      image.close();
+    }
+  });
+
+  test('a listing over 64K gets an extended directory inode', async () => {
+    const dir = path.join(root, 'long-names');
+    fs.mkdirSync(path.join(dir, 'inner'), { recursive: true });
+    for (let i = 0; i < 300; i++) {
+      fs.writeFileSync(path.join(dir, 'inner', `${String(i).padStart(3, '0')}_${'x'.repeat(226)}`), String(i));
+    }
+    const { image, entries } = await build({}, dir);
+    try {
+      const inner = entries.get('inner')!;
+      assert.ok(inner.size > 0xffff);
+      assert.equal(inodeTypes(image).get(inner.inodeNumber), INODE_EXTENDED_DIRECTORY);
+      const extracted = path.join(root, 'long-names-extracted');
+      image.extract(extracted);
+      assert.deepEqual(snapshotTree(extracted), snapshotTree(dir));
+    } finally {
+      image.close();
+    }
+  });
+
+  test('an image of a plan holds the tree the generator writes', async () => {
+    const profile: DatasetProfile = {
+      name: 'tiny',
+      levels: [
+        { prefix: 'dir_', fanOut: 0 },
+        { prefix: 'sub_', fanOut: 3 },
+      ],
+      filesPerLeaf: 10,
+      fileSize: { kind: 'uniform', minBytes: 0, maxBytes: 3 * BLOCK },
+    };
+    const sizeGb = (2 * 30 * 6 * 1024) / 1024 ** 3;
+    const plan = planDataset(profile, sizeGb);
+    const imagePath = path.join(root, 'plan.sqfs');
+    await buildSquashfsFromPlan(plan, imagePath, { blockSize: BLOCK, logger: quietLogger });
+    const image = new SquashfsImage(imagePath);
+    try {
+      const report = verifySquashfsImage(image, plan);
+      assert.equal(report.ok, true);
+      assert.equal(report.filesVerified, plan.files.length);
+
+      const generated = path.join(root, 'plan-generated');
+      await generateFileHierarchy(generated, sizeGb, profile, { concurrency: 1, logger: quietLogger });
+      const extracted = path.join(root, 'plan-extracted');
+      image.extract(extracted);
+      assert.equal(hashTree(extracted), hashTree(generated));
+    } finally {
+      image.close();
+    }
+  });
+
+  test('a two-file plan gives the fixture image byte for byte', async () => {
+    const profile: DatasetProfile = {
+      name: 'fixture',
+      levels: [{ prefix: 'dir_', fanOut: 0 }],
+      filesPerLeaf: 2,
+      fileSize: { kind: 'fixed', bytes: 5 },
+    };
+    const imagePath = path.join(root, 'fixture.sqfs');
+    const plan = planDataset(profile, 10 / 1024 ** 3);
+    await buildSquashfsFromPlan(plan, imagePath, { blockSize: BLOCK, logger: quietLogger });
+    const fixture = Buffer.from(
+      [
+        // Superblock: magic, 4 inodes, mtime 2020-01-01, 4K blocks, 1 fragment, gzip, block log 12,
+        // flags 0x0b0b, 1 id, version 4.0, root inode at 0:96, 351 bytes used, then the table
+        // starts: ids 343, no xattrs, inodes 106, directories 236, fragments 329, no lookup table
+        '68737173 04000000 00e10b5e 00100000 01000000 0100 0c00 0b0b 0100 0400 0000',
+        '6000000000000000 5f01000000000000 5701000000000000 ffffffffffffffff',
+        '6a00000000000000 ec00000000000000 4901000000000000 ffffffffffffffff',
+        // Fragment block at 96 holding both files
+        'e93b5336c7 7bf3296e44',
+        // Inode table: one uncompressed 128-byte metadata block
+        '8080',
+        // Basic files 1 and 2, mode 0644: blocks at 96, fragment 0 at offsets 0 and 5, 5 bytes each
+        '0200 a401 0000 0000 00e10b5e 01000000 60000000 00000000 00000000 05000000',
+        '0200 a401 0000 0000 00e10b5e 02000000 60000000 00000000 05000000 05000000',
+        // Basic directories, mode 0755: dir_0 (inode 3, listing at 0:0, 51 bytes, parent 4)
+        // and the root (inode 4, listing at 0:48, 28 bytes, parent one past the last inode)
+        '0100 ed01 0000 0000 00e10b5e 03000000 00000000 02000000 3300 0000 04000000',
+        '0100 ed01 0000 0000 00e10b5e 04000000 00000000 03000000 1c00 3000 05000000',
+        // Directory table: one uncompressed 73-byte metadata block
+        '4980',
+        // dir_0: a run of 2 entries from inode 1 in inode block 0
+        '01000000 00000000 01000000',
+        '0000 0000 0200 0900', Buffer.from('data_0.bin').toString('hex'),
+        '2000 0100 0200 0900', Buffer.from('data_1.bin').toString('hex'),
+        // Root: a run of 1 entry from inode 3
+        '00000000 00000000 03000000',
+        '4000 0000 0100 0400', Buffer.from('dir_0').toString('hex'),
+        // Fragment table: a 16-byte metadata block (10 uncompressed bytes at 96), then its index
+        '1080 6000000000000000 0a000001 00000000',
+        '3701000000000000',
+        // Id table: a 4-byte metadata block holding uid 0, then its index
+        '0480 00000000',
+        '5101000000000000',
+      ]
+        .join('')
+        .replace(/ /g, ''),
+      'hex'
+    );
+    const image = fs.readFileSync(imagePath);
+    assert.equal(image.length, 4096);
+    assert.deepEqual(image.subarray(0, fixture.length), fixture);
+    assert.ok(image.subarray(fixture.length).every((byte) => byte === 0));
+  });
+});
@@ -0,0 +1,800 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileContentStream } from './content';
+import { DatasetPlan } from './profiles';
+import { actionsLogger, Logger } from './progress';
+import { allDirectories, ENTRY_MTIME_SECONDS } from './tar-stream';
+
+export const SQUASHFS_MAGIC = 0x73717368;
+export const SUPERBLOCK_SIZE = 96;
+// Uncompressed bytes per metadata block
+export const METADATA_BLOCK_SIZE = 8192;
+// Set in a metadata block header when the block is stored uncompressed
+export const METADATA_UNCOMPRESSED = 0x8000;
+// Set in a data block or fragment size when it is stored uncompressed
+export const DATA_UNCOMPRESSED = 1 << 24;
+export const NO_FRAGMENT = 0xffffffff;
+export const INVALID_TABLE = 0xffffffffffffffffn;
+export const FRAGMENT_ENTRY_SIZE = 16;
+export const DIRECTORY_HEADER_SIZE = 12;
+export const DIRECTORY_ENTRY_SIZE = 8;
+export const MIN_BLOCK_SIZE = 4 * 1024;
+export const MAX_BLOCK_SIZE = 1024 * 1024;
+// What the scripts pass to mksquashfs with -b 1M
+export const DEFAULT_SQUASHFS_BLOCK_SIZE = MAX_BLOCK_SIZE;
+
+// Basic inode types; the extended variants are these plus 7
+export const INODE_DIRECTORY = 1;
+export const INODE_FILE = 2;
+export const INODE_SYMLINK = 3;
+export const INODE_EXTENDED_DIRECTORY = 8;
+export const INODE_EXTENDED_FILE = 9;
+export const INODE_EXTENDED_SYMLINK = 10;
+
+// Superblock flags
+export const FLAG_UNCOMPRESSED_INODES = 0x0001;
+export const FLAG_UNCOMPRESSED_DATA = 0x0002;
+export const FLAG_UNCOMPRESSED_FRAGMENTS = 0x0008;
+export const FLAG_NO_FRAGMENTS = 0x0010;
+export const FLAG_ALWAYS_FRAGMENTS = 0x0020;
+export const FLAG_DUPLICATES = 0x0040;
+export const FLAG_UNCOMPRESSED_XATTRS = 0x0100;
+export const FLAG_NO_XATTRS = 0x0200;
+export const FLAG_UNCOMPRESSED_IDS = 0x0800;
+
+// Recorded as the compressor, as mksquashfs does with -noI -noD -noF -noX; nothing is compressed
+const GZIP_COMPRESSION = 1;
+const MAX_DIRECTORY_RUN = 256;
+const MAX_NAME_BYTES = 256;
+// Images are padded to whole device blocks, like mksquashfs pads them
+const DEVICE_BLOCK_SIZE = 4096;
+
+export interface SquashfsSuperblock {
+  inodeCount: number;
+  modificationTime: number;
+  blockSize: number;
+  fragmentCount: number;
+  compression: number;
+  blockLog: number;
+  flags: number;
+  idCount: number;
+  versionMajor: number;
+  versionMinor: number;
+  // Metadata reference: table offset of the block << 16 | offset within the block
+  rootInode: number;
+  bytesUsed: number;
+  idTableStart: number;
+  // Undefined when the image has no such table
+  xattrIdTableStart?: number;
+  inodeTableStart: number;
+  directoryTableStart: number;
+  fragmentTableStart: number;
+  lookupTableStart?: number;
+}
+
+function readTableStart(buffer: Buffer, offset: number): number | undefined {
+  const value = buffer.readBigUInt64LE(offset);
+  return value === INVALID_TABLE ? undefined : Number(value);
+}
+
+export function parseSuperblock(buffer: Buffer): SquashfsSuperblock {
+  if (buffer.length < SUPERBLOCK_SIZE || buffer.readUInt32LE(0) !== SQUASHFS_MAGIC) {
+    throw new Error('Not a SquashFS image');
+  }
+  return {
+    inodeCount: buffer.readUInt32LE(4),
+    modificationTime: buffer.readUInt32LE(8),
+    blockSize: buffer.readUInt32LE(12),
+    fragmentCount: buffer.readUInt32LE(16),
+    compression: buffer.readUInt16LE(20),
+    blockLog: buffer.readUInt16LE(22),
+    flags: buffer.readUInt16LE(24),
+    idCount: buffer.readUInt16LE(26),
+    versionMajor: buffer.readUInt16LE(28),
+    versionMinor: buffer.readUInt16LE(30),
+    rootInode: Number(buffer.readBigUInt64LE(32)),
+    bytesUsed: Number(buffer.readBigUInt64LE(40)),
+    idTableStart: Number(buffer.readBigUInt64LE(48)),
+    xattrIdTableStart: readTableStart(buffer, 56),
+    inodeTableStart: Number(buffer.readBigUInt64LE(64)),
+    directoryTableStart: Number(buffer.readBigUInt64LE(72)),
+    fragmentTableStart: Number(buffer.readBigUInt64LE(80)),
+    lookupTableStart: readTableStart(buffer, 88),
+  };
+}
+
+function serializeSuperblock(superblock: SquashfsSuperblock): Buffer {
+  const buffer = Buffer.alloc(SUPERBLOCK_SIZE);
+  buffer.writeUInt32LE(SQUASHFS_MAGIC, 0);
+  buffer.writeUInt32LE(superblock.inodeCount, 4);
+  buffer.writeUInt32LE(superblock.modificationTime, 8);
+  buffer.writeUInt32LE(superblock.blockSize, 12);
+  buffer.writeUInt32LE(superblock.fragmentCount, 16);
+  buffer.writeUInt16LE(superblock.compression, 20);
+  buffer.writeUInt16LE(superblock.blockLog, 22);
+  buffer.writeUInt16LE(superblock.flags, 24);
+  buffer.writeUInt16LE(superblock.idCount, 26);
+  buffer.writeUInt16LE(superblock.versionMajor, 28);
+  buffer.writeUInt16LE(superblock.versionMinor, 30);
+  buffer.writeBigUInt64LE(BigInt(superblock.rootInode), 32);
+  buffer.writeBigUInt64LE(BigInt(superblock.bytesUsed), 40);
+  buffer.writeBigUInt64LE(BigInt(superblock.idTableStart), 48);
+  buffer.writeBigUInt64LE(BigInt(superblock.xattrIdTableStart ?? INVALID_TABLE), 56);
+  buffer.writeBigUInt64LE(BigInt(superblock.inodeTableStart), 64);
+  buffer.writeBigUInt64LE(BigInt(superblock.directoryTableStart), 72);
+  buffer.writeBigUInt64LE(BigInt(superblock.fragmentTableStart), 80);
+  buffer.writeBigUInt64LE(BigInt(superblock.lookupTableStart ?? INVALID_TABLE), 88);
+  return buffer;
+}
+
+/**
+ * Where something starts in a metadata table
+ */
+export interface MetadataRef {
+  // Offset of the metadata block from the start of the table
+  block: number;
+  // Offset within the block's uncompressed data
+  offset: number;
+}
+
+export function metadataRefValue(ref: MetadataRef): number {
+  return ref.block * 0x10000 + ref.offset;
+}
+
+export function metadataRefFromValue(value: number): MetadataRef {
+  return { block: Math.floor(value / 0x10000), offset: value % 0x10000 };
+}
+
+/**
+ * Packs a metadata table into 8K blocks, each stored uncompressed behind a two byte header
+ */
+class MetadataWriter {
+  private readonly blocks: Buffer[] = [];
+  readonly blockStarts: number[] = [];
+  private written = 0;
+  private readonly pending = Buffer.alloc(METADATA_BLOCK_SIZE);
+  private used = 0;
+
+  position(): MetadataRef {
+    return { block: this.written, offset: this.used };
+  }
+
+  write(data: Buffer): void {
+    for (let pos = 0; pos < data.length; ) {
+      const n = Math.min(data.length - pos, METADATA_BLOCK_SIZE - this.used);
+      data.copy(this.pending, this.used, pos, pos + n);
+      this.used += n;
+      pos += n;
+      if (this.used === METADATA_BLOCK_SIZE) this.flush();
+    }
+  }
+
+  finish(): Buffer {
+    if (this.used > 0) this.flush();
+    return Buffer.concat(this.blocks);
+  }
+
+  private flush(): void {
+    const header = Buffer.alloc(2);
+    header.writeUInt16LE(this.used | METADATA_UNCOMPRESSED);
+    this.blockStarts.push(this.written);
+    this.blocks.push(header, Buffer.from(this.pending.subarray(0, this.used)));
+    this.written += header.length + this.used;
+    this.used = 0;
+  }
+}
+
+export interface SquashfsBuildOptions {
+  // Data block size, a power of two from 4K to 1M (default 1M)
+  blockSize?: number;
+  // Pack files smaller than a block into shared fragment blocks (default true)
+  fragments?: boolean;
+  // Also pack the tails of files larger than a block, like -always-use-fragments
+  alwaysFragments?: boolean;
+  // Store files with identical content once (default false, like -no-duplicates)
+  dedup?: boolean;
+  // Leave out data blocks that are all zeros (default false, like -no-sparse)
+  sparse?: boolean;
+  logger?: Logger;
+}
+
+export interface SquashfsBuildStats {
+  imageBytes: number;
+  files: number;
+  directories: number;
+  symlinks: number;
+  // Names beyond the first of hard-linked files
+  hardlinks: number;
+  bytes: number;
+  dataBlocks: number;
+  sparseBlocks: number;
+  fragmentBlocks: number;
+  filesInFragments: number;
+  duplicateFiles: number;
+  duplicateBytes: number;
+  elapsedMs: number;
+}
+
+interface SourceAttributes {
+  name: string;
+  mode: number;
+  uid: number;
+  gid: number;
+  // Seconds since the epoch
+  mtime: number;
+}
+
+interface ContentSource {
+  // Fill the buffer with the next bytes of the file
+  read(target: Buffer): void;
+  close(): void;
+}
+
+interface SourceDirectory extends SourceAttributes {
+  kind: 'directory';
+  children: SourceNode[];
+}
+
+interface SourceFile extends SourceAttributes {
+  kind: 'file';
+  size: number;
+  open: () => ContentSource;
+  // Same for every name of a hard-linked file
+  linkKey?: string;
+}
+
+interface SourceSymlink extends SourceAttributes {
+  kind: 'symlink';
+  target: string;
+}
+
+type SourceNode = SourceDirectory | SourceFile | SourceSymlink;
+
+// Directory entries hold the basic inode type
+const ENTRY_INODE_TYPES: Record<SourceNode['kind'], number> = {
+  directory: INODE_DIRECTORY,
+  file: INODE_FILE,
+  symlink: INODE_SYMLINK,
+};
+
+/**
+ * Where a file's content went
+ */
+interface FileData {
+  blocksStart: number;
+  // Stored size of each block, with DATA_UNCOMPRESSED set; 0 for a sparse block
+  blockSizes: number[];
+  fragment: number;
+  fragmentOffset: number;
+  sparseBytes: number;
+}
+
+interface InodeRecord {
+  number: number;
+  linkCount: number;
+  ref?: MetadataRef;
+}
+
+function byName(a: SourceNode, b: SourceNode): number {
+  return Buffer.compare(Buffer.from(a.name), Buffer.from(b.name));
+}
+
+function fileSource(filePath: string): ContentSource {
+  const fd = fs.openSync(filePath, 'r');
+  return {
+    read: (target) => {
+      for (let pos = 0; pos < target.length; ) {
+        const bytesRead = fs.readSync(fd, target, pos, target.length - pos, null);
+        if (bytesRead === 0) throw new Error(`${filePath} shrank while it was being read`);
+        pos += bytesRead;
+      }
+    },
+    close: () => fs.closeSync(fd),
+  };
+}
+
+function attributes(name: string, stats: fs.Stats): SourceAttributes {
+  return { name, mode: stats.mode & 0o7777, uid: stats.uid, gid: stats.gid, mtime: Math.floor(stats.mtimeMs / 1000) };
+}
+
+function scanEntry(fullPath: string, name: string): SourceNode {
+  const stats = fs.lstatSync(fullPath);
+  if (stats.isDirectory()) {
+    const children = fs.readdirSync(fullPath).map((child) => scanEntry(path.join(fullPath, child), child));
+    return { kind: 'directory', ...attributes(name, stats), children: children.sort(byName) };
+  }
+  if (stats.isSymbolicLink()) {
+    return { kind: 'symlink', ...attributes(name, stats), target: fs.readlinkSync(fullPath) };
+  }
+  if (stats.isFile()) {
+    return {
+      kind: 'file',
+      ...attributes(name, stats),
+      size: stats.size,
+      open: () => fileSource(fullPath),
+      linkKey: stats.nlink > 1 ? `${stats.dev}:${stats.ino}` : undefined,
+    };
+  }
+  throw new Error(`${fullPath}: only directories, regular files and symlinks can go into an image`);
+}
+
+/**
+ * The tree of a planned dataset with content from the seeds, laid out like datasetTarStream lays it out
+ */
+function planTree(plan: DatasetPlan): SourceDirectory {
+  const owner = { uid: 0, gid: 0, mtime: ENTRY_MTIME_SECONDS };
+  const root: SourceDirectory = { kind: 'directory', name: '', mode: 0o755, ...owner, children: [] };
+  const dirs = new Map<string, SourceDirectory>([['.', root]]);
+  for (const dir of allDirectories(plan)) {
+    const node: SourceDirectory = { kind: 'directory', name: path.basename(dir), mode: 0o755, ...owner, children: [] };
+    dirs.get(path.dirname(dir))!.children.push(node);
+    dirs.set(dir, node);
+  }
+  for (const file of plan.files) {
+    dirs.get(path.dirname(file.relativePath))!.children.push({
+      kind: 'file',
+      name: path.basename(file.relativePath),
+      mode: 0o644,
+      ...owner,
+      size: file.size,
+      open: () => {
+        const stream = new FileContentStream(file, plan.profile.content);
+        return { read: (target) => stream.read(target), close: () => undefined };
+      },
+    });
+  }
+  for (const dir of dirs.values()) {
+    dir.children.sort(byName);
+  }
+  return root;
+}
+
+export function validateBlockSize(blockSize: number): void {
+  if (blockSize < MIN_BLOCK_SIZE || blockSize > MAX_BLOCK_SIZE || (blockSize & (blockSize - 1)) !== 0) {
+    throw new Error(`SquashFS block size must be a power of two from 4K to 1M, got ${blockSize}`);
+  }
+}
+
+/**
+ * e.g. 128K or 1M
+ */
+export function formatBlockSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${bytes / (1024 * 1024)}M` : `${bytes / 1024}K`;
+}
+
+/**
+ * Writes an uncompressed image: data and fragment blocks first, then the
+ * inode, directory, fragment and id tables, then the superblock at the start
+ */
+class ImageWriter {
+  private position = SUPERBLOCK_SIZE;
+  private readonly blockSize: number;
+  private readonly blockBuffer: Buffer;
+  private readonly zeros: Buffer;
+  private readonly fragment: Buffer;
+  private fragmentUsed = 0;
+  private readonly fragmentEntries: Buffer[] = [];
+  private readonly inodes = new Map<SourceNode, InodeRecord>();
+  private readonly links = new Map<string, { record: InodeRecord; data: FileData }>();
+  private readonly fileData = new Map<SourceNode, FileData>();
+  private readonly contents = new Map<string, FileData>();
+  private readonly ids = new Map<number, number>();
+  private readonly inodeTable = new MetadataWriter();
+  private readonly directoryTable = new MetadataWriter();
+  private inodeCount = 0;
+  readonly stats: SquashfsBuildStats = {
+    imageBytes: 0,
+    files: 0,
+    directories: 0,
+    symlinks: 0,
+    hardlinks: 0,
+    bytes: 0,
+    dataBlocks: 0,
+    sparseBlocks: 0,
+    fragmentBlocks: 0,
+    filesInFragments: 0,
+    duplicateFiles: 0,
+    duplicateBytes: 0,
+    elapsedMs: 0,
+  };
+
+  constructor(
+    private readonly fd: number,
+    private readonly options: SquashfsBuildOptions
+  ) {
+    this.blockSize = options.blockSize ?? DEFAULT_SQUASHFS_BLOCK_SIZE;
+    this.blockBuffer = Buffer.allocUnsafe(this.blockSize);
+    this.zeros = Buffer.alloc(this.blockSize);
+    this.fragment = Buffer.allocUnsafe(this.blockSize);
+  }
+
+  async write(root: SourceDirectory): Promise<void> {
+    await this.writeData(root);
+    this.flushFragment();
+    const rootRecord = this.writeInodes(root, this.inodeCount + 1);
+
+    const inodeTableStart = this.append(this.inodeTable.finish());
+    const directoryTableStart = this.append(this.directoryTable.finish());
+    const fragmentTableStart =
+      this.fragmentEntries.length > 0 ? this.appendIndexedTable(this.fragmentEntries) : this.position;
+    const idEntries = [...this.ids.keys()].map((id) => {
+      const entry = Buffer.alloc(4);
+      entry.writeUInt32LE(id);
+      return entry;
+    });
+    const idTableStart = this.appendIndexedTable(idEntries);
+    const bytesUsed = this.position;
+
+    const { fragments, alwaysFragments, dedup } = this.options;
+    const flags =
+      FLAG_UNCOMPRESSED_INODES |
+      FLAG_UNCOMPRESSED_DATA |
+      FLAG_UNCOMPRESSED_FRAGMENTS |
+      FLAG_UNCOMPRESSED_XATTRS |
+      FLAG_NO_XATTRS |
+      FLAG_UNCOMPRESSED_IDS |
+      (fragments === false ? FLAG_NO_FRAGMENTS : 0) |
+      (alwaysFragments ? FLAG_ALWAYS_FRAGMENTS : 0) |
+      (dedup ? FLAG_DUPLICATES : 0);
+    const superblock = serializeSuperblock({
+      inodeCount: this.inodeCount,
+      modificationTime: ENTRY_MTIME_SECONDS,
+      blockSize: this.blockSize,
+      fragmentCount: this.fragmentEntries.length,
+      compression: GZIP_COMPRESSION,
+      blockLog: Math.log2(this.blockSize),
+      flags,
+      idCount: this.ids.size,
+      versionMajor: 4,
+      versionMinor: 0,
+      rootInode: metadataRefValue(rootRecord.ref!),
+      bytesUsed,
+      idTableStart,
+      inodeTableStart,
+      directoryTableStart,
+      fragmentTableStart,
+    });
+    fs.writeSync(this.fd, superblock, 0, superblock.length, 0);
+    // Drops anything a deduplicated file left past the end, then pads with zeros
+    fs.ftruncateSync(this.fd, bytesUsed);
+    this.stats.imageBytes = Math.ceil(bytesUsed / DEVICE_BLOCK_SIZE) * DEVICE_BLOCK_SIZE;
+    fs.ftruncateSync(this.fd, this.stats.imageBytes);
+  }
+
+  private append(data: Buffer): number {
+    const start = this.position;
+    fs.writeSync(this.fd, data, 0, data.length, start);
+    this.position += data.length;
+    return start;
+  }
+
+  /**
+   * Metadata blocks of fixed-size entries followed by the list of where
+   * each block starts; the superblock points at the list
+   */
+  private appendIndexedTable(entries: Buffer[]): number {
+    const table = new MetadataWriter();
+    for (const entry of entries) table.write(entry);
+    const tableStart = this.append(table.finish());
+    const index = Buffer.alloc(8 * table.blockStarts.length);
+    table.blockStarts.forEach((start, i) => index.writeBigUInt64LE(BigInt(tableStart + start), i * 8));
+    return this.append(index);
+  }
+
+  private idIndex(id: number): number {
+    let index = this.ids.get(id);
+    if (index === undefined) {
+      index = this.ids.size;
+      this.ids.set(id, index);
+    }
+    return index;
+  }
+
+  /**
+   * Write file contents depth first and number the inodes in the order
+   * writeInodes writes them: children before their directory
+   */
+  private async writeData(dir: SourceDirectory): Promise<void> {
+    for (const child of dir.children) {
+      if (Buffer.byteLength(child.name) > MAX_NAME_BYTES) {
+        throw new Error(`Name is longer than ${MAX_NAME_BYTES} bytes: ${child.name}`);
+      }
+      if (child.kind === 'directory') {
+        await this.writeData(child);
+        continue;
+      }
+      const linked = child.kind === 'file' && child.linkKey ? this.links.get(child.linkKey) : undefined;
+      if (linked) {
+        linked.record.linkCount++;
+        this.inodes.set(child, linked.record);
+        this.fileData.set(child, linked.data);
+        this.stats.hardlinks++;
+        continue;
+      }
+      const record = { number: ++this.inodeCount, linkCount: 1 };
+      this.inodes.set(child, record);
+      if (child.kind === 'symlink') {
+        this.stats.symlinks++;
+        continue;
+      }
+      const data = this.writeFile(child);
+      this.fileData.set(child, data);
+      if (child.linkKey) {
+        this.links.set(child.linkKey, { record, data });
+      }
+      // Let signal handlers run between files; all writes are synchronous
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    const subdirectories = dir.children.filter((child) => child.kind === 'directory').length;
+    this.inodes.set(dir, { number: ++this.inodeCount, linkCount: 2 + subdirectories });
+    this.stats.directories++;
+  }
+
+  private writeFile(file: SourceFile): FileData {
+    const { blockSize } = this;
+    const tailSize = file.size % blockSize;
+    const packTail =
+      this.options.fragments !== false && tailSize > 0 && (file.size < blockSize || this.options.alwaysFragments);
+    const blockCount = packTail ? Math.floor(file.size / blockSize) : Math.ceil(file.size / blockSize);
+    const hash = this.options.dedup ? crypto.createHash('sha256') : undefined;
+    const blocksStart = this.position;
+    const blockSizes: number[] = [];
+    let sparseBytes = 0;
+    let tail: Buffer | undefined;
+
+    const source = file.open();
+    try {
+      for (let i = 0; i < blockCount; i++) {
+        const length = Math.min(blockSize, file.size - i * blockSize);
+        const block = this.blockBuffer.subarray(0, length);
+        source.read(block);
+        hash?.update(block);
+        if (this.options.sparse && block.equals(this.zeros.subarray(0, length))) {
+          blockSizes.push(0);
+          sparseBytes += length;
+          continue;
+        }
+        fs.writeSync(this.fd, block, 0, length, this.position);
+        this.position += length;
+        blockSizes.push(length | DATA_UNCOMPRESSED);
+      }
+      if (packTail) {
+        tail = Buffer.allocUnsafe(tailSize);
+        source.read(tail);
+        hash?.update(tail);
+      }
+    } finally {
+      source.close();
+    }
+
+    this.stats.files++;
+    this.stats.bytes += file.size;
+    const key = hash && `${file.size}:${hash.digest('hex')}`;
+    const duplicate = key !== undefined ? this.contents.get(key) : undefined;
+    if (duplicate) {
+      // Later blocks overwrite the copy just written
+      this.position = blocksStart;
+      this.stats.duplicateFiles++;
+      this.stats.duplicateBytes += file.size;
+      return duplicate;
+    }
+
+    const sparseBlocks = blockSizes.filter((size) => size === 0).length;
+    this.stats.dataBlocks += blockSizes.length - sparseBlocks;
+    this.stats.sparseBlocks += sparseBlocks;
+    const data: FileData = { blocksStart, blockSizes, fragment: NO_FRAGMENT, fragmentOffset: 0, sparseBytes };
+    if (tail) {
+      if (this.fragmentUsed + tail.length > blockSize) this.flushFragment();
+      data.fragment = this.fragmentEntries.length;
+      data.fragmentOffset = this.fragmentUsed;
+      tail.copy(this.fragment, this.fragmentUsed);
+      this.fragmentUsed += tail.length;
+      this.stats.filesInFragments++;
+    }
+    if (key !== undefined) {
+      this.contents.set(key, data);
+    }
+    return data;
+  }
+
+  private flushFragment(): void {
+    if (this.fragmentUsed === 0) return;
+    const entry = Buffer.alloc(FRAGMENT_ENTRY_SIZE);
+    entry.writeBigUInt64LE(BigInt(this.append(this.fragment.subarray(0, this.fragmentUsed))), 0);
+    entry.writeUInt32LE(this.fragmentUsed | DATA_UNCOMPRESSED, 8);
+    this.fragmentEntries.push(entry);
+    this.fragmentUsed = 0;
+    this.stats.fragmentBlocks++;
+  }
+
+  private inodeHeader(type: number, node: SourceNode, record: InodeRecord, size: number): Buffer {
+    const inode = Buffer.alloc(16 + size);
+    inode.writeUInt16LE(type, 0);
+    inode.writeUInt16LE(node.mode & 0o7777, 2);
+    inode.writeUInt16LE(this.idIndex(node.uid), 4);
+    inode.writeUInt16LE(this.idIndex(node.gid), 6);
+    inode.writeUInt32LE(node.mtime >>> 0, 8);
+    inode.writeUInt32LE(record.number, 12);
+    return inode;
+  }
+
+  /**
+   * Inodes in the order writeData numbered them, each directory after its
+   * children so its listing can point at them
+   */
+  private writeInodes(dir: SourceDirectory, parentNumber: number): InodeRecord {
+    const dirRecord = this.inodes.get(dir)!;
+    for (const child of dir.children) {
+      if (child.kind === 'directory') {
+        this.writeInodes(child, dirRecord.number);
+        continue;
+      }
+      const record = this.inodes.get(child)!;
+      if (record.ref) continue;
+      record.ref = this.inodeTable.position();
+      this.inodeTable.write(child.kind === 'file' ? this.fileInode(child, record) : this.symlinkInode(child, record));
+    }
+
+    const listing = this.directoryTable.position();
+    const listingBytes = this.writeListing(dir);
+    // The size counts the . and .. entries the listing leaves out
+    const fileSize = listingBytes + 3;
+    let inode: Buffer;
+    if (fileSize <= 0xffff) {
+      inode = this.inodeHeader(INODE_DIRECTORY, dir, dirRecord, 16);
+      inode.writeUInt32LE(listing.block, 16);
+      inode.writeUInt32LE(dirRecord.linkCount, 20);
+      inode.writeUInt16LE(fileSize, 24);
+      inode.writeUInt16LE(listing.offset, 26);
+      inode.writeUInt32LE(parentNumber, 28);
+    } else {
+      // No directory index, so lookups in very large directories read the whole listing
+      inode = this.inodeHeader(INODE_EXTENDED_DIRECTORY, dir, dirRecord, 24);
+      inode.writeUInt32LE(dirRecord.linkCount, 16);
+      inode.writeUInt32LE(fileSize, 20);
+      inode.writeUInt32LE(listing.block, 24);
+      inode.writeUInt32LE(parentNumber, 28);
+      inode.writeUInt16LE(0, 32);
+      inode.writeUInt16LE(listing.offset, 34);
+      inode.writeUInt32LE(0xffffffff, 36);
+    }
+    dirRecord.ref = this.inodeTable.position();
+    this.inodeTable.write(inode);
+    return dirRecord;
+  }
+
+  private fileInode(file: SourceFile, record: InodeRecord): Buffer {
+    const data = this.fileData.get(file)!;
+    const blockList = 4 * data.blockSizes.length;
+    const basic =
+      data.blocksStart <= 0xffffffff && file.size <= 0xffffffff && record.linkCount === 1 && data.sparseBytes === 0;
+    let inode: Buffer;
+    let listStart: number;
+    if (basic) {
+      inode = this.inodeHeader(INODE_FILE, file, record, 16 + blockList);
+      inode.writeUInt32LE(data.blocksStart, 16);
+      inode.writeUInt32LE(data.fragment, 20);
+      inode.writeUInt32LE(data.fragmentOffset, 24);
+      inode.writeUInt32LE(file.size, 28);
+      listStart = 32;
+    } else {
+      inode = this.inodeHeader(INODE_EXTENDED_FILE, file, record, 40 + blockList);
+      inode.writeBigUInt64LE(BigInt(data.blocksStart), 16);
+      inode.writeBigUInt64LE(BigInt(file.size), 24);
+      inode.writeBigUInt64LE(BigInt(data.sparseBytes), 32);
+      inode.writeUInt32LE(record.linkCount, 40);
+      inode.writeUInt32LE(data.fragment, 44);
+      inode.writeUInt32LE(data.fragmentOffset, 48);
+      inode.writeUInt32LE(0xffffffff, 52);
+      listStart = 56;
+    }
+    data.blockSizes.forEach((size, i) => inode.writeUInt32LE(size, listStart + 4 * i));
+    return inode;
+  }
+
+  private symlinkInode(link: SourceSymlink, record: InodeRecord): Buffer {
+    const target = Buffer.from(link.target);
+    const inode = this.inodeHeader(INODE_SYMLINK, link, record, 8 + target.length);
+    inode.writeUInt32LE(record.linkCount, 16);
+    inode.writeUInt32LE(target.length, 20);
+    target.copy(inode, 24);
+    return inode;
+  }
+
+  /**
+   * Directory entries in name order, in runs that share an inode block and
+   * stay within the 16-bit inode number difference an entry can hold
+   */
+  private writeListing(dir: SourceDirectory): number {
+    const parts: Buffer[] = [];
+    let run: { header: Buffer; count: number; block: number; base: number } | undefined;
+    for (const child of dir.children) {
+      const { number, ref } = this.inodes.get(child)!;
+      const delta = run ? number - run.base : 0;
+      if (!run || run.count === MAX_DIRECTORY_RUN || run.block !== ref!.block || delta < -32768 || delta > 32767) {
+        run = { header: Buffer.alloc(DIRECTORY_HEADER_SIZE), count: 0, block: ref!.block, base: number };
+        run.header.writeUInt32LE(ref!.block, 4);
+        run.header.writeUInt32LE(number, 8);
+        parts.push(run.header);
+      }
+      const name = Buffer.from(child.name);
+      const entry = Buffer.alloc(DIRECTORY_ENTRY_SIZE + name.length);
+      entry.writeUInt16LE(ref!.offset, 0);
+      entry.writeInt16LE(number - run.base, 2);
+      entry.writeUInt16LE(ENTRY_INODE_TYPES[child.kind], 4);
+      entry.writeUInt16LE(name.length - 1, 6);
+      name.copy(entry, DIRECTORY_ENTRY_SIZE);
+      parts.push(entry);
+      run.count++;
+      // The header holds the entry count minus one
+      run.header.writeUInt32LE(run.count - 1, 0);
+    }
+    const listing = Buffer.concat(parts);
+    this.directoryTable.write(listing);
+    return listing.length;
+  }
+}
+
+async function writeImage(
+  root: SourceDirectory,
+  imagePath: string,
+  source: string,
+  options: SquashfsBuildOptions
+): Promise<SquashfsBuildStats> {
+  const logger = options.logger ?? actionsLogger;
+  const blockSize = options.blockSize ?? DEFAULT_SQUASHFS_BLOCK_SIZE;
+  validateBlockSize(blockSize);
+  const fragments = options.fragments === false ? 'no' : options.alwaysFragments ? 'all' : 'small-file';
+  logger.info(
+    `Building SquashFS image ${imagePath} from ${source} (block size ${formatBlockSize(blockSize)}, ` +
+      `${fragments} fragments, dedup ${options.dedup ? 'on' : 'off'}, sparse ${options.sparse ? 'on' : 'off'})`
+  );
+  const startTime = Date.now();
+  const fd = fs.openSync(imagePath, 'w');
+  let writer: ImageWriter;
+  try {
+    writer = new ImageWriter(fd, { ...options, blockSize });
+    await writer.write(root);
+  } finally {
+    fs.closeSync(fd);
+  }
+  const stats = { ...writer.stats, elapsedMs: Date.now() - startTime };
+  logger.info(
+    `[${stats.elapsedMs}ms] Image complete: ${stats.files} files, ${stats.directories} directories, ` +
+      `${(stats.imageBytes / (1024 * 1024)).toFixed(1)} MB (${stats.dataBlocks} data blocks, ` +
+      `${stats.fragmentBlocks} fragment blocks, ${stats.duplicateFiles} duplicate files)`
+  );
+  return stats;
+}
+
+/**
+ * Write an uncompressed SquashFS image of a directory, like mksquashfs with
+ * -noI -noD -noF -noX. Regular files, directories, symlinks and hard links
+ * keep their modes, owners and modification times; xattrs are left out.
+ */
+export async function buildSquashfsFromDirectory(
+  sourceDir: string,
+  imagePath: string,
+  options: SquashfsBuildOptions = {}
+): Promise<SquashfsBuildStats> {
+  const stats = fs.statSync(sourceDir);
+  if (!stats.isDirectory()) {
+    throw new Error(`${sourceDir} is not a directory`);
+  }
+  const root = scanEntry(sourceDir, '') as SourceDirectory;
+  return writeImage(root, imagePath, sourceDir, options);
+}
+
+/**
+ * Write an uncompressed SquashFS image of a planned dataset straight from
+ * the seeds, without generating it on disk first. Holds the same entries as
+ * datasetTarStream: regular files and directories, owned by root.
+ */
+export async function buildSquashfsFromPlan(
+  plan: DatasetPlan,
+  imagePath: string,
+  options: SquashfsBuildOptions = {}
+): Promise<SquashfsBuildStats> {
+  return writeImage(planTree(plan), imagePath, `the ${plan.profile.name} dataset seeds`, options);
+}
@@ -0,0 +1,46 @@
+/**
+ * Summary statistics of a set of samples
+ */
+export interface SampleStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  // Sample standard deviation (0 for fewer than two samples)
+  stddev: number;
+}
+
+/**
+ * Percentile of an ascending-sorted array using linear interpolation between ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarize(values: number[]): SampleStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((acc, v) => acc + v, 0);
+  const mean = sorted.length > 0 ? sum / sorted.length : 0;
+  const squares = sorted.reduce((acc, v) => acc + (v - mean) ** 2, 0);
+  return {
+    count: sorted.length,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    mean,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    stddev: sorted.length > 1 ? Math.sqrt(squares / (sorted.length - 1)) : 0,
+  };
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { detectStorage, findMount, MountEntry, parseMounts, parseTargetList, storageLabel } from './storage';
+import { makeTempDir } from './test-helpers';
+
+const PROC_MOUNTS = [
+  'overlay / overlay rw,relatime,lowerdir=/l,upperdir=/u,workdir=/w 0 0',
+  'proc /proc proc rw,nosuid,nodev,noexec,relatime 0 0',
+  'tmpfs /dev/shm tmpfs rw,nosuid,nodev,size=65536k 0 0',
+  '/dev/sda1 /mnt/data\\040disk ext4 rw,relatime 0 0',
+  '/dev/sdb1 /mnt/tab\\011and\\134slash xfs ro 0 0',
+  '',
+].join('\n');
+
+function mount(mountPoint: string, fsType: string, device = fsType): MountEntry {
+  return { device, mountPoint, fsType, options: ['rw'] };
+}
+
+describe('parseMounts', () => {
+  test('reads device, mount point, type and options of each line', () => {
+    const mounts = parseMounts(PROC_MOUNTS);
+    assert.equal(mounts.length, 5);
+    assert.deepEqual(mounts[2], {
+      device: 'tmpfs',
+      mountPoint: '/dev/shm',
+      fsType: 'tmpfs',
+      options: ['rw', 'nosuid', 'nodev', 'size=65536k'],
+    });
+    assert.deepEqual(mounts[0].options, ['rw', 'relatime', 'lowerdir=/l', 'upperdir=/u', 'workdir=/w']);
+  });
+
+  test('unescapes octal escapes in devices and mount points', () => {
+    const [, , , disk, odd] = parseMounts(PROC_MOUNTS);
+    assert.equal(disk.mountPoint, '/mnt/data disk');
+    assert.equal(odd.mountPoint, '/mnt/tab\tand\\slash');
+    assert.equal(parseMounts('/dev/my\\040disk /mnt ext4 rw 0 0')[0].device, '/dev/my disk');
+  });
+
+  test('skips blank and short lines', () => {
+    assert.deepEqual(parseMounts('\n\nnone /x\n'), []);
+  });
+});
+
+describe('findMount', () => {
+  const root = fs.realpathSync(makeTempDir());
+  const mounts = [mount('/', 'overlay'), mount(root, 'ext4'), mount(`${root}/shm`, 'tmpfs')];
+
+  test('picks the longest mount point containing the path', () => {
+    fs.mkdirSync(path.join(root, 'shm', 'files'), { recursive: true });
+    assert.equal(findMount(path.join(root, 'shm', 'files'), mounts)?.fsType, 'tmpfs');
+    assert.equal(findMount(path.join(root, 'shm'), mounts)?.fsType, 'tmpfs');
+    assert.equal(findMount(root, mounts)?.fsType, 'ext4');
+    assert.equal(findMount('/', mounts)?.fsType, 'overlay');
+  });
+
+  test('does not match a sibling that shares a prefix with the mount point', () => {
+    fs.mkdirSync(path.join(root, 'shm2'), { recursive: true });
+    assert.equal(findMount(path.join(root, 'shm2'), mounts)?.fsType, 'ext4');
+  });
+
+  test('looks at directories that do not exist yet', () => {
+    assert.equal(findMount(path.join(root, 'shm', 'not', 'yet'), mounts)?.fsType, 'tmpfs');
+  });
+
+  test('takes the last mount when several share a mount point', () => {
+    assert.equal(findMount(root, [...mounts, mount(root, 'tmpfs', 'over')])?.device, 'over');
+  });
+});
+
+describe('detectStorage', () => {
+  test('calls a path memory-backed when its mount is tmpfs or ramfs', () => {
+    const dir = fs.realpathSync(makeTempDir());
+    for (const fsType of ['tmpfs', 'ramfs']) {
+      const info = detectStorage(path.join(dir, 'files'), [mount(dir, fsType)]);
+      assert.equal(info.fsType, fsType);
+      assert.equal(info.memoryBacked, true);
+      assert.equal(info.mountPoint, dir);
+      assert.ok(info.totalBytes > 0);
+    }
+  });
+
+  test('labels files and temp dir on different filesystems separately', () => {
+    const dir = fs.realpathSync(makeTempDir());
+    const memory = detectStorage(dir, [mount(dir, 'tmpfs')]);
+    const disk = { ...memory, fsType: 'ext4', memoryBacked: false };
+    assert.equal(storageLabel(memory, memory), 'TMPFS(tmpfs)');
+    assert.equal(storageLabel(disk, memory), 'DISK(ext4)+TMPFS(tmpfs)');
+  });
+});
+
+describe('parseTargetList', () => {
+  test('splits on commas and newlines and drops blanks', () => {
+    assert.deepEqual(parseTargetList(' tmpfs, /mnt/data\n\ndefault ,'), ['tmpfs', '/mnt/data', 'default']);
+  });
+});
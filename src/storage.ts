@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as core from '@actions/core';
+
+// Possible tmpfs locations on different systems
+export const TMPFS_CANDIDATES = ['/mnt/tmpfs', '/tmpfs', '/dev/shm'];
+
+const MEMORY_FS_TYPES = ['tmpfs', 'ramfs'];
+
+// statfs f_type magic numbers, used when /proc/mounts is unavailable
+const FS_MAGIC: Record<number, string> = {
+  0x01021994: 'tmpfs',
+  0x858458f6: 'ramfs',
+  0xef53: 'ext4',
+  0x58465342: 'xfs',
+  0x9123683e: 'btrfs',
+  0x794c7630: 'overlay',
+  0x65735546: 'fuse',
+  0x6969: 'nfs',
+};
+
+/**
+ * One line of /proc/mounts
+ */
+export interface MountEntry {
+  device: string;
+  mountPoint: string;
+  fsType: string;
+  options: string[];
+}
+
+/**
+ * Filesystem a path lives on, as detected on this machine
+ */
+export interface StorageInfo {
+  path: string;
+  fsType: string;
+  // tmpfs or ramfs, i.e. backed by memory rather than a disk
+  memoryBacked: boolean;
+  device?: string;
+  mountPoint?: string;
+  mountOptions?: string[];
+  freeBytes: number;
+  totalBytes: number;
+}
+
+/**
+ * Where one benchmark run keeps its files and archive temp dir
+ */
+export interface StorageTarget {
+  // Directory the files directory is created in
+  filesRoot: string;
+  runnerTemp: string;
+  // Set when the target was asked for as tmpfs, so a disk-backed mount gets a warning
+  claimedTmpfs: { files: boolean; runnerTemp: boolean };
+}
+
+/**
+ * /proc/mounts escapes spaces, tabs, newlines and backslashes as octal
+ */
+function unescapeMountField(field: string): string {
+  return field.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+}
+
+/**
+ * Parse the contents of /proc/mounts
+ */
+export function parseMounts(text: string): MountEntry[] {
+  return text
+    .split('\n')
+    .map((line) => line.split(' '))
+    .filter((fields) => fields.length >= 4)
+    .map(([device, mountPoint, fsType, options]) => ({
+      device: unescapeMountField(device),
+      mountPoint: unescapeMountField(mountPoint),
+      fsType,
+      options: options.split(','),
+    }));
+}
+
+export function readMounts(): MountEntry[] {
+  if (!fs.existsSync('/proc/mounts')) {
+    return [];
+  }
+  return parseMounts(fs.readFileSync('/proc/mounts', 'utf8'));
+}
+
+/**
+ * Deepest part of the path that exists, with symlinks resolved, so a
+ * directory can be looked at before it is created
+ */
+function nearestExisting(target: string): { existing: string; rest: string[] } {
+  let existing = path.resolve(target);
+  const rest: string[] = [];
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    rest.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+  }
+  return { existing: fs.realpathSync(existing), rest };
+}
+
+/**
+ * The mount a path is on: the longest matching mount point, and the last
+ * one mounted when several share it
+ */
+export function findMount(target: string, mounts: MountEntry[] = readMounts()): MountEntry | undefined {
+  const { existing, rest } = nearestExisting(target);
+  const resolved = path.join(existing, ...rest);
+  let best: MountEntry | undefined;
+  for (const mount of mounts) {
+    const inside =
+      mount.mountPoint === '/' || resolved === mount.mountPoint || resolved.startsWith(`${mount.mountPoint}/`);
+    if (inside && (!best || mount.mountPoint.length >= best.mountPoint.length)) {
+      best = mount;
+    }
+  }
+  return best;
+}
+
+/**
+ * Detect the filesystem type, mount options and free space of a path
+ */
+export function detectStorage(target: string, mounts: MountEntry[] = readMounts()): StorageInfo {
+  const mount = findMount(target, mounts);
+  const stats = fs.statfsSync(nearestExisting(target).existing);
+  const statfsType = FS_MAGIC[stats.type];
+  const fsType = mount?.fsType ?? statfsType ?? `0x${stats.type.toString(16)}`;
+  // The magic number catches memory-backed mounts listed under another type, e.g. inside containers
+  return {
+    path: target,
+    fsType,
+    memoryBacked: [fsType, statfsType].some((type) => type !== undefined && MEMORY_FS_TYPES.includes(type)),
+    device: mount?.device,
+    mountPoint: mount?.mountPoint,
+    mountOptions: mount?.options,
+    freeBytes: stats.bavail * stats.bsize,
+    totalBytes: stats.blocks * stats.bsize,
+  };
+}
+
+function isWritable(dir: string): boolean {
+  try {
+    const testFile = path.join(dir, '.tmpfs-test');
+    fs.writeFileSync(testFile, 'test');
+    fs.unlinkSync(testFile);
+    return true;
+  } catch {
+    core.debug(`${dir} exists but is not writable`);
+    return false;
+  }
+}
+
+/**
+ * First writable candidate that is really memory-backed. Falls back to the
+ * first writable one, with a warning, when none of them is.
+ */
+export function findTmpfsLocation(): string {
+  const writable = TMPFS_CANDIDATES.filter((candidate) => fs.existsSync(candidate) && isWritable(candidate));
+  const mounts = readMounts();
+  const memoryBacked = writable.find((candidate) => detectStorage(candidate, mounts).memoryBacked);
+  if (memoryBacked) {
+    return memoryBacked;
+  }
+  if (writable.length > 0) {
+    core.warning(`None of ${TMPFS_CANDIDATES.join(', ')} is memory-backed; using ${writable[0]}`);
+    return writable[0];
+  }
+  throw new Error(`No tmpfs location found. Tried: ${TMPFS_CANDIDATES.join(', ')}`);
+}
+
+/**
+ * Split a comma or newline separated list input
+ */
+export function parseTargetList(input: string): string[] {
+  return input
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+}
+
+/**
+ * Every combination of a files directory and a RUNNER_TEMP. Entries are
+ * paths, `tmpfs` for the detected tmpfs location or `default` for the
+ * working directory and the current RUNNER_TEMP respectively.
+ */
+export function resolveStorageTargets(filesDirs: string[], runnerTempDirs: string[]): StorageTarget[] {
+  const resolve = (entry: string, tmpfsSubdir: string, fallback: string): { dir: string; claimedTmpfs: boolean } => {
+    if (entry === 'tmpfs') {
+      return { dir: path.join(findTmpfsLocation(), tmpfsSubdir), claimedTmpfs: true };
+    }
+    if (entry === 'default') {
+      return { dir: fallback, claimedTmpfs: false };
+    }
+    const dir = path.resolve(entry);
+    const claimedTmpfs = TMPFS_CANDIDATES.some((candidate) => dir === candidate || dir.startsWith(`${candidate}/`));
+    return { dir, claimedTmpfs };
+  };
+  const defaultRunnerTemp = process.env['RUNNER_TEMP'] ?? '';
+  const filesTargets = (filesDirs.length > 0 ? filesDirs : ['default']).map((entry) =>
+    resolve(entry, 'cache-benchmark', process.cwd())
+  );
+  const tempTargets = (runnerTempDirs.length > 0 ? runnerTempDirs : ['default']).map((entry) =>
+    resolve(entry, 'runner-temp', defaultRunnerTemp)
+  );
+  return filesTargets.flatMap((files) =>
+    tempTargets.map((temp) => ({
+      filesRoot: files.dir,
+      // Without a RUNNER_TEMP, archives go next to the files
+      runnerTemp: temp.dir || files.dir,
+      claimedTmpfs: { files: files.claimedTmpfs, runnerTemp: temp.claimedTmpfs },
+    }))
+  );
+}
+
+/**
+ * TMPFS or DISK with the detected type, e.g. "DISK(ext4)"
+ */
+function describeFilesystem(info: StorageInfo): string {
+  return `${info.memoryBacked ? 'TMPFS' : 'DISK'}(${info.fsType})`;
+}
+
+/**
+ * Result label of a target, e.g. "TMPFS(tmpfs)" or, when the files and the
+ * archive temp dir are on different filesystems, "DISK(ext4)+TMPFS(tmpfs)"
+ */
+export function storageLabel(files: StorageInfo, runnerTemp: StorageInfo): string {
+  const filesLabel = describeFilesystem(files);
+  const tempLabel = describeFilesystem(runnerTemp);
+  return filesLabel === tempLabel ? filesLabel : `${filesLabel}+${tempLabel}`;
+}
+
+function formatGb(bytes: number): string {
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+}
+
+/**
+ * e.g. "/dev/shm: tmpfs on /dev/shm (tmpfs, rw,relatime), 5.8 GB free of 5.9 GB"
+ */
+export function formatStorageInfo(info: StorageInfo): string {
+  const mount = info.mountPoint ? ` on ${info.mountPoint} (${info.device}, ${info.mountOptions?.join(',')})` : '';
+  return `${info.path}: ${info.fsType}${mount}, ${formatGb(info.freeBytes)} free of ${formatGb(info.totalBytes)}`;
+}
+
+/**
+ * Warn when a directory asked for as tmpfs is on a disk-backed filesystem
+ */
+export function warnIfNotMemoryBacked(info: StorageInfo, what: string): void {
+  if (!info.memoryBacked) {
+    core.warning(
+      `${what} ${info.path} was requested as tmpfs but is on ${info.fsType}` +
+        `${info.mountPoint ? ` (${info.mountPoint})` : ''}; results measure disk I/O`
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { matchRestoreKey, SaveResult, StoredEntry, StreamingBackend } from './backend';
+import { FatalCacheError } from './retry';
+import { zstdCompress, zstdDecompress } from './tar-stream';
+
+/**
+ * Run a command with inherited stdio, rejecting on a non-zero exit
+ */
+export function runCommand(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: 'inherit' });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT' ? new FatalCacheError(`${command} is not installed`) : error);
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Turn absolute paths into paths relative to the filesystem root, the way tar stores them
+ */
+function toRootRelative(paths: string[]): string[] {
+  return paths.map((p) => path.relative('/', path.resolve(p)));
+}
+
+/**
+ * Local backend that archives paths with tar + zstd (same format as GitHub's cache)
+ */
+export class TarZstdBackend implements StreamingBackend {
+  readonly name = 'tar-zstd';
+
+  constructor(private readonly storeDir: string) {}
+
+  archivePath(key: string): string {
+    return path.join(this.storeDir, `${key}.tar.zst`);
+  }
+
+  private entries(): StoredEntry[] {
+    if (!fs.existsSync(this.storeDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.storeDir)
+      .filter((name) => name.endsWith('.tar.zst'))
+      .map((name) => ({
+        key: name.slice(0, -'.tar.zst'.length),
+        mtimeMs: fs.statSync(path.join(this.storeDir, name)).mtimeMs,
+      }));
+  }
+
+  async save(paths: string[], key: string): Promise<SaveResult> {
+    fs.mkdirSync(this.storeDir, { recursive: true });
+    const archive = this.archivePath(key);
+    await runCommand('tar', ['--use-compress-program=zstd', '-cf', archive, '-C', '/', ...toRootRelative(paths)]);
+    return { id: archive, sizeBytes: fs.statSync(archive).size };
+  }
+
+  async restore(_paths: string[], key: string, restoreKeys?: string[]): Promise<string | undefined> {
+    const matched = matchRestoreKey(this.entries(), key, restoreKeys);
+    if (matched === undefined) {
+      return undefined;
+    }
+    await runCommand('tar', ['--use-compress-program=zstd', '-xf', this.archivePath(matched), '-C', '/']);
+    return matched;
+  }
+
+  async saveStream(tar: Readable, key: string): Promise<SaveResult> {
+    fs.mkdirSync(this.storeDir, { recursive: true });
+    const archive = this.archivePath(key);
+    await pipeline(zstdCompress(tar), fs.createWriteStream(archive));
+    return { id: archive, sizeBytes: fs.statSync(archive).size };
+  }
+
+  openStream(key: string): Readable | undefined {
+    const archive = this.archivePath(key);
+    return fs.existsSync(archive) ? zstdDecompress(fs.createReadStream(archive)) : undefined;
+  }
+
+  async lookup(_paths: string[], key: string, restoreKeys?: string[]): Promise<boolean> {
+    return matchRestoreKey(this.entries(), key, restoreKeys) !== undefined;
+  }
+}
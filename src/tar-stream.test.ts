@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { Readable } from 'stream';
+import { describe, test } from 'node:test';
+import { generateFileHierarchy } from './generate';
+import { MetadataOp, planMetadata } from './metadata';
+import { DatasetProfile, FULL_METADATA, planDataset } from './profiles';
+import { datasetTarStream, verifyTarStream } from './tar-stream';
+import { makeTempDir, quietLogger, TINY_PROFILE, TINY_SIZE_GB } from './test-helpers';
+import { VerificationReport } from './verify';
+
+const PROFILE: DatasetProfile = { ...TINY_PROFILE, name: 'tiny-metadata', metadata: FULL_METADATA };
+const PLAN = planDataset(PROFILE, TINY_SIZE_GB);
+const HARDLINKS = planMetadata(PLAN, FULL_METADATA).filter(
+  (op): op is Extract<MetadataOp, { kind: 'hardlink' }> => op.kind === 'hardlink'
+);
+
+// Longer than a ustar prefix, so GNU tar needs a long name header for every entry under it
+const LONG_ROOT = `deep_${'x'.repeat(160)}`;
+
+/**
+ * The dataset with its metadata, generated under dir/LONG_ROOT
+ */
+async function generateTree(dir: string): Promise<string> {
+  const filesPath = path.join(dir, LONG_ROOT);
+  await generateFileHierarchy(filesPath, TINY_SIZE_GB, PROFILE, { concurrency: 1, logger: quietLogger });
+  return filesPath;
+}
+
+/**
+ * Archive with GNU tar, members named as given, relative to cwd
+ */
+function gnuTar(cwd: string, format: 'gnu' | 'posix', members: string[]): Readable {
+  const archive = path.join(cwd, `archive-${format}.tar`);
+  execFileSync('tar', ['-cf', archive, `--format=${format}`, '--no-recursion', '-C', cwd, ...members]);
+  return fs.createReadStream(archive);
+}
+
+/**
+ * Every file of the dataset, each followed by its second name when it has one
+ */
+function treeMembers(root: string): string[] {
+  const links = new Map(HARDLINKS.map((op) => [op.target, op.relativePath]));
+  return PLAN.files
+    .flatMap((f) => (links.has(f.relativePath) ? [f.relativePath, links.get(f.relativePath)!] : [f.relativePath]))
+    .map((relPath) => `${root}/${relPath}`);
+}
+
+/**
+ * Offending paths of each category that has any
+ */
+function offenderPaths(report: VerificationReport): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(report.offenders)
+      .filter(([, offenders]) => offenders.length > 0)
+      .map(([category, offenders]) => [category, offenders.map((o) => o.path).sort()])
+  );
+}
+
+describe('verifyTarStream', () => {
+  test('verifies the archive datasetTarStream makes, plain and compressed', async () => {
+    const plan = planDataset(TINY_PROFILE, TINY_SIZE_GB);
+    for (const compress of [false, true]) {
+      const report = await verifyTarStream(datasetTarStream(plan, { root: 'some/root', compress }), plan, {
+        root: 'some/root',
+        decompress: compress,
+      });
+      assert.equal(report.ok, true, `compress: ${compress}`);
+      assert.equal(report.filesVerified, plan.files.length);
+      assert.equal(report.bytesVerified, plan.totalBytes);
+    }
+  });
+
+  test('reports files the archive is missing, has in excess or holds wrongly', async () => {
+    const plan = planDataset(TINY_PROFILE, TINY_SIZE_GB);
+    const dir = makeTempDir();
+    const filesPath = path.join(dir, 'files');
+    await generateFileHierarchy(filesPath, TINY_SIZE_GB, TINY_PROFILE, { concurrency: 1, logger: quietLogger });
+    const [missing, truncated, corrupted] = plan.files.filter((f) => f.size > 1).map((f) => f.relativePath);
+    fs.rmSync(path.join(filesPath, missing));
+    fs.truncateSync(path.join(filesPath, truncated), 1);
+    const handle = fs.openSync(path.join(filesPath, corrupted), 'r+');
+    fs.writeSync(handle, Buffer.from([~fs.readFileSync(path.join(filesPath, corrupted))[0] & 0xff]), 0, 1, 0);
+    fs.closeSync(handle);
+    fs.writeFileSync(path.join(filesPath, 'extra.bin'), 'not generated');
+
+    execFileSync('tar', ['-cf', path.join(dir, 'files.tar'), '-C', dir, 'files']);
+    const report = await verifyTarStream(fs.createReadStream(path.join(dir, 'files.tar')), plan, { root: 'files' });
+    assert.equal(report.ok, false);
+    assert.deepEqual(offenderPaths(report), {
+      missing: [missing],
+      truncated: [truncated],
+      corrupted: [corrupted],
+      extra: ['extra.bin'],
+    });
+    assert.equal(report.filesVerified, plan.files.length - 3);
+  });
+
+  test('reads GNU long names and pax paths', async () => {
+    const dir = makeTempDir();
+    await generateTree(dir);
+    for (const format of ['gnu', 'posix'] as const) {
+      const report = await verifyTarStream(gnuTar(dir, format, treeMembers(LONG_ROOT)), PLAN, { root: LONG_ROOT });
+      assert.deepEqual(offenderPaths(report), {}, format);
+      assert.equal(report.filesVerified, PLAN.files.length);
+    }
+  });
+
+  test('verifies a file stored as a hard link to its second name', async () => {
+    assert.ok(HARDLINKS.length > 0);
+    const dir = makeTempDir();
+    await generateTree(dir);
+    // Second names first, so tar stores their content there and the files as links to them
+    const members = [
+      ...HARDLINKS.map((op) => `${LONG_ROOT}/${op.relativePath}`),
+      ...PLAN.files.map((f) => `${LONG_ROOT}/${f.relativePath}`),
+    ];
+    for (const format of ['gnu', 'posix'] as const) {
+      const report = await verifyTarStream(gnuTar(dir, format, members), PLAN, { root: LONG_ROOT });
+      assert.deepEqual(offenderPaths(report), {}, format);
+      assert.equal(report.filesVerified, PLAN.files.length);
+      assert.equal(report.bytesVerified, PLAN.totalBytes);
+    }
+  });
+
+  test('checks the content a hard link points at', async () => {
+    const dir = makeTempDir();
+    const filesPath = await generateTree(dir);
+    const [damaged, relinked] = HARDLINKS;
+    assert.ok(relinked, 'the plan needs two hard links');
+    // Both names share the inode, so the second name carries the damage too
+    fs.truncateSync(path.join(filesPath, damaged.target), 0);
+    // Point a file at another file's content
+    const other = PLAN.files.find(
+      (f) => f.size > 0 && f.relativePath !== relinked.target && f.relativePath !== damaged.target
+    )!;
+    fs.rmSync(path.join(filesPath, relinked.target));
+    fs.linkSync(path.join(filesPath, other.relativePath), path.join(filesPath, relinked.target));
+
+    const members = [
+      `${LONG_ROOT}/${damaged.relativePath}`,
+      `${LONG_ROOT}/${other.relativePath}`,
+      ...PLAN.files.filter((f) => f !== other).map((f) => `${LONG_ROOT}/${f.relativePath}`),
+    ];
+    const report = await verifyTarStream(gnuTar(dir, 'gnu', members), PLAN, { root: LONG_ROOT });
+    assert.deepEqual(offenderPaths(report), { truncated: [damaged.target], corrupted: [relinked.target] });
+    assert.match(report.offenders.corrupted[0].detail, /does not hold this file/);
+  });
+});
@@ -0,0 +1,428 @@
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { FileContentStream, WRITE_CHUNK_SIZE } from './content';
+import { MANIFEST_FILE } from './manifest';
+import { planMetadata } from './metadata';
+import { DatasetPlan, FileSpec } from './profiles';
+import { emptyVerificationReport, recordOffender, VerificationCategory, VerificationReport } from './verify';
+
+const BLOCK_SIZE = 512;
+// GNU tar pads archives to whole records of 20 blocks
+const RECORD_SIZE = 20 * BLOCK_SIZE;
+// Every entry gets this modification time, so the same plan always gives the same archive
+export const ENTRY_MTIME_SECONDS = Date.UTC(2020, 0, 1) / 1000;
+
+export interface DatasetTarOptions {
+  // Directory the entries are stored under, e.g. the files path relative to / as the tar backend stores it
+  root?: string;
+  // Pipe the archive through zstd, like the tar backend
+  compress?: boolean;
+}
+
+export interface TarVerifyOptions {
+  // Directory the entries are expected under, as passed to datasetTarStream
+  root?: string;
+  // The input is zstd-compressed
+  decompress?: boolean;
+  maxOffenders?: number;
+}
+
+function paddingFor(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+/**
+ * Write a number as a NUL-terminated octal field, or in the GNU base-256
+ * form when it has too many digits (entries of 8GB and more)
+ */
+function writeNumber(header: Buffer, value: number, offset: number, length: number): void {
+  const digits = length - 1;
+  if (value < 8 ** digits) {
+    header.write(value.toString(8).padStart(digits, '0'), offset, digits, 'ascii');
+    header[offset + digits] = 0;
+    return;
+  }
+  let remaining = BigInt(value);
+  for (let i = length - 1; i > 0; i--) {
+    header[offset + i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  header[offset] = 0x80;
+}
+
+function readNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = 0n;
+    for (let i = 1; i < length; i++) {
+      value = (value << 8n) | BigInt(header[offset + i]);
+    }
+    return Number(value);
+  }
+  const text = readString(header, offset, length).trim();
+  return text === '' ? 0 : parseInt(text, 8);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+/**
+ * Split a path into the ustar name (100 bytes) and prefix (155 bytes) fields
+ */
+function splitPath(entryPath: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(entryPath) <= 100) {
+    return { name: entryPath, prefix: '' };
+  }
+  for (let i = entryPath.lastIndexOf('/'); i > 0; i = entryPath.lastIndexOf('/', i - 1)) {
+    const prefix = entryPath.slice(0, i);
+    const name = entryPath.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { name, prefix };
+    }
+  }
+  throw new Error(`Path is too long for a ustar header: ${entryPath}`);
+}
+
+function tarHeader(entryPath: string, type: 'file' | 'directory', size: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { name, prefix } = splitPath(type === 'directory' ? `${entryPath}/` : entryPath);
+  header.write(name, 0, 100, 'utf8');
+  writeNumber(header, type === 'directory' ? 0o755 : 0o644, 100, 8);
+  writeNumber(header, 0, 108, 8);
+  writeNumber(header, 0, 116, 8);
+  writeNumber(header, size, 124, 12);
+  writeNumber(header, ENTRY_MTIME_SECONDS, 136, 12);
+  header[156] = type === 'directory' ? 0x35 : 0x30;
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  // The checksum is computed with its own field set to spaces
+  header.fill(0x20, 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return header;
+}
+
+/**
+ * Every directory of the plan, parents before children
+ */
+export function allDirectories(plan: DatasetPlan): string[] {
+  const dirs = new Set<string>();
+  const add = (dir: string): void => {
+    if (dir === '.' || dir === '' || dirs.has(dir)) return;
+    add(path.dirname(dir));
+    dirs.add(dir);
+  };
+  for (const dir of plan.directories) add(dir);
+  for (const file of plan.files) add(path.dirname(file.relativePath));
+  return [...dirs];
+}
+
+async function* tarBlocks(plan: DatasetPlan, root: string): AsyncGenerator<Buffer> {
+  const entryPath = (relPath: string): string => (root ? path.posix.join(root, relPath) : relPath);
+  let written = 0;
+
+  for (const dir of allDirectories(plan)) {
+    written += BLOCK_SIZE;
+    yield tarHeader(entryPath(dir), 'directory', 0);
+  }
+  for (const file of plan.files) {
+    yield tarHeader(entryPath(file.relativePath), 'file', file.size);
+    const stream = new FileContentStream(file, plan.profile.content);
+    for (let offset = 0; offset < file.size; offset += WRITE_CHUNK_SIZE) {
+      // A fresh buffer per chunk, since consumers may hold on to it
+      const chunk = Buffer.allocUnsafe(Math.min(WRITE_CHUNK_SIZE, file.size - offset));
+      stream.read(chunk);
+      yield chunk;
+    }
+    const padding = paddingFor(file.size);
+    if (padding > 0) {
+      yield Buffer.alloc(padding);
+    }
+    written += BLOCK_SIZE + file.size + padding;
+  }
+
+  // Two zero blocks end the archive; the rest fills the last record
+  const end = 2 * BLOCK_SIZE;
+  yield Buffer.alloc(end + ((RECORD_SIZE - ((written + end) % RECORD_SIZE)) % RECORD_SIZE));
+}
+
+/**
+ * Pipe a stream through a command's stdin and stdout
+ */
+function throughCommand(command: string, args: string[], input: Readable): Readable {
+  const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'inherit'] });
+  const output = child.stdout;
+  child.on('error', (error: NodeJS.ErrnoException) => {
+    output.destroy(error.code === 'ENOENT' ? new Error(`${command} is not installed`) : error);
+  });
+  child.on('close', (code) => {
+    if (code !== 0 && code !== null) {
+      output.destroy(new Error(`${command} exited with code ${code}`));
+    }
+  });
+  // The consumer stopping early closes stdin; the error surfaces through the exit code instead
+  child.stdin.on('error', () => undefined);
+  input.on('error', (error) => output.destroy(error));
+  input.pipe(child.stdin);
+  return output;
+}
+
+export function zstdCompress(input: Readable): Readable {
+  return throughCommand('zstd', ['-c', '-T0', '-q'], input);
+}
+
+export function zstdDecompress(input: Readable): Readable {
+  return throughCommand('zstd', ['-d', '-c', '-q'], input);
+}
+
+/**
+ * A tar archive of a planned dataset, produced straight from the seeds
+ * without touching the filesystem. Holds regular files and directories only;
+ * metadata from the profile is left out.
+ */
+export function datasetTarStream(plan: DatasetPlan, options: DatasetTarOptions = {}): Readable {
+  const tar = Readable.from(tarBlocks(plan, options.root ?? ''), { objectMode: false });
+  return options.compress ? zstdCompress(tar) : tar;
+}
+
+/**
+ * Reads exact byte counts from a stream of arbitrarily sized chunks
+ */
+class ChunkReader {
+  private readonly chunks: Buffer[] = [];
+  private buffered = 0;
+  private done = false;
+
+  constructor(private readonly source: AsyncIterator<Buffer>) {}
+
+  /**
+   * Up to `size` bytes; fewer only at the end of the stream
+   */
+  async read(size: number): Promise<Buffer> {
+    while (this.buffered < size && !this.done) {
+      const next = await this.source.next();
+      if (next.done) {
+        this.done = true;
+      } else {
+        this.chunks.push(next.value);
+        this.buffered += next.value.length;
+      }
+    }
+    const wanted = Math.min(size, this.buffered);
+    if (wanted === 0) {
+      return Buffer.alloc(0);
+    }
+    let result: Buffer;
+    if (this.chunks[0].length >= wanted) {
+      result = this.chunks[0].subarray(0, wanted);
+    } else {
+      result = Buffer.allocUnsafe(wanted);
+      let position = 0;
+      for (const chunk of this.chunks) {
+        position += chunk.copy(result, position, 0, Math.min(chunk.length, wanted - position));
+        if (position === wanted) break;
+      }
+    }
+    this.consume(wanted);
+    return result;
+  }
+
+  async skip(size: number): Promise<void> {
+    for (let left = size; left > 0; ) {
+      const chunk = await this.read(Math.min(left, WRITE_CHUNK_SIZE));
+      if (chunk.length === 0) return;
+      left -= chunk.length;
+    }
+  }
+
+  private consume(size: number): void {
+    let left = size;
+    while (left > 0) {
+      const first = this.chunks[0];
+      if (first.length <= left) {
+        this.chunks.shift();
+        left -= first.length;
+      } else {
+        this.chunks[0] = first.subarray(left);
+        left = 0;
+      }
+    }
+    this.buffered -= size;
+  }
+}
+
+/**
+ * Compare an entry's content with the file it should hold, consuming all of it
+ */
+async function checkEntry(
+  reader: ChunkReader,
+  spec: FileSpec,
+  size: number,
+  plan: DatasetPlan
+): Promise<{ category: VerificationCategory; detail: string } | undefined> {
+  const stream = new FileContentStream(spec, plan.profile.content);
+  const expected = Buffer.allocUnsafe(WRITE_CHUNK_SIZE);
+  const comparable = Math.min(size, spec.size);
+  let problem: { category: VerificationCategory; detail: string } | undefined;
+
+  let offset = 0;
+  while (offset < comparable) {
+    const chunk = await reader.read(Math.min(WRITE_CHUNK_SIZE, comparable - offset));
+    if (chunk.length === 0) {
+      return { category: 'truncated', detail: `archive ended at byte ${offset}` };
+    }
+    const expectedChunk = expected.subarray(0, chunk.length);
+    stream.read(expectedChunk);
+    if (!problem && !chunk.equals(expectedChunk)) {
+      let i = 0;
+      while (chunk[i] === expectedChunk[i]) i++;
+      problem = { category: 'corrupted', detail: `content differs at byte ${offset + i}` };
+    }
+    offset += chunk.length;
+  }
+  await reader.skip(size - comparable + paddingFor(size));
+
+  if (problem) return problem;
+  if (size < spec.size) return { category: 'truncated', detail: `expected ${spec.size} bytes, got ${size}` };
+  if (size > spec.size) return { category: 'corrupted', detail: `expected ${spec.size} bytes, got ${size}` };
+  return undefined;
+}
+
+/**
+ * Value of the first `key=` record in a pax extended header
+ */
+function paxValue(data: Buffer, key: string): string | undefined {
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = /^\d+ ([^=]+)=(.*)$/.exec(record);
+    if (match && match[1] === key) return match[2];
+  }
+  return undefined;
+}
+
+/**
+ * Check a tar stream against a planned dataset as it arrives, without
+ * extracting it. Accepts ustar, GNU long names and pax paths, so archives
+ * made by GNU tar from a generated tree verify too. A file stored as a hard
+ * link verifies when its link holds its content; directories and symlinks
+ * are not checked.
+ */
+export async function verifyTarStream(
+  input: Readable,
+  plan: DatasetPlan,
+  options: TarVerifyOptions = {}
+): Promise<VerificationReport> {
+  const report = emptyVerificationReport(plan.files.length);
+  const record = (category: VerificationCategory, relPath: string, detail: string): void =>
+    recordOffender(report, category, relPath, detail, options.maxOffenders);
+  const expected = new Map(plan.files.map((f) => [f.relativePath, f]));
+  const seen = new Set<string>();
+  const root = (options.root ?? '').replace(/\/+$/, '');
+  // Second names the metadata gives files; tar stores whichever name it meets first with the content
+  const hardlinks = new Map<string, string>();
+  for (const op of plan.profile.metadata ? planMetadata(plan, plan.profile.metadata) : []) {
+    if (op.kind === 'hardlink') hardlinks.set(op.relativePath, op.target);
+  }
+  // Second names stored with the content, checked against the file they belong to
+  const secondNames = new Map<string, { file: string; problem?: { category: VerificationCategory; detail: string } }>();
+  const normalize = (entryPath: string): string => entryPath.replace(/^\.\//, '').replace(/\/+$/, '');
+  // Relative to root; undefined when outside it
+  const relativeToRoot = (entryPath: string): string | undefined => {
+    const normalized = normalize(entryPath);
+    if (!root) return normalized;
+    if (normalized === root || normalized.startsWith(`${root}/`)) return normalized.slice(root.length + 1);
+    return undefined;
+  };
+
+  const source = options.decompress ? zstdDecompress(input) : input;
+  const reader = new ChunkReader(source[Symbol.asyncIterator]());
+  let longPath: string | undefined;
+  let longLinkPath: string | undefined;
+
+  for (;;) {
+    const header = await reader.read(BLOCK_SIZE);
+    if (header.length < BLOCK_SIZE || header.every((byte) => byte === 0)) break;
+
+    const size = readNumber(header, 124, 12);
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    if (type === 'L' || type === 'K' || type === 'x' || type === 'g') {
+      const data = (await reader.read(size)).subarray(0, size);
+      await reader.skip(paddingFor(size));
+      if (type === 'L') longPath = readString(data, 0, data.length);
+      if (type === 'K') longLinkPath = readString(data, 0, data.length);
+      if (type === 'x') {
+        longPath = paxValue(data, 'path') ?? longPath;
+        longLinkPath = paxValue(data, 'linkpath') ?? longLinkPath;
+      }
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const archivedPath = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    const linkPath = longLinkPath ?? readString(header, 157, 100);
+    longPath = undefined;
+    longLinkPath = undefined;
+    const relPath = relativeToRoot(archivedPath);
+    const entryPath = relPath ?? normalize(archivedPath);
+
+    const spec = relPath === undefined ? undefined : expected.get(relPath);
+    if (type === '0' || type === '7') {
+      const linkedFile = spec || relPath === undefined ? undefined : hardlinks.get(relPath);
+      const fileSpec = spec ?? (linkedFile === undefined ? undefined : expected.get(linkedFile));
+      if (!fileSpec) {
+        if (entryPath !== MANIFEST_FILE) {
+          record('extra', entryPath, 'not part of the generated dataset');
+        }
+        await reader.skip(size + paddingFor(size));
+        continue;
+      }
+      const problem = await checkEntry(reader, fileSpec, size, plan);
+      if (linkedFile !== undefined) {
+        // The file's second name; the file itself is checked when it comes as a link to this entry
+        secondNames.set(entryPath, { file: linkedFile, problem });
+        continue;
+      }
+      seen.add(entryPath);
+      if (problem) {
+        record(problem.category, entryPath, problem.detail);
+      } else {
+        report.filesVerified++;
+        report.bytesVerified += fileSpec.size;
+      }
+      continue;
+    }
+
+    if (spec && type === '1') {
+      seen.add(entryPath);
+      const target = relativeToRoot(linkPath);
+      const linked = target === undefined ? undefined : secondNames.get(target);
+      if (linked?.file !== entryPath) {
+        record('corrupted', entryPath, `hard link to ${linkPath}, which does not hold this file`);
+      } else if (linked.problem) {
+        record(linked.problem.category, entryPath, `${linked.problem.detail} (in ${linkPath})`);
+      } else {
+        report.filesVerified++;
+        report.bytesVerified += spec.size;
+      }
+    } else if (spec) {
+      seen.add(entryPath);
+      record('corrupted', entryPath, 'not a regular file');
+    }
+    await reader.skip(size + paddingFor(size));
+  }
+
+  for (const relPath of expected.keys()) {
+    if (!seen.has(relPath)) {
+      record('missing', relPath, 'not in the archive');
+    }
+  }
+  // Drain the record padding and anything after it, so a decompressing process can exit
+  while ((await reader.read(WRITE_CHUNK_SIZE)).length > 0);
+  return report;
+}
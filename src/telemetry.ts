@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { actionsLogger, Logger } from './progress';
+
+export const DEFAULT_SAMPLE_INTERVAL_MS = 250;
+
+// /proc/stat counts in USER_HZ ticks, which is 100 on every Linux platform the runners use
+const TICKS_PER_SECOND = 100;
+const SECTOR_SIZE = 512;
+
+/**
+ * Resources used while one step ran. Process figures cover this process and
+ * its worker threads; system figures cover the whole machine, including the
+ * tar and zstd processes backends spawn.
+ */
+export interface ResourceUsage {
+  durationMs: number;
+  samples: number;
+  // Highest resident set size seen while sampling
+  peakRssBytes: number;
+  processCpuUserMs: number;
+  processCpuSystemMs: number;
+  // Summed over all CPUs
+  cpuUserMs: number;
+  cpuSystemMs: number;
+  iowaitMs: number;
+  // Storage-layer I/O of this process (/proc/self/io read_bytes and write_bytes)
+  processReadBytes: number;
+  processWriteBytes: number;
+  // I/O of the physical disks
+  diskReadBytes: number;
+  diskWriteBytes: number;
+  // Change of the page cache size (Cached in /proc/meminfo); negative when it shrank
+  pageCacheGrowthBytes: number;
+}
+
+interface Counters {
+  timeMs: number;
+  rssBytes: number;
+  processCpu: NodeJS.CpuUsage;
+  cpuUserTicks: number;
+  cpuSystemTicks: number;
+  iowaitTicks: number;
+  processReadBytes: number;
+  processWriteBytes: number;
+  diskReadBytes: number;
+  diskWriteBytes: number;
+  cachedBytes: number;
+}
+
+/**
+ * Parse "Key:   value kB" lines into bytes (or plain numbers when there is no unit)
+ */
+function readKeyValues(file: string): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    const match = /^([^:]+):\s+(\d+)(\s+kB)?/.exec(line);
+    if (match) {
+      values.set(match[1], Number(match[2]) * (match[3] ? 1024 : 1));
+    }
+  }
+  return values;
+}
+
+let physicalDisks: Set<string> | undefined;
+
+/**
+ * Whole physical disks; partitions, loop, device-mapper and RAM devices would count the same I/O twice
+ */
+function listPhysicalDisks(): Set<string> {
+  if (!physicalDisks) {
+    physicalDisks = new Set(
+      fs.existsSync('/sys/block')
+        ? fs.readdirSync('/sys/block').filter((name) => fs.existsSync(path.join('/sys/block', name, 'device')))
+        : []
+    );
+  }
+  return physicalDisks;
+}
+
+function readDiskBytes(): { read: number; written: number } {
+  const disks = listPhysicalDisks();
+  let read = 0;
+  let written = 0;
+  for (const line of fs.readFileSync('/proc/diskstats', 'utf8').split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10 || !disks.has(fields[2])) continue;
+    read += Number(fields[5]) * SECTOR_SIZE;
+    written += Number(fields[9]) * SECTOR_SIZE;
+  }
+  return { read, written };
+}
+
+function readCounters(): Counters {
+  const status = readKeyValues('/proc/self/status');
+  // Not every kernel allows reading /proc/self/io (e.g. some containers)
+  const io = fs.existsSync('/proc/self/io') ? readKeyValues('/proc/self/io') : new Map<string, number>();
+  const cpu = fs.readFileSync('/proc/stat', 'utf8').split('\n')[0].trim().split(/\s+/).slice(1).map(Number);
+  const meminfo = readKeyValues('/proc/meminfo');
+  const disk = readDiskBytes();
+  return {
+    timeMs: Date.now(),
+    rssBytes: status.get('VmRSS') ?? 0,
+    processCpu: process.cpuUsage(),
+    // user + nice, system + irq + softirq
+    cpuUserTicks: cpu[0] + cpu[1],
+    cpuSystemTicks: cpu[2] + (cpu[5] ?? 0) + (cpu[6] ?? 0),
+    iowaitTicks: cpu[4] ?? 0,
+    processReadBytes: io.get('read_bytes') ?? 0,
+    processWriteBytes: io.get('write_bytes') ?? 0,
+    diskReadBytes: disk.read,
+    diskWriteBytes: disk.written,
+    cachedBytes: meminfo.get('Cached') ?? 0,
+  };
+}
+
+/**
+ * Whether /proc is available, i.e. whether sampling can work here
+ */
+export function telemetrySupported(): boolean {
+  return fs.existsSync('/proc/self/status') && fs.existsSync('/proc/stat');
+}
+
+/**
+ * Samples resource counters at a fixed interval between start and stop
+ */
+export class ResourceSampler {
+  private start?: Counters;
+  private peakRssBytes = 0;
+  private samples = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly intervalMs = DEFAULT_SAMPLE_INTERVAL_MS) {}
+
+  begin(): void {
+    this.start = readCounters();
+    this.peakRssBytes = this.start.rssBytes;
+    this.samples = 1;
+    this.timer = setInterval(() => this.sample(), this.intervalMs);
+    // Sampling alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  private sample(): void {
+    const rssBytes = readKeyValues('/proc/self/status').get('VmRSS') ?? 0;
+    this.peakRssBytes = Math.max(this.peakRssBytes, rssBytes);
+    this.samples++;
+  }
+
+  end(): ResourceUsage {
+    clearInterval(this.timer);
+    const start = this.start!;
+    const end = readCounters();
+    const ticksToMs = (ticks: number): number => (ticks * 1000) / TICKS_PER_SECOND;
+    return {
+      durationMs: end.timeMs - start.timeMs,
+      samples: this.samples + 1,
+      peakRssBytes: Math.max(this.peakRssBytes, end.rssBytes),
+      processCpuUserMs: (end.processCpu.user - start.processCpu.user) / 1000,
+      processCpuSystemMs: (end.processCpu.system - start.processCpu.system) / 1000,
+      cpuUserMs: ticksToMs(end.cpuUserTicks - start.cpuUserTicks),
+      cpuSystemMs: ticksToMs(end.cpuSystemTicks - start.cpuSystemTicks),
+      iowaitMs: ticksToMs(end.iowaitTicks - start.iowaitTicks),
+      processReadBytes: end.processReadBytes - start.processReadBytes,
+      processWriteBytes: end.processWriteBytes - start.processWriteBytes,
+      diskReadBytes: end.diskReadBytes - start.diskReadBytes,
+      diskWriteBytes: end.diskWriteBytes - start.diskWriteBytes,
+      pageCacheGrowthBytes: end.cachedBytes - start.cachedBytes,
+    };
+  }
+}
+
+/**
+ * Resource usage per named step. Does nothing when /proc is unavailable or
+ * the interval is 0, so callers can always use it.
+ */
+export class StepTelemetry {
+  readonly steps: Record<string, ResourceUsage> = {};
+  private readonly enabled: boolean;
+
+  constructor(private readonly intervalMs = DEFAULT_SAMPLE_INTERVAL_MS) {
+    this.enabled = intervalMs > 0 && telemetrySupported();
+  }
+
+  /**
+   * Start sampling a step; call the returned function when it ends
+   */
+  begin(step: string): () => void {
+    if (!this.enabled) {
+      return () => undefined;
+    }
+    const sampler = new ResourceSampler(this.intervalMs);
+    sampler.begin();
+    return () => {
+      this.steps[step] = sampler.end();
+    };
+  }
+
+  /**
+   * The recorded steps, or undefined when nothing was sampled
+   */
+  result(): Record<string, ResourceUsage> | undefined {
+    return Object.keys(this.steps).length > 0 ? this.steps : undefined;
+  }
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * One-line summary, e.g. "peak RSS 120.3 MB, CPU 850/320ms (process 400/100ms), iowait 50ms, ..."
+ */
+export function formatResourceUsage(usage: ResourceUsage): string {
+  return (
+    `peak RSS ${formatMb(usage.peakRssBytes)}, ` +
+    `CPU user/sys ${usage.cpuUserMs.toFixed(0)}/${usage.cpuSystemMs.toFixed(0)}ms ` +
+    `(process ${usage.processCpuUserMs.toFixed(0)}/${usage.processCpuSystemMs.toFixed(0)}ms), ` +
+    `iowait ${usage.iowaitMs.toFixed(0)}ms, ` +
+    `disk read/write ${formatMb(usage.diskReadBytes)}/${formatMb(usage.diskWriteBytes)}, ` +
+    `page cache ${usage.pageCacheGrowthBytes >= 0 ? '+' : ''}${formatMb(usage.pageCacheGrowthBytes)}`
+  );
+}
+
+export function logResourceUsage(
+  steps: Record<string, ResourceUsage> | undefined,
+  logger: Logger = actionsLogger
+): void {
+  if (!steps) return;
+  logger.info('--- Resources per step ---');
+  for (const [step, usage] of Object.entries(steps)) {
+    logger.info(`${`${step}:`.padEnd(20)}${formatResourceUsage(usage)}`);
+  }
+}
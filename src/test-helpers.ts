@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after } from 'node:test';
+import { CacheBackend } from './backend';
+import { DirectoryCopyBackend } from './directory-backend';
+import { PipelineConfig } from './pipeline';
+import { DatasetProfile } from './profiles';
+import { Logger } from './progress';
+
+/**
+ * Swallows everything, so test output only shows the test runner's report
+ */
+export const quietLogger: Logger = {
+  info: () => undefined,
+  warning: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  startGroup: () => undefined,
+  endGroup: () => undefined,
+};
+
+/**
+ * A fresh directory under the system temp dir, removed when the test file finishes
+ */
+export function makeTempDir(prefix = 'cache-benchmark-'): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+export function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash of every regular file under dir: sorted relative paths with the sha256 of their content
+ */
+export function hashTree(dir: string): string {
+  const entries: string[] = [];
+  const walk = (relDir: string): void => {
+    for (const dirent of fs.readdirSync(path.join(dir, relDir), { withFileTypes: true })) {
+      const relPath = path.posix.join(relDir, dirent.name);
+      if (dirent.isDirectory()) {
+        walk(relPath);
+      } else if (dirent.isFile()) {
+        entries.push(`${relPath}\0${sha256(fs.readFileSync(path.join(dir, relPath)))}\n`);
+      }
+    }
+  };
+  walk('');
+  return sha256(Buffer.from(entries.sort().join('')));
+}
+
+/**
+ * Two levels of 3 × 4 directories with 10 files of up to 16K each: small
+ * enough for a whole pipeline run in well under a second, and with more than
+ * one worker batch
+ */
+export const TINY_PROFILE: DatasetProfile = {
+  name: 'tiny',
+  levels: [
+    { prefix: 'dir_', fanOut: 0 },
+    { prefix: 'sub_', fanOut: 4 },
+  ],
+  filesPerLeaf: 10,
+  fileSize: { kind: 'uniform', minBytes: 0, maxBytes: 16 * 1024 },
+};
+// Three top-level directories of TINY_PROFILE
+export const TINY_SIZE_GB = (3 * 40 * 8 * 1024) / 1024 ** 3;
+
+/**
+ * A quiet, single-threaded pipeline config for the tiny dataset, with its
+ * files and a directory backend's store in a fresh temp dir
+ */
+export function tinyPipelineConfig(
+  cacheKey: string,
+  profile: DatasetProfile = TINY_PROFILE,
+  backend: (storeDir: string) => CacheBackend = (storeDir) => new DirectoryCopyBackend(storeDir)
+): PipelineConfig {
+  const root = makeTempDir();
+  return {
+    backend: backend(path.join(root, 'store')),
+    filesPath: path.join(root, 'files'),
+    cacheKey,
+    sizeGb: TINY_SIZE_GB,
+    profile,
+    generateConcurrency: 1,
+    verifyConcurrency: 1,
+    label: 'TEST',
+    sampleIntervalMs: 0,
+    logger: quietLogger,
+  };
+}
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { defaultConcurrency, formatWorkerStats, runFileTasks } from './file-workers';
+import { MANIFEST_FILE } from './manifest';
+import { metadataPaths, planMetadata } from './metadata';
+import { ChangeRates, DEFAULT_CHANGE_RATES, planGeneration } from './mutation';
+import { DatasetProfile, DEFAULT_PROFILE, planDataset } from './profiles';
+import {
+  actionsLogger,
+  fileEventForwarder,
+  FileTaskListener,
+  FileTaskOptions,
+  Logger,
+  ProgressTracker,
+} from './progress';
+
+const DEFAULT_MAX_OFFENDERS = 20;
+
+export type VerificationCategory = 'corrupted' | 'truncated' | 'missing' | 'extra';
+
+/**
+ * A single file that failed verification
+ */
+export interface VerificationOffender {
+  path: string;
+  detail: string;
+}
+
+/**
+ * Result of checking a restored tree against the dataset it was generated from
+ */
+export interface VerificationReport {
+  ok: boolean;
+  filesExpected: number;
+  filesVerified: number;
+  bytesVerified: number;
+  counts: Record<VerificationCategory, number>;
+  // First offenders per category, capped at maxOffenders
+  offenders: Record<VerificationCategory, VerificationOffender[]>;
+}
+
+export interface VerifyOptions extends FileTaskOptions {
+  maxOffenders?: number;
+  // Expect the dataset after this many rounds of changes (0 = as generated)
+  generation?: number;
+  changeRates?: ChangeRates;
+  // Log the report as errors when it fails (default true); off when differences are expected
+  logReport?: boolean;
+  // Only check these directories (relative to baseDir), e.g. one shard of a sharded cache
+  include?: string[];
+}
+
+/**
+ * A passing report with nothing verified yet
+ */
+export function emptyVerificationReport(filesExpected = 0): VerificationReport {
+  return {
+    ok: true,
+    filesExpected,
+    filesVerified: 0,
+    bytesVerified: 0,
+    counts: { corrupted: 0, truncated: 0, missing: 0, extra: 0 },
+    offenders: { corrupted: [], truncated: [], missing: [], extra: [] },
+  };
+}
+
+/**
+ * Count a problem in a report and list it while the category has room
+ */
+export function recordOffender(
+  report: VerificationReport,
+  category: VerificationCategory,
+  relPath: string,
+  detail: string,
+  maxOffenders = DEFAULT_MAX_OFFENDERS
+): void {
+  report.ok = false;
+  report.counts[category]++;
+  if (report.offenders[category].length < maxOffenders) {
+    report.offenders[category].push({ path: relPath, detail });
+  }
+}
+
+function isIncluded(relPath: string, include: string[] | undefined): boolean {
+  return !include || include.some((dir) => relPath === dir || relPath.startsWith(dir + path.sep));
+}
+
+/**
+ * List every non-directory entry under baseDir/relRoot as a path relative to baseDir
+ */
+async function listEntries(baseDir: string, relRoot = ''): Promise<string[]> {
+  const entries: string[] = [];
+  const walk = async (relDir: string): Promise<void> => {
+    let dirents: fs.Dirent[];
+    try {
+      dirents = await fs.promises.readdir(path.join(baseDir, relDir), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    for (const dirent of dirents) {
+      const relPath = path.join(relDir, dirent.name);
+      if (dirent.isDirectory()) {
+        await walk(relPath);
+      } else {
+        entries.push(relPath);
+      }
+    }
+  };
+  await walk(relRoot);
+  return entries;
+}
+
+/**
+ * Verify every byte of the file hierarchy against the dataset it was generated from.
+ * Walks the whole tree instead of stopping at the first problem.
+ */
+export async function verifyFileHierarchy(
+  baseDir: string,
+  sizeGb: number,
+  profile: DatasetProfile = DEFAULT_PROFILE,
+  options: VerifyOptions = {}
+): Promise<VerificationReport> {
+  const concurrency = options.concurrency || defaultConcurrency();
+  const maxOffenders = options.maxOffenders ?? DEFAULT_MAX_OFFENDERS;
+  const generation = options.generation ?? 0;
+  const logger = options.logger ?? actionsLogger;
+  const listener: FileTaskListener = options.listener ?? { onEvent: () => undefined };
+  logger.info(
+    `Verifying file hierarchy at ${baseDir} (profile: ${profile.name}, generation: ${generation}, concurrency: ${concurrency})`
+  );
+
+  const fullPlan = planGeneration(profile, sizeGb, generation, options.changeRates ?? DEFAULT_CHANGE_RATES);
+  const plan = { ...fullPlan, files: fullPlan.files.filter((f) => isIncluded(f.relativePath, options.include)) };
+  const report = emptyVerificationReport(plan.files.length);
+  const record = (category: VerificationCategory, relPath: string, detail: string): void => {
+    recordOffender(report, category, relPath, detail, maxOffenders);
+    listener.onEvent({ type: 'verification-failure', category, path: relPath, detail });
+  };
+
+  const startTime = Date.now();
+  const bytesExpected = plan.files.reduce((sum, f) => sum + f.size, 0);
+  const progress = new ProgressTracker('verify', plan.files.length, bytesExpected);
+  const workers = await runFileTasks(
+    'verify',
+    baseDir,
+    plan.files,
+    profile.content,
+    concurrency,
+    (batch, problems) => {
+      batch.forEach((spec, i) => {
+        const problem = problems[i];
+        if (problem) {
+          record(problem.category, spec.relativePath, problem.detail);
+        } else {
+          report.filesVerified++;
+          report.bytesVerified += spec.size;
+        }
+      });
+      const bytes = batch.reduce((sum, f) => sum + f.size, 0);
+      listener.onEvent({ type: 'progress', ...progress.add(batch.length, bytes) });
+    },
+    { signal: options.signal, onFile: fileEventForwarder(listener, 'verify') }
+  );
+  for (const line of formatWorkerStats(workers, Date.now() - startTime)) {
+    logger.info(line);
+  }
+
+  options.signal?.throwIfAborted();
+  const expectedPaths = new Set(plan.files.map((f) => f.relativePath));
+  // Written by save-only runs so the restoring job knows what to expect
+  expectedPaths.add(MANIFEST_FILE);
+  // Links added as metadata are checked by snapshot diffs, not here
+  if (profile.metadata) {
+    for (const relPath of metadataPaths(planMetadata(planDataset(profile, sizeGb), profile.metadata))) {
+      expectedPaths.add(relPath);
+    }
+  }
+  const entries = options.include
+    ? (await Promise.all(options.include.map((dir) => listEntries(baseDir, dir)))).flat()
+    : await listEntries(baseDir);
+  for (const relPath of entries) {
+    if (!expectedPaths.has(relPath)) {
+      record('extra', relPath, 'not part of the generated dataset');
+    }
+  }
+
+  if (options.logReport ?? true) {
+    logVerificationReport(report, logger);
+  }
+  return report;
+}
+
+/**
+ * Combine the reports of verifying separate parts of a tree, keeping at most
+ * maxOffenders per category
+ */
+export function mergeVerificationReports(
+  reports: VerificationReport[],
+  maxOffenders = DEFAULT_MAX_OFFENDERS
+): VerificationReport {
+  const merged = emptyVerificationReport();
+  for (const report of reports) {
+    merged.ok &&= report.ok;
+    merged.filesExpected += report.filesExpected;
+    merged.filesVerified += report.filesVerified;
+    merged.bytesVerified += report.bytesVerified;
+    for (const category of Object.keys(report.counts) as VerificationCategory[]) {
+      merged.counts[category] += report.counts[category];
+      merged.offenders[category].push(
+        ...report.offenders[category].slice(0, maxOffenders - merged.offenders[category].length)
+      );
+    }
+  }
+  return merged;
+}
+
+/**
+ * Log a verification report, one error line per listed offender
+ */
+export function logVerificationReport(report: VerificationReport, logger: Logger = actionsLogger): void {
+  const totalSizeGB = report.bytesVerified / (1024 * 1024 * 1024);
+  if (report.ok) {
+    logger.info(`Verification passed: ${report.filesVerified} files, ${totalSizeGB.toFixed(2)} GB`);
+    return;
+  }
+
+  logger.error(`Verification failed: ${summarizeVerificationReport(report)}`);
+  for (const category of Object.keys(report.offenders) as VerificationCategory[]) {
+    for (const offender of report.offenders[category]) {
+      logger.error(`  [${category}] ${offender.path}: ${offender.detail}`);
+    }
+    const hidden = report.counts[category] - report.offenders[category].length;
+    if (hidden > 0) {
+      logger.error(`  [${category}] ... and ${hidden} more`);
+    }
+  }
+}
+
+/**
+ * One-line summary of the failure counts in a report
+ */
+export function summarizeVerificationReport(report: VerificationReport): string {
+  const { corrupted, truncated, missing, extra } = report.counts;
+  return `${report.filesVerified}/${report.filesExpected} files intact, ${corrupted} corrupted, ${truncated} truncated, ${missing} missing, ${extra} extra`;
+}
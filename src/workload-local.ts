@@ -0,0 +1,111 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import * as core from '@actions/core';
+import { buildWorkloadResult, StepResult, writeResultDocument } from './results';
+import { exportWorkloadResults, formatWorkloadResult, listFiles, parseWorkloads, runWorkload, WorkloadResult } from './workload';
+
+const USAGE = `Usage: workload-local.ts <dir> [options]
+
+  --workloads <list>     Comma-separated workloads to run in order
+                         (first-byte, sample, hydrate-seq, hydrate-parallel, partial);
+                         append @name to set the output name, e.g. hydrate-seq@hydrate_cold
+                         (default: first-byte,sample,hydrate-seq)
+  --prefix <prefix>      Prefix for step output names (default: none)
+  --sample <n>           Files read by the sample workload (default: 10)
+  --concurrency <k>      Files read at once by hydrate-parallel and partial (default: 8)
+  --partial-kb <x>       KB read from the start of each file by partial (default: 64)
+  --seed <n>             Seed for picking sample files (default: random)
+  --result-file <file>   Write a JSON result document
+  --name <name>          Name the run is reported under (default: the prefix without its trailing _)
+  --mode <mode>          What was mounted, recorded in the result document (default: mount)
+  --size-gb <n>          Dataset size, recorded in the result document
+  --step <name=ms>       Extra timing measured outside the runner, e.g. mount=1234 (repeatable)`;
+
+function readInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      workloads: { type: 'string', default: 'first-byte,sample,hydrate-seq' },
+      prefix: { type: 'string', default: '' },
+      sample: { type: 'string' },
+      concurrency: { type: 'string' },
+      'partial-kb': { type: 'string' },
+      seed: { type: 'string' },
+      'result-file': { type: 'string' },
+      name: { type: 'string' },
+      mode: { type: 'string', default: 'mount' },
+      'size-gb': { type: 'string' },
+      step: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const dir = path.resolve(process.cwd(), positionals[0]);
+  const partialKb = readInt(values['partial-kb'], 'partial-kb');
+  const workloads = parseWorkloads(values.workloads ?? '', {
+    sampleSize: readInt(values.sample, 'sample'),
+    concurrency: readInt(values.concurrency, 'concurrency'),
+    partialBytes: partialKb !== undefined ? partialKb * 1024 : undefined,
+    seed: readInt(values.seed, 'seed'),
+  });
+
+  console.log(`Running ${workloads.length} read workloads against ${dir}`);
+
+  // Listed on first use, so a leading first-byte workload sees a cold tree
+  let files: string[] | undefined;
+  const results: WorkloadResult[] = [];
+  for (const spec of workloads) {
+    if (!files && spec.kind !== 'first-byte') {
+      const start = Date.now();
+      files = await listFiles(dir);
+      const enumerateMs = Date.now() - start;
+      console.log(`Enumerated ${files.length} files in ${enumerateMs}ms`);
+      core.setOutput(`${values.prefix}enumerate_time`, enumerateMs);
+    }
+    const result = await runWorkload(dir, files ?? [], spec);
+    console.log(formatWorkloadResult(result));
+    results.push(result);
+  }
+
+  exportWorkloadResults(results, values.prefix);
+
+  if (values['result-file']) {
+    const extraSteps: StepResult[] = (values.step ?? []).map((spec) => {
+      const [name, ms] = spec.split('=');
+      if (!name || !Number.isFinite(Number(ms))) {
+        throw new Error(`--step must look like name=ms, got "${spec}"`);
+      }
+      return { name, ms: Number(ms) };
+    });
+    const doc = buildWorkloadResult(
+      values.name || (values.prefix ?? '').replace(/_$/, '') || 'workload',
+      {
+        mode: values.mode ?? 'mount',
+        sizeGb: values['size-gb'] !== undefined ? Number(values['size-gb']) : undefined,
+        paths: { target: dir },
+      },
+      results,
+      extraSteps
+    );
+    writeResultDocument(values['result-file'], doc);
+    console.log(`Result document written to ${values['result-file']}`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as core from '@actions/core';
+import { SeededRandom } from './seeded-random';
+import { SampleStats, summarize } from './stats';
+
+const READ_BUFFER_SIZE = 1024 * 1024;
+
+export const WORKLOAD_KINDS = ['first-byte', 'sample', 'hydrate-seq', 'hydrate-parallel', 'partial'] as const;
+export type WorkloadKind = (typeof WORKLOAD_KINDS)[number];
+
+// Output names used when a workload has no explicit label
+const DEFAULT_LABELS: Record<WorkloadKind, string> = {
+  'first-byte': 'first_byte',
+  sample: 'sample_time',
+  'hydrate-seq': 'hydrate',
+  'hydrate-parallel': 'hydrate_parallel',
+  partial: 'partial',
+};
+
+/**
+ * One read workload to run against a directory
+ */
+export interface WorkloadSpec {
+  kind: WorkloadKind;
+  // Name the results are exported under; defaults per kind
+  label?: string;
+  // sample: number of random files to read
+  sampleSize?: number;
+  // hydrate-parallel and partial: files read at once
+  concurrency?: number;
+  // partial: bytes read from the start of each file
+  partialBytes?: number;
+  // sample: seed for picking files, so runs can be repeated
+  seed?: number;
+}
+
+export interface WorkloadResult {
+  kind: WorkloadKind;
+  label: string;
+  files: number;
+  bytes: number;
+  totalMs: number;
+  mbPerSec: number;
+  // Per-file read latency in milliseconds
+  latency: SampleStats;
+}
+
+function elapsedMs(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+/**
+ * List every regular file under dir, in directory order
+ */
+export async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (current: string): Promise<void> => {
+    const dirents = await fs.promises.readdir(current, { withFileTypes: true });
+    for (const dirent of dirents) {
+      const full = path.join(current, dirent.name);
+      if (dirent.isDirectory()) {
+        await walk(full);
+      } else if (dirent.isFile()) {
+        files.push(full);
+      }
+    }
+  };
+  await walk(dir);
+  return files;
+}
+
+/**
+ * Find the first regular file under dir without listing the whole tree
+ */
+async function findFirstFile(dir: string): Promise<string | undefined> {
+  const dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+  for (const dirent of dirents) {
+    const full = path.join(dir, dirent.name);
+    if (dirent.isFile()) {
+      return full;
+    }
+    if (dirent.isDirectory()) {
+      const found = await findFirstFile(full);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read up to maxBytes of a file (all of it by default), discarding the data
+ */
+async function readFile(filePath: string, buffer: Buffer, maxBytes = Infinity): Promise<number> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    let total = 0;
+    while (total < maxBytes) {
+      const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, maxBytes - total), total);
+      if (bytesRead === 0) break;
+      total += bytesRead;
+    }
+    return total;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read files with a fixed number in flight, recording per-file latency
+ */
+async function readAll(
+  files: string[],
+  concurrency: number,
+  maxBytes?: number
+): Promise<{ bytes: number; latencies: number[] }> {
+  const latencies: number[] = [];
+  let bytes = 0;
+  let next = 0;
+  const reader = async (): Promise<void> => {
+    const buffer = Buffer.allocUnsafe(maxBytes !== undefined ? Math.min(READ_BUFFER_SIZE, maxBytes) : READ_BUFFER_SIZE);
+    while (next < files.length) {
+      const file = files[next++];
+      const start = process.hrtime.bigint();
+      const read = await readFile(file, buffer, maxBytes);
+      latencies.push(elapsedMs(start));
+      bytes += read;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => reader()));
+  return { bytes, latencies };
+}
+
+function pickSample(files: string[], count: number, seed: number): string[] {
+  const rng = new SeededRandom(seed);
+  const pool = [...files];
+  // Partial Fisher-Yates: the first `count` slots end up a uniform sample
+  const n = Math.min(count, pool.length);
+  for (let i = 0; i < n; i++) {
+    const j = i + (rng.nextUint32() % (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, n);
+}
+
+/**
+ * Run one workload. `files` is the listing from listFiles and is only
+ * consulted by workloads that need more than the first file.
+ */
+export async function runWorkload(dir: string, files: string[], spec: WorkloadSpec): Promise<WorkloadResult> {
+  const label = spec.label ?? DEFAULT_LABELS[spec.kind];
+  const start = process.hrtime.bigint();
+  let result: { bytes: number; latencies: number[] };
+
+  switch (spec.kind) {
+    case 'first-byte': {
+      // Includes finding the file, like `find | head -1` followed by `head -c 1`
+      const first = await findFirstFile(dir);
+      if (!first) {
+        throw new Error(`No files found under ${dir}`);
+      }
+      result = await readAll([first], 1, 1);
+      break;
+    }
+    case 'sample':
+      result = await readAll(pickSample(files, spec.sampleSize ?? 10, spec.seed ?? Date.now()), 1);
+      break;
+    case 'hydrate-seq':
+      result = await readAll(files, 1);
+      break;
+    case 'hydrate-parallel':
+      result = await readAll(files, spec.concurrency ?? 8);
+      break;
+    case 'partial':
+      result = await readAll(files, spec.concurrency ?? 1, spec.partialBytes ?? 64 * 1024);
+      break;
+  }
+
+  const totalMs = elapsedMs(start);
+  return {
+    kind: spec.kind,
+    label,
+    files: result.latencies.length,
+    bytes: result.bytes,
+    totalMs,
+    mbPerSec: result.bytes / (1024 * 1024) / Math.max(totalMs / 1000, 1e-6),
+    latency: summarize(result.latencies),
+  };
+}
+
+/**
+ * Parse a workload list such as "first-byte,sample,hydrate-seq@hydrate_cold".
+ * `@name` sets the label results are exported under.
+ */
+export function parseWorkloads(spec: string, defaults: Omit<WorkloadSpec, 'kind' | 'label'> = {}): WorkloadSpec[] {
+  return spec
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [kind, label] = item.split('@');
+      if (!(WORKLOAD_KINDS as readonly string[]).includes(kind)) {
+        throw new Error(`Unknown workload "${kind}". Use one of ${WORKLOAD_KINDS.join(', ')}`);
+      }
+      return { ...defaults, kind: kind as WorkloadKind, label: label || undefined };
+    });
+}
+
+/**
+ * Set step outputs for each result: `<prefix><label>` is the total time in
+ * milliseconds, with throughput and latency percentiles alongside
+ */
+export function exportWorkloadResults(results: WorkloadResult[], prefix = ''): void {
+  for (const r of results) {
+    const name = `${prefix}${r.label}`;
+    core.setOutput(name, Math.round(r.totalMs));
+    core.setOutput(`${name}_mbps`, r.mbPerSec.toFixed(1));
+    core.setOutput(`${name}_p50`, r.latency.p50.toFixed(2));
+    core.setOutput(`${name}_p95`, r.latency.p95.toFixed(2));
+    core.setOutput(`${name}_p99`, r.latency.p99.toFixed(2));
+  }
+}
+
+/**
+ * One log line per result
+ */
+export function formatWorkloadResult(r: WorkloadResult): string {
+  return (
+    `${r.label.padEnd(18)} ${r.totalMs.toFixed(1)}ms, ${r.files} files, ${(r.bytes / (1024 * 1024)).toFixed(1)} MB ` +
+    `(${r.mbPerSec.toFixed(1)} MB/s) latency p50 ${r.latency.p50.toFixed(2)}ms p95 ${r.latency.p95.toFixed(2)}ms ` +
+    `p99 ${r.latency.p99.toFixed(2)}ms max ${r.latency.max.toFixed(2)}ms`
+  );
+}